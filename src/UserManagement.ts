@@ -1,8 +1,50 @@
-import { StorageAdapter, UserRole, Config, Plugin, HookEvent } from './types';
+import {
+  StorageAdapter,
+  UserRole,
+  AssignRoleOptions,
+  Permission,
+  Config,
+  Plugin,
+  HookCallback,
+  HookOptions,
+  HookEventMap,
+  HookName,
+  OperationContext,
+  TransactionHandle,
+  MigrationOptions,
+  MigrationReport,
+} from './types';
 import { PluginManager } from './plugins/PluginManager';
 import { HookManager } from './hooks/HookManager';
 import { UserManager } from './models/UserManager';
 import { RoleManager } from './models/RoleManager';
+import { TagManager } from './models/TagManager';
+import { PermissionManager } from './models/PermissionManager';
+import { GroupManager } from './models/GroupManager';
+import { AuditManager } from './models/AuditManager';
+import { CsvManager } from './models/CsvManager';
+import { PasswordHasher } from './credentials/PasswordHasher';
+import { PasswordPolicy } from './credentials/PasswordPolicy';
+import { PermissionMatcher } from './utils/permissions';
+import { Validator } from './utils/validation';
+import { TenantScopedAdapter } from './adapters/TenantScopedAdapter';
+import { AuditingAdapter } from './adapters/AuditingAdapter';
+import { systemClock } from './utils/assignments';
+import { RequestContext } from './utils/context';
+import { Migrator } from './utils/migrations';
+import { ValidationFailedError, NotInitializedError, MigrationError } from './errors';
+
+// Managers confined to one tenant, see UserManagement.forTenant
+export interface TenantScope {
+  tenantId: string;
+  users: UserManager;
+  roles: RoleManager;
+  groups: GroupManager;
+  audit: AuditManager;
+  csv: CsvManager;
+  assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole>;
+  removeRole(userId: string, roleId: string): Promise<boolean>;
+}
 
 export class UserManagement {
   private pluginManager: PluginManager;
@@ -10,11 +52,16 @@ export class UserManagement {
   private adapter: StorageAdapter | null = null;
   private userManager: UserManager | null = null;
   private roleManager: RoleManager | null = null;
+  private tagManager: TagManager | null = null;
+  private permissionManager: PermissionManager | null = null;
+  private groupManager: GroupManager | null = null;
+  private auditManager: AuditManager | null = null;
+  private csvManager: CsvManager | null = null;
   private initialized = false;
 
   constructor(private config: Config = {}) {
     this.pluginManager = new PluginManager();
-    this.hookManager = new HookManager();
+    this.hookManager = new HookManager(config.hooks);
   }
 
   async initialize(): Promise<void> {
@@ -28,20 +75,60 @@ export class UserManagement {
     // Load plugins
     await this.pluginManager.loadAllPlugins();
     
-    // Initialize adapter
-    await this.adapter!.initialize(this.config);
+    // Initialize adapter; pending plugin migrations run first
+    const migrations = this.pluginManager.getMigrations();
+    if (!this.adapter!.migrate) {
+      Migrator.unsupported(migrations);
+    }
+    await this.adapter!.initialize({ ...this.config, migrations });
     
     // Create managers
-    this.userManager = new UserManager(this.adapter!, this.hookManager);
+    this.userManager = new UserManager(
+      this.adapter!,
+      this.hookManager,
+      new PasswordHasher(this.config.passwordHashing),
+      new PasswordPolicy(this.config.passwordPolicy)
+    );
     this.roleManager = new RoleManager(this.adapter!, this.hookManager);
+    this.tagManager = new TagManager(this.adapter!, this.hookManager);
+    this.permissionManager = new PermissionManager(this.adapter!, this.hookManager);
+    this.groupManager = new GroupManager(this.adapter!, this.hookManager);
+    this.auditManager = new AuditManager(this.adapter!, this.config.audit, this.config.clock);
+    this.csvManager = new CsvManager(this.adapter!, this.userManager, this.roleManager, (userId, roleId) =>
+      this.assignRoleWith(this.adapter!, userId, roleId)
+    );
+    
+    // Drop audit entries that outlived the retention period while the library was not running
+    await this.auditManager.purgeExpired();
     
     this.initialized = true;
   }
 
+  // Runs pending migrations of the store and of the registered plugins, or with dryRun only reports them.
+  // initialize runs them too, so this is for running them, or seeing what they would do, beforehand.
+  async migrate(options?: MigrationOptions): Promise<MigrationReport> {
+    if (this.initialized) {
+      throw new MigrationError('The store is open; migrate before initialize');
+    }
+
+    await this.loadAdapter();
+    return this.adapter!.migrate
+      ? this.adapter!.migrate(this.pluginManager.getMigrations(), options)
+      : Migrator.unsupported(this.pluginManager.getMigrations(), options?.dryRun);
+  }
+
   private async loadAdapter(): Promise<void> {
+    // migrate may have loaded it already
+    if (this.adapter) {
+      return;
+    }
+
     const adapterName = this.config.adapter || 'memory';
     const AdapterClass = this.pluginManager.getAdapter(adapterName);
-    this.adapter = new AdapterClass(this.config);
+    const adapter = new AdapterClass(this.config);
+    this.adapter = this.config.audit
+      ? new AuditingAdapter(adapter, this.config.audit, this.config.clock || systemClock)
+      : adapter;
   }
 
   async shutdown(): Promise<void> {
@@ -59,6 +146,11 @@ export class UserManagement {
     this.adapter = null;
     this.userManager = null;
     this.roleManager = null;
+    this.tagManager = null;
+    this.permissionManager = null;
+    this.groupManager = null;
+    this.auditManager = null;
+    this.csvManager = null;
   }
 
   // User Management API
@@ -73,14 +165,92 @@ export class UserManagement {
     return this.roleManager!;
   }
 
+  // Tag Management API
+  get tags(): TagManager {
+    this.ensureInitialized();
+    return this.tagManager!;
+  }
+
+  // Permission Management API
+  get permissions(): PermissionManager {
+    this.ensureInitialized();
+    return this.permissionManager!;
+  }
+
+  // Group Management API
+  get groups(): GroupManager {
+    this.ensureInitialized();
+    return this.groupManager!;
+  }
+
+  // Runs fn with the given context, which hooks receive as data.context and adapters read from RequestContext.
+  // Nested calls inherit the outer context.
+  withContext<T>(context: OperationContext, fn: () => T): T {
+    return RequestContext.run(context, fn);
+  }
+
+  // Audit API
+  get audit(): AuditManager {
+    this.ensureInitialized();
+    return this.auditManager!;
+  }
+
+  // CSV import and export of users and their roles
+  get csv(): CsvManager {
+    this.ensureInitialized();
+    return this.csvManager!;
+  }
+
+  // Tenant API; the scope's managers only see and change entities of the given tenant
+  forTenant(tenantId: string): TenantScope {
+    this.ensureInitialized();
+
+    const validationError = Validator.validateId(tenantId) || Validator.validateTenantId(tenantId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const adapter = new TenantScopedAdapter(this.adapter!, tenantId);
+    const users = new UserManager(
+      adapter,
+      this.hookManager,
+      new PasswordHasher(this.config.passwordHashing),
+      new PasswordPolicy(this.config.passwordPolicy)
+    );
+    const roles = new RoleManager(adapter, this.hookManager);
+    return {
+      tenantId,
+      users,
+      roles,
+      groups: new GroupManager(adapter, this.hookManager),
+      audit: new AuditManager(adapter, this.config.audit, this.config.clock),
+      csv: new CsvManager(adapter, users, roles, (userId, roleId) => this.assignRoleWith(adapter, userId, roleId)),
+      assignRole: (userId, roleId, options) => this.assignRoleWith(adapter, userId, roleId, options),
+      removeRole: (userId, roleId) => this.removeRoleWith(adapter, userId, roleId),
+    };
+  }
+
   // User-Role Association API
-  async assignRole(userId: string, roleId: string): Promise<UserRole> {
+  async assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole> {
     this.ensureInitialized();
-    
+    return this.assignRoleWith(this.adapter!, userId, roleId, options);
+  }
+
+  async removeRole(userId: string, roleId: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.removeRoleWith(this.adapter!, userId, roleId);
+  }
+
+  private async assignRoleWith(
+    adapter: StorageAdapter,
+    userId: string,
+    roleId: string,
+    options?: AssignRoleOptions
+  ): Promise<UserRole> {
     // Execute pre-assign hooks
-    const preData = await this.hookManager.executeHooks('userRole.preAssign', { userId, roleId });
+    const preData = await this.hookManager.executeHooks('userRole.preAssign', { userId, roleId, options });
     
-    const userRole = await this.adapter!.assignRole(preData.userId, preData.roleId);
+    const userRole = await adapter.assignRole(preData.userId, preData.roleId, preData.options);
     
     // Execute post-assign hooks
     await this.hookManager.executeHooks('userRole.postAssign', { userRole });
@@ -88,13 +258,11 @@ export class UserManagement {
     return userRole;
   }
 
-  async removeRole(userId: string, roleId: string): Promise<boolean> {
-    this.ensureInitialized();
-    
+  private async removeRoleWith(adapter: StorageAdapter, userId: string, roleId: string): Promise<boolean> {
     // Execute pre-remove hooks
     const preData = await this.hookManager.executeHooks('userRole.preRemove', { userId, roleId });
     
-    const result = await this.adapter!.removeRole(preData.userId, preData.roleId);
+    const result = await adapter.removeRole(preData.userId, preData.roleId);
     
     // Execute post-remove hooks
     await this.hookManager.executeHooks('userRole.postRemove', { userId: preData.userId, roleId: preData.roleId, result });
@@ -102,10 +270,40 @@ export class UserManagement {
     return result;
   }
 
+  // Removes assignments whose validUntil has passed; expired assignments are already ignored by reads
+  async purgeExpiredAssignments(): Promise<UserRole[]> {
+    this.ensureInitialized();
+    
+    const expired = await this.adapter!.purgeExpiredAssignments();
+    
+    // Execute post-expire hooks
+    for (const userRole of expired) {
+      await this.hookManager.executeHooks('userRole.postExpire', { userRole });
+    }
+    
+    return expired;
+  }
+
+  // Authorization API
+  async getEffectivePermissions(userId: string): Promise<Permission[]> {
+    this.ensureInitialized();
+
+    const roles = await this.userManager!.getUserRoles(userId, { effective: true });
+    const rolePermissions = await Promise.all(roles.map(role => this.adapter!.getRolePermissions(role.id)));
+
+    return PermissionMatcher.unique(rolePermissions.flat());
+  }
+
+  async can(userId: string, action: string, resource: string): Promise<boolean> {
+    const permissions = await this.getEffectivePermissions(userId);
+    return permissions.some(permission => PermissionMatcher.matches(permission, action, resource));
+  }
+
   // Transaction API
-  async beginTransaction(): Promise<void> {
+  // Calls made through the handle's run are in the transaction; see StorageAdapter for the others
+  async beginTransaction(): Promise<TransactionHandle> {
     this.ensureInitialized();
-    await this.adapter!.beginTransaction();
+    return this.adapter!.beginTransaction();
   }
 
   async commit(): Promise<void> {
@@ -118,6 +316,14 @@ export class UserManagement {
     await this.adapter!.rollback();
   }
 
+  // Commits when fn resolves and rolls back when it throws. With the memory and file adapters the changes
+  // stay invisible to calls made outside fn until then; calling it again inside fn nests a transaction.
+  // Concurrent calls each get their own transaction; a commit that clashes with one made since fails.
+  async transaction<T>(fn: (tx: UserManagement) => Promise<T>): Promise<T> {
+    this.ensureInitialized();
+    return this.adapter!.transaction(() => fn(this));
+  }
+
   // Plugin Management API
   registerPlugin(plugin: Plugin): void {
     this.pluginManager.registerPlugin(plugin);
@@ -128,15 +334,25 @@ export class UserManagement {
   }
 
   // Hook Management API
-  registerHook(event: string, callback: (data: HookEvent) => Promise<HookEvent | undefined>, priority = 0): void {
-    this.hookManager.registerHook(event, callback, priority);
+  registerHook<K extends HookName>(
+    event: K,
+    callback: HookCallback<HookEventMap[K]>,
+    priority = 0,
+    options?: HookOptions
+  ): void {
+    this.hookManager.registerHook(event, callback, priority, options);
+  }
+
+  // Lets plugins emit the events they added to HookEventMap
+  async executeHooks<K extends HookName>(event: K, data: HookEventMap[K]): Promise<HookEventMap[K]> {
+    return this.hookManager.executeHooks(event, data);
   }
 
-  removeHook(event: string, callback: (data: HookEvent) => Promise<HookEvent | undefined>): void {
+  removeHook<K extends HookName>(event: K, callback: HookCallback<HookEventMap[K]>): void {
     this.hookManager.removeHook(event, callback);
   }
 
-  removeAllHooks(event?: string): void {
+  removeAllHooks(event?: HookName): void {
     this.hookManager.removeAllHooks(event);
   }
 
@@ -152,7 +368,7 @@ export class UserManagement {
   // Utility methods
   private ensureInitialized(): void {
     if (!this.initialized) {
-      throw new Error('UserManagement not initialized. Call initialize() first.');
+      throw new NotInitializedError('UserManagement not initialized. Call initialize() first.');
     }
   }
 
@@ -1,4 +1,47 @@
-import { createUserManagement } from '../index';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createUserManagement,
+  UserManagement,
+  UserManager,
+  MemoryAdapter,
+  FileSystemAdapter,
+  SqliteAdapter,
+  TenantScopedAdapter,
+  DataTransfer,
+  Csv,
+  HookManager,
+  PasswordHasher,
+  ConflictError,
+  VersionConflictError,
+  TransactionConflictError,
+  UserManagementError,
+  NotInitializedError,
+  PluginError,
+  HookError,
+  OperationVetoedError,
+  StorageLockedError,
+  CorruptDataError,
+  MigrationError,
+  DataTransferError,
+  Plugin,
+  HookEvent,
+  HookActions,
+  OperationContext,
+  RequestContext,
+  StorageAdapter,
+  DataCollection,
+  DataRecords,
+  Role,
+  User
+} from '../index';
+
+declare module '../types' {
+  interface HookEventMap {
+    'invite.preSend': { email: string; expiresInDays: number };
+  }
+}
 
 describe('User Management Library', () => {
   let userMgmt: any; // Using any for testing purposes
@@ -70,6 +113,49 @@ describe('User Management Library', () => {
       expect(user!.username).toBe('testuser');
     });
 
+    test('should page through users with a cursor while rows change', async () => {
+      const typedMgmt = userMgmt as UserManagement;
+      const created = [];
+      for (let i = 0; i < 5; i++) {
+        created.push(await typedMgmt.users.createUser({ username: `user${i}`, email: `user${i}@example.com` }));
+      }
+
+      const first = await typedMgmt.users.getUsersPage({ limit: 2 });
+      expect(first.items).toHaveLength(2);
+
+      // Deleting a row from the first page must not make the next page skip a row
+      await typedMgmt.users.deleteUser(first.items[0].id);
+      const second = await typedMgmt.users.getUsersPage({ limit: 2, cursor: first.nextCursor });
+      const third = await typedMgmt.users.getUsersPage({ limit: 2, cursor: second.nextCursor });
+
+      const seen = [...first.items, ...second.items, ...third.items].map(user => user.id);
+      expect(seen.sort()).toEqual(created.map(user => user.id).sort());
+      expect(third.nextCursor).toBeNull();
+
+      await expect(typedMgmt.users.getUsersPage({ cursor: 'not-a-cursor' })).rejects.toThrow('Cursor is not valid');
+    });
+
+    test('should iterate over all users and roles in batches', async () => {
+      const typedMgmt = userMgmt as UserManagement;
+      for (let i = 0; i < 5; i++) {
+        await typedMgmt.users.createUser({ username: `user${i}`, email: `user${i}@example.com` });
+        await typedMgmt.roles.createRole({ name: `Role ${i}` });
+      }
+
+      const usernames: string[] = [];
+      for await (const user of typedMgmt.users.iterate({ batchSize: 2, filter: { username: { $ne: 'user3' } } })) {
+        usernames.push(user.username);
+      }
+      expect(usernames.sort()).toEqual(['user0', 'user1', 'user2', 'user4']);
+
+      let roleCount = 0;
+      for await (const role of typedMgmt.roles.iterate({ batchSize: 3, include: ['users'] })) {
+        expect(role.users).toEqual([]);
+        roleCount++;
+      }
+      expect(roleCount).toBe(5);
+    });
+
     test('should update a user', async () => {
       const createdUser = await userMgmt.users.createUser({
         username: 'testuser',
@@ -102,6 +188,689 @@ describe('User Management Library', () => {
     });
   });
 
+  describe('Credentials', () => {
+    let credMgmt: UserManagement;
+
+    beforeEach(async () => {
+      credMgmt = createUserManagement({
+        passwordHashing: { cost: 1024 },
+        passwordPolicy: { minLength: 10, requireDigit: true, bannedPasswords: ['password123'] }
+      });
+      await credMgmt.initialize();
+    });
+
+    afterEach(async () => {
+      await credMgmt.shutdown();
+    });
+
+    test('should set and verify passwords by id or username', async () => {
+      const user = await credMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+
+      expect(await credMgmt.users.setPassword(user.id, 'correct horse 1')).toBe(true);
+      expect(await credMgmt.users.verifyPassword(user.id, 'correct horse 1')).toBe(true);
+      expect(await credMgmt.users.verifyPassword('testuser', 'correct horse 1')).toBe(true);
+      expect(await credMgmt.users.verifyPassword('testuser', 'wrong horse 1')).toBe(false);
+      expect(await credMgmt.users.verifyPassword('nobody', 'correct horse 1')).toBe(false);
+      expect(await credMgmt.users.setPassword('missing', 'correct horse 1')).toBe(false);
+    });
+
+    test('should only return password hashes when asked explicitly', async () => {
+      const user = await credMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+      await credMgmt.users.setPassword(user.id, 'correct horse 1');
+
+      const { items } = await credMgmt.users.getUsers();
+      expect(items[0]).not.toHaveProperty('passwordHash');
+      expect(await credMgmt.users.getUserById(user.id)).not.toHaveProperty('passwordHash');
+
+      const withHash = await credMgmt.users.getUserById(user.id, { includePasswordHash: true });
+      expect(withHash!.passwordHash).toMatch(/^\$scrypt\$v=1\$N=1024,r=8,p=1\$[^$]+\$[^$]+$/);
+ 
+      const page = await credMgmt.users.getUsersPage({ includePasswordHash: true });
+      expect(page.items[0].passwordHash).toBe(withHash!.passwordHash);
+      expect((await credMgmt.users.getUsersPage()).items[0]).not.toHaveProperty('passwordHash');
+      for await (const iterated of credMgmt.users.iterate({ includePasswordHash: true })) {
+        expect(iterated.passwordHash).toBe(withHash!.passwordHash);
+      }
+    });
+
+    test('should enforce the password policy', async () => {
+      const user = await credMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+
+      expect(credMgmt.users.validatePassword('short1')).toEqual([
+        { field: 'password', message: 'Password must be at least 10 characters long' }
+      ]);
+      expect(credMgmt.users.validatePassword('PASSWORD123').map(e => e.message)).toEqual(['Password is too common']);
+      await expect(credMgmt.users.setPassword(user.id, 'no digits here')).rejects.toThrow('Password must contain a digit');
+    });
+
+    test('should rehash passwords when hashing parameters change', async () => {
+      const adapter = new MemoryAdapter();
+      const hooks = new HookManager();
+      const oldManager = new UserManager(adapter, hooks, new PasswordHasher({ cost: 1024 }));
+      const newManager = new UserManager(adapter, hooks, new PasswordHasher({ cost: 2048 }));
+
+      const user = await oldManager.createUser({ username: 'testuser', email: 'test@example.com' });
+      await oldManager.setPassword(user.id, 'correct horse 1');
+      const oldHash = (await adapter.getUserById(user.id))!.passwordHash!;
+
+      expect(await newManager.verifyPassword(user.id, 'correct horse 1')).toBe(true);
+      const newHash = (await adapter.getUserById(user.id))!.passwordHash!;
+      expect(newHash).not.toBe(oldHash);
+      expect(newHash).toContain('$N=2048,');
+      expect(await newManager.verifyPassword(user.id, 'correct horse 1')).toBe(true);
+      expect(await oldManager.verifyPassword(user.id, 'correct horse 1')).toBe(true);
+    });
+
+    test('should reject malformed hashes', async () => {
+      const hasher = new PasswordHasher({ cost: 1024 });
+
+      expect(await hasher.verify('secret', 'plain-text')).toBe(false);
+      expect(await hasher.verify('secret', '$scrypt$v=1$N=1024,r=8,p=1$$')).toBe(false);
+      expect(hasher.needsRehash('plain-text')).toBe(true);
+      expect(hasher.needsRehash(await hasher.hash('secret'))).toBe(false);
+    });
+  });
+
+  describe('Tag Management', () => {
+    test('should list, rename and remove tag keys', async () => {
+      await userMgmt.users.createUser({
+        username: 'testuser',
+        email: 'test@example.com',
+        tags: { department: 'eng' }
+      });
+      await userMgmt.roles.createRole({ name: 'Admin', tags: { department: 'ops' } });
+
+      expect(await userMgmt.tags.getTagKeys()).toEqual(['department']);
+      expect(await userMgmt.tags.getTagValues('department')).toEqual(['eng', 'ops']);
+
+      expect(await userMgmt.tags.renameTagKey('department', 'team')).toBe(2);
+      const result = await userMgmt.users.getUsers({ filter: { 'tags.team': 'eng' } });
+      expect(result.items).toHaveLength(1);
+
+      expect(await userMgmt.tags.removeTagKey('team', 'roles')).toBe(1);
+      expect(await userMgmt.tags.getTagKeys('roles')).toEqual([]);
+    });
+  });
+
+  describe('Permissions', () => {
+    test('should check permissions granted through roles', async () => {
+      const user = await userMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+      const editor = await userMgmt.roles.createRole({ name: 'Editor' });
+      const viewer = await userMgmt.roles.createRole({ name: 'Viewer' });
+      const managePosts = await userMgmt.permissions.createPermission({ action: '*', resource: 'posts' });
+      const readAll = await userMgmt.permissions.createPermission({ action: 'read', resource: '*' });
+      const deleteDrafts = await userMgmt.permissions.createPermission({ action: 'delete', resource: 'drafts/*' });
+
+      await userMgmt.roles.grantPermission(editor.id, managePosts.id);
+      await userMgmt.roles.grantPermission(editor.id, deleteDrafts.id);
+      await userMgmt.roles.grantPermission(viewer.id, readAll.id);
+      await userMgmt.roles.grantPermission(viewer.id, managePosts.id);
+
+      expect(await userMgmt.can(user.id, 'publish', 'posts')).toBe(false);
+
+      await userMgmt.assignRole(user.id, editor.id);
+      await userMgmt.assignRole(user.id, viewer.id);
+
+      expect(await userMgmt.can(user.id, 'publish', 'posts')).toBe(true);
+      expect(await userMgmt.can(user.id, 'read', 'comments')).toBe(true);
+      expect(await userMgmt.can(user.id, 'delete', 'drafts/42')).toBe(true);
+      expect(await userMgmt.can(user.id, 'delete', 'comments')).toBe(false);
+      expect(await userMgmt.can(user.id, 'delete', 'drafts')).toBe(false);
+
+      const permissions = await userMgmt.getEffectivePermissions(user.id);
+      expect(permissions.map((permission: { id: string }) => permission.id).sort()).toEqual(
+        [managePosts.id, readAll.id, deleteDrafts.id].sort()
+      );
+
+      await userMgmt.roles.revokePermission(viewer.id, readAll.id);
+      expect(await userMgmt.can(user.id, 'read', 'comments')).toBe(false);
+    });
+  });
+
+  describe('Time-bound Assignments', () => {
+    test('should expire assignments as the clock moves forward', async () => {
+      let now = new Date('2024-01-01T00:00:00Z');
+      const clockMgmt = createUserManagement({ clock: () => now });
+      await clockMgmt.initialize();
+
+      const expiredEvents: unknown[] = [];
+      clockMgmt.registerHook('userRole.postExpire', async data => {
+        expiredEvents.push(data.userRole);
+        return data;
+      });
+
+      const user = await clockMgmt.users.createUser({ username: 'contractor', email: 'contractor@example.com' });
+      const role = await clockMgmt.roles.createRole({ name: 'OnCall' });
+      await clockMgmt.assignRole(user.id, role.id, { validUntil: new Date('2024-01-08T00:00:00Z') });
+
+      expect(await clockMgmt.users.getUserRoles(user.id)).toHaveLength(1);
+      expect(await clockMgmt.purgeExpiredAssignments()).toEqual([]);
+
+      now = new Date('2024-01-08T00:00:00Z');
+      expect(await clockMgmt.users.getUserRoles(user.id)).toEqual([]);
+      expect(await clockMgmt.roles.getRoleUsers(role.id)).toEqual([]);
+
+      const expired = await clockMgmt.purgeExpiredAssignments();
+      expect(expired).toHaveLength(1);
+      expect(expiredEvents).toEqual(expired);
+
+      await clockMgmt.shutdown();
+    });
+  });
+
+  describe('Role Hierarchy', () => {
+    test('should inherit roles and permissions from parent roles', async () => {
+      const user = await userMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+      const viewer = await userMgmt.roles.createRole({ name: 'Viewer' });
+      const editor = await userMgmt.roles.createRole({ name: 'Editor' });
+      const admin = await userMgmt.roles.createRole({ name: 'Admin', parentIds: [editor.id] });
+      const readPosts = await userMgmt.permissions.createPermission({ action: 'read', resource: 'posts' });
+      await userMgmt.roles.grantPermission(viewer.id, readPosts.id);
+      await userMgmt.assignRole(user.id, admin.id);
+
+      expect(await userMgmt.can(user.id, 'read', 'posts')).toBe(false);
+
+      const updated = await userMgmt.roles.addParentRole(editor.id, viewer.id);
+      expect(updated.parentIds).toEqual([viewer.id]);
+      expect(await userMgmt.can(user.id, 'read', 'posts')).toBe(true);
+
+      const roles = await userMgmt.users.getUserRoles(user.id, { effective: true });
+      expect(roles.map((role: { name: string }) => role.name).sort()).toEqual(['Admin', 'Editor', 'Viewer']);
+      expect(await userMgmt.roles.getRoleUsers(viewer.id, { effective: true })).toHaveLength(1);
+
+      await expect(userMgmt.roles.addParentRole(viewer.id, admin.id)).rejects.toThrow('cycles');
+
+      await userMgmt.roles.removeParentRole(editor.id, viewer.id);
+      expect(await userMgmt.can(user.id, 'read', 'posts')).toBe(false);
+    });
+  });
+
+  describe('Groups', () => {
+    test('should grant group roles and permissions to members', async () => {
+      const user = await userMgmt.users.createUser({
+        username: 'testuser',
+        email: 'test@example.com',
+        passwordHash: 'secret',
+      });
+      const editor = await userMgmt.roles.createRole({ name: 'Editor' });
+      const writePosts = await userMgmt.permissions.createPermission({ action: 'write', resource: 'posts' });
+      await userMgmt.roles.grantPermission(editor.id, writePosts.id);
+
+      const group = await userMgmt.groups.createGroup({ name: 'Writers' });
+      await userMgmt.groups.assignRole(group.id, editor.id);
+      expect(await userMgmt.can(user.id, 'write', 'posts')).toBe(false);
+
+      await userMgmt.groups.addMember(group.id, user.id);
+      expect(await userMgmt.can(user.id, 'write', 'posts')).toBe(true);
+      expect(await userMgmt.users.getUserRoles(user.id)).toEqual([]);
+      expect(await userMgmt.users.getUserRoles(user.id, { effective: true })).toEqual([editor]);
+      expect(await userMgmt.groups.getUserGroups(user.id)).toEqual([group]);
+
+      const members = await userMgmt.groups.getMembers(group.id);
+      expect(members).toHaveLength(1);
+      expect(members[0].passwordHash).toBeUndefined();
+
+      await userMgmt.groups.removeMember(group.id, user.id);
+      expect(await userMgmt.can(user.id, 'write', 'posts')).toBe(false);
+    });
+  });
+
+  describe('Multi-tenancy', () => {
+    test('should isolate tenants from each other', async () => {
+      const acme = userMgmt.forTenant('acme');
+      const globex = userMgmt.forTenant('globex');
+
+      const acmeAlice = await acme.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const globexAlice = await globex.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      expect(acmeAlice.tenantId).toBe('acme');
+      await expect(acme.users.createUser({ username: 'alice', email: 'other@example.com' })).rejects.toThrow(
+        'already exists'
+      );
+
+      expect(await acme.users.getUserById(globexAlice.id)).toBeNull();
+      expect((await acme.users.getUsers()).items.map((user: { id: string }) => user.id)).toEqual([acmeAlice.id]);
+      expect(await globex.users.updateUser(acmeAlice.id, { username: 'mallory' })).toBeNull();
+      expect(await globex.users.deleteUser(acmeAlice.id)).toBe(false);
+
+      const acmeAdmin = await acme.roles.createRole({ name: 'Admin' });
+      await acme.assignRole(acmeAlice.id, acmeAdmin.id);
+      expect(await acme.users.getUserRoles(acmeAlice.id)).toEqual([acmeAdmin]);
+      await expect(globex.assignRole(globexAlice.id, acmeAdmin.id)).rejects.toThrow('not found');
+      await expect(userMgmt.assignRole(globexAlice.id, acmeAdmin.id)).rejects.toThrow('different tenants');
+
+      // The unscoped API sees every tenant
+      expect((await userMgmt.users.getUsers()).total).toBe(2);
+      expect(() => userMgmt.forTenant('')).toThrow('Validation failed');
+    });
+
+    test('should verify passwords by username within a tenant only', async () => {
+      const acme = userMgmt.forTenant('acme');
+      const globex = userMgmt.forTenant('globex');
+      const acmeAlice = await acme.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const globexAlice = await globex.users.createUser({ username: 'Alice', email: 'alice@example.com' });
+      await acme.users.setPassword(acmeAlice.id, 'acme password 1');
+      await globex.users.setPassword(globexAlice.id, 'globex password 1');
+
+      expect(await acme.users.verifyPassword('ALICE', 'acme password 1')).toBe(true);
+      expect(await acme.users.verifyPassword('alice', 'globex password 1')).toBe(false);
+      expect(await globex.users.verifyPassword('alice', 'globex password 1')).toBe(true);
+      await expect(userMgmt.users.verifyPassword('alice', 'acme password 1')).rejects.toThrow(
+        'Username alice is used by more than one tenant'
+      );
+      expect(await userMgmt.users.verifyPassword(acmeAlice.id, 'acme password 1')).toBe(true);
+    });
+  });
+
+  describe('Unique Fields', () => {
+    test.each([
+      ['memory', {}],
+      ['sqlite', { filename: ':memory:' }],
+    ])('should enforce unique fields declared in the config (%s)', async (adapter, options) => {
+      const uniqueMgmt = createUserManagement({ adapter, ...options, uniqueFields: { users: ['tags.employeeId'] } });
+      await uniqueMgmt.initialize();
+
+      const alice = await uniqueMgmt.users.createUser({
+        username: 'alice',
+        email: 'alice@example.com',
+        tags: { employeeId: 'E-100' },
+      });
+      await uniqueMgmt.users.createUser({ username: 'bob', email: 'bob@example.com' });
+
+      await expect(
+        uniqueMgmt.users.createUser({ username: 'carol', email: 'carol@example.com', tags: { employeeId: 'e-100' } })
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        uniqueMgmt.users.createUser({ username: 'dave', email: 'dave@example.com' })
+      ).resolves.toMatchObject({ username: 'dave' });
+      await expect(
+        uniqueMgmt.users.updateUser(alice.id, { tags: { employeeId: 'E-100', level: 2 } })
+      ).resolves.toMatchObject({ tags: { level: 2 } });
+
+      await uniqueMgmt.shutdown();
+    });
+
+    test.each([
+      ['memory', {}],
+      ['sqlite', { filename: ':memory:' }],
+    ])('should refuse tag renames that break unique fields (%s)', async (adapter, options) => {
+      const uniqueMgmt = createUserManagement({ adapter, ...options, uniqueFields: { users: ['tags.employeeId'] } });
+      await uniqueMgmt.initialize();
+
+      const alice = await uniqueMgmt.users.createUser({
+        username: 'alice',
+        email: 'alice@example.com',
+        tags: { employeeId: 'E1' },
+      });
+      const bob = await uniqueMgmt.users.createUser({ username: 'bob', email: 'bob@example.com', tags: { eid: 'E1' } });
+      await uniqueMgmt.users.createUser({ username: 'carol', email: 'carol@example.com', tags: { eid: 'E2' } });
+
+      await expect(uniqueMgmt.tags.renameTagKey('eid', 'employeeId')).rejects.toMatchObject({
+        code: 'CONFLICT',
+        field: 'tags.employeeId',
+      });
+      expect((await uniqueMgmt.users.getUserById(alice.id))!.tags).toEqual({ employeeId: 'E1' });
+      expect((await uniqueMgmt.users.getUserById(bob.id))!.tags).toEqual({ eid: 'E1' });
+      expect(await uniqueMgmt.tags.getTagValues('eid')).toEqual(['E1', 'E2']);
+
+
+      await uniqueMgmt.shutdown();
+    });
+
+    test('should undo a tenant tag rename that breaks unique fields part way', async () => {
+      const adapter = new MemoryAdapter({ uniqueFields: { users: ['tags.employeeId'] } });
+      await adapter.initialize();
+      const acme = new TenantScopedAdapter(adapter, 'acme');
+
+      // dave is rewritten before erin's new tag clashes with frank's
+      const dave = await acme.createUser({ username: 'dave', email: 'dave@example.com', tags: { eid: 'E3' } });
+      await acme.createUser({ username: 'erin', email: 'erin@example.com', tags: { eid: 'E4' } });
+      await acme.createUser({ username: 'frank', email: 'frank@example.com', tags: { employeeId: 'E4' } });
+
+      await expect(acme.renameTagKey('eid', 'employeeId')).rejects.toThrow(ConflictError);
+      expect((await acme.getUserById(dave.id))!.tags).toEqual({ eid: 'E3' });
+    });
+  });
+
+  describe('Optimistic Concurrency', () => {
+    test('should reject writes based on a stale version', async () => {
+      const user = await userMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const seen: Array<number | undefined> = [];
+      userMgmt.registerHook('user.preUpdate', async (data: HookEvent) => {
+        seen.push(data.options?.expectedVersion);
+      });
+
+      const updated = await userMgmt.users.updateUser(user.id, { tags: { level: 1 } }, { expectedVersion: 1 });
+      expect(updated!.version).toBe(2);
+      await expect(
+        userMgmt.users.updateUser(user.id, { tags: { level: 2 } }, { expectedVersion: 1 })
+      ).rejects.toMatchObject({ code: 'VERSION_CONFLICT', actualVersion: 2 });
+      await expect(userMgmt.users.deleteUser(user.id, { expectedVersion: 1 })).rejects.toThrow(VersionConflictError);
+      expect(seen).toEqual([1, 1]);
+
+      const role = await userMgmt.roles.createRole({ name: 'admin' });
+      const parent = await userMgmt.roles.createRole({ name: 'staff' });
+      expect((await userMgmt.roles.addParentRole(role.id, parent.id))!.version).toBe(2);
+    });
+  });
+
+  describe('Errors', () => {
+    test('should throw typed errors with stable codes', async () => {
+      const uninitialized = createUserManagement();
+      expect(() => uninitialized.users).toThrow(NotInitializedError);
+
+      const plugin = { name: 'audit', version: '1.0.0', initialize: async () => {}, shutdown: async () => {} };
+      userMgmt.registerPlugin(plugin);
+      expect(() => userMgmt.registerPlugin(plugin)).toThrow(PluginError);
+      expect(() => userMgmt.registerPlugin({ ...plugin, name: 'core' })).toThrow('reserved');
+      await expect(createUserManagement({ adapter: 'missing' }).initialize()).rejects.toMatchObject({
+        code: 'PLUGIN_ERROR',
+        plugin: 'missing',
+      });
+
+      const error = await userMgmt.users.createUser({ username: '', email: 'invalid' }).catch((e: Error) => e);
+      expect(error).toBeInstanceOf(UserManagementError);
+      expect(error).toMatchObject({ code: 'VALIDATION_FAILED', name: 'ValidationFailedError' });
+      expect(error.errors.map((e: { field: string }) => e.field)).toEqual(expect.arrayContaining(['username', 'email']));
+    });
+  });
+
+  describe('Hook Error Policies', () => {
+    test('should let pre-hooks veto an operation with a reason', async () => {
+      userMgmt.registerHook('user.preCreate', async (data: HookEvent, { veto }: HookActions) => {
+        if (data.userData.username === 'root') {
+          veto('Username is reserved');
+        }
+      });
+
+      await expect(userMgmt.users.createUser({ username: 'root', email: 'root@example.com' })).rejects.toMatchObject({
+        code: 'OPERATION_VETOED',
+        event: 'user.preCreate',
+        reason: 'Username is reserved',
+      });
+      await expect(userMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' })).resolves.toBeDefined();
+      expect((await userMgmt.users.getUsers()).total).toBe(1);
+
+      userMgmt.registerHook('role.preDelete', async (_data: HookEvent, { veto }: HookActions) =>
+        veto('Roles are locked')
+      );
+      const role = await userMgmt.roles.createRole({ name: 'admin' });
+      await expect(userMgmt.roles.deleteRole(role.id)).rejects.toThrow(OperationVetoedError);
+      expect(await userMgmt.roles.getRoleById(role.id)).not.toBeNull();
+    });
+
+    test('should apply the error policy of each hook and report failures', async () => {
+      const failures: string[] = [];
+      const logged: string[] = [];
+      const policyMgmt = createUserManagement({
+        hooks: {
+          onHookError: (_error, event) => failures.push(event),
+          logger: message => logged.push(message),
+        },
+      });
+      await policyMgmt.initialize();
+
+      const failing = async () => {
+        throw new Error('broken');
+      };
+      policyMgmt.registerHook('user.preCreate', failing);
+      policyMgmt.registerHook('user.preCreate', failing, 0, { policy: 'log' });
+      await expect(
+        policyMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' })
+      ).resolves.toBeDefined();
+      expect(failures).toEqual(['user.preCreate', 'user.preCreate']);
+      expect(logged).toEqual(['Hook for "user.preCreate" failed']);
+
+      policyMgmt.registerHook('role.preCreate', failing, 0, { policy: 'abort' });
+      const error = await policyMgmt.roles.createRole({ name: 'admin' }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HookError);
+      expect(error).toMatchObject({ code: 'HOOK_ERROR', event: 'role.preCreate', cause: new Error('broken') });
+      expect((await policyMgmt.roles.getRoles()).total).toBe(0);
+
+      await policyMgmt.shutdown();
+    });
+  });
+
+  describe('Typed Hooks', () => {
+    test('should pass typed payloads to hooks, including events added by plugins', async () => {
+      const typedMgmt = createUserManagement();
+      await typedMgmt.initialize();
+
+      const created: string[] = [];
+      typedMgmt.registerHook('user.preCreate', async data => ({
+        userData: { ...data.userData, tags: { ...data.userData.tags, source: 'signup' } },
+      }));
+      typedMgmt.registerHook('user.postCreate', async data => {
+        created.push(data.user.username);
+      });
+      typedMgmt.registerHook('invite.preSend', async data => ({ expiresInDays: Math.min(data.expiresInDays, 7) }));
+
+      const user = await typedMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      expect(user.tags).toEqual({ source: 'signup' });
+      expect(created).toEqual(['alice']);
+      await expect(
+        typedMgmt.executeHooks('invite.preSend', { email: 'bob@example.com', expiresInDays: 30 })
+      ).resolves.toEqual({ email: 'bob@example.com', expiresInDays: 7 });
+
+      await typedMgmt.shutdown();
+    });
+  });
+
+  describe('Audit Log', () => {
+    test.each([
+      ['memory', {}],
+      ['sqlite', { filename: ':memory:' }],
+    ])('should record committed mutations with actor and diff (%s)', async (adapter, options) => {
+      let now = new Date('2024-01-01T00:00:00Z');
+      let actor = 'admin';
+      const auditMgmt = createUserManagement({
+        adapter,
+        ...options,
+        clock: () => now,
+        audit: { actor: () => actor, retentionDays: 30 },
+      });
+      await auditMgmt.initialize();
+
+      const alice = await auditMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const admin = await auditMgmt.roles.createRole({ name: 'admin' });
+      await auditMgmt.users.updateUser(alice.id, { tags: { level: 2 } });
+      await auditMgmt.users.setPassword(alice.id, 'correct horse battery 1');
+
+      actor = 'bob';
+      await auditMgmt.beginTransaction();
+      await auditMgmt.assignRole(alice.id, admin.id);
+      await auditMgmt.roles.updateRole(admin.id, { description: 'Administrators' });
+      await auditMgmt.commit();
+
+      await auditMgmt.beginTransaction();
+      await auditMgmt.users.deleteUser(alice.id);
+      await auditMgmt.rollback();
+
+      const entries = await auditMgmt.audit.query();
+      expect(entries.map(entry => [entry.actor, entry.action, entry.target])).toEqual([
+        ['admin', 'user.create', alice.id],
+        ['admin', 'role.create', admin.id],
+        ['admin', 'user.update', alice.id],
+        ['admin', 'user.update', alice.id],
+        ['bob', 'userRole.assign', alice.id],
+        ['bob', 'role.update', admin.id],
+      ]);
+      expect(entries[2]).toMatchObject({ before: {}, after: { tags: { level: 2 } } });
+      expect(entries[3]).toMatchObject({ after: { passwordHash: '[REDACTED]' } });
+      expect(entries[4].after).toMatchObject({ userId: alice.id, roleId: admin.id });
+      expect(entries[4].correlationId).toBe(entries[5].correlationId);
+      expect(entries[3].correlationId).not.toBe(entries[4].correlationId);
+
+      expect(await auditMgmt.audit.query({ actor: 'bob', action: 'userRole.assign' })).toEqual([entries[4]]);
+      expect(await auditMgmt.audit.query({ target: admin.id })).toEqual([entries[1], entries[5]]);
+
+      now = new Date('2024-01-31T00:00:00Z');
+      await auditMgmt.users.deleteUser(alice.id);
+      now = new Date('2024-02-15T00:00:00Z');
+      expect(await auditMgmt.audit.purgeExpired()).toBe(6);
+      expect(await auditMgmt.audit.query()).toMatchObject([
+        { action: 'userRole.remove', target: alice.id, before: { userId: alice.id, roleId: admin.id } },
+        { action: 'user.delete', before: { username: 'alice' } },
+      ]);
+
+      await auditMgmt.shutdown();
+    });
+
+    test.each([
+      ['memory', {}],
+      ['sqlite', { filename: ':memory:' }],
+    ])('should record the users and roles a tag key change rewrites (%s)', async (adapter, options) => {
+      const auditMgmt = createUserManagement({ adapter, ...options, audit: {} });
+      await auditMgmt.initialize();
+      const alice = await auditMgmt.users.createUser({
+        username: 'alice',
+        email: 'alice@example.com',
+        tags: { dept: 'eng', level: 2 },
+      });
+      await auditMgmt.users.createUser({ username: 'bob', email: 'bob@example.com', tags: { level: 1 } });
+      const admin = await auditMgmt.roles.createRole({ name: 'admin', tags: { dept: 'ops' } });
+
+      expect(await auditMgmt.tags.renameTagKey('dept', 'team')).toBe(2);
+      expect(await auditMgmt.tags.removeTagKey('team', 'roles')).toBe(1);
+
+      const updates = (await auditMgmt.audit.query()).filter(entry => entry.action.endsWith('.update'));
+      expect(updates).toMatchObject([
+        { action: 'user.update', target: alice.id, before: { tags: { dept: 'eng', level: 2 } } },
+        { action: 'role.update', target: admin.id, after: { tags: { team: 'ops' } } },
+        { action: 'role.update', target: admin.id, before: { tags: { team: 'ops' } }, after: { tags: {} } },
+      ]);
+      expect(updates[0].after).toEqual({ tags: { team: 'eng', level: 2 } });
+
+      await auditMgmt.shutdown();
+    });
+
+    test.each([
+      ['memory', {}],
+      ['sqlite', { filename: ':memory:' }],
+    ])('should record the assignments and child roles a delete changes (%s)', async (adapter, options) => {
+      const auditMgmt = createUserManagement({ adapter, ...options, audit: {} });
+      await auditMgmt.initialize();
+      const alice = await auditMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const bob = await auditMgmt.users.createUser({ username: 'bob', email: 'bob@example.com' });
+      const staff = await auditMgmt.roles.createRole({ name: 'staff' });
+      const admin = await auditMgmt.roles.createRole({ name: 'admin', parentIds: [staff.id] });
+      const editor = await auditMgmt.roles.createRole({ name: 'editor' });
+      const validUntil = new Date(Date.now() + 60_000);
+      await auditMgmt.assignRole(alice.id, staff.id, { validUntil });
+      await auditMgmt.assignRole(bob.id, staff.id);
+      await auditMgmt.assignRole(alice.id, editor.id);
+
+      await auditMgmt.roles.deleteRole(staff.id);
+      await auditMgmt.users.deleteUser(alice.id);
+
+      const entries = await auditMgmt.audit.query();
+      expect(entries.slice(-6, -1)).toMatchObject([
+        {
+          action: 'userRole.remove',
+          target: alice.id,
+          before: { roleId: staff.id, validUntil: validUntil.toISOString() },
+        },
+        { action: 'userRole.remove', target: bob.id, before: { roleId: staff.id } },
+        { action: 'role.update', target: admin.id, before: { parentIds: [staff.id] }, after: { parentIds: [] } },
+        { action: 'role.delete', target: staff.id },
+        { action: 'userRole.remove', target: alice.id, before: { roleId: editor.id } },
+      ]);
+      expect(entries[entries.length - 1]).toMatchObject({ action: 'user.delete', target: alice.id });
+
+      await auditMgmt.shutdown();
+    });
+
+    test.each([
+      ['memory', {}],
+      ['sqlite', { filename: ':memory:' }],
+    ])('should record a re-assignment only when it changes the validity (%s)', async (adapter, options) => {
+      const auditMgmt = createUserManagement({ adapter, ...options, audit: {} });
+      await auditMgmt.initialize();
+      const alice = await auditMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const admin = await auditMgmt.roles.createRole({ name: 'admin' });
+      const validUntil = new Date(Date.now() + 60_000);
+
+      await auditMgmt.assignRole(alice.id, admin.id);
+      await auditMgmt.assignRole(alice.id, admin.id);
+      await auditMgmt.assignRole(alice.id, admin.id, { validUntil });
+
+      const entries = await auditMgmt.audit.query({ target: alice.id });
+      expect(entries.map(entry => entry.action)).toEqual(['user.create', 'userRole.assign', 'userRole.update']);
+      expect(entries[2]).toMatchObject({ before: {}, after: { validUntil: validUntil.toISOString() } });
+
+      await auditMgmt.shutdown();
+    });
+
+    test('should purge only the expired entries of a tenant through its scope', async () => {
+      let now = new Date('2024-01-01T00:00:00Z');
+      const auditMgmt = createUserManagement({ clock: () => now, audit: { retentionDays: 30 } });
+      await auditMgmt.initialize();
+      const acme = auditMgmt.forTenant('acme');
+      const globex = auditMgmt.forTenant('globex');
+
+      await acme.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      await globex.users.createUser({ username: 'bob', email: 'bob@example.com' });
+      now = new Date('2024-03-01T00:00:00Z');
+
+      expect(await acme.audit.purgeExpired()).toBe(1);
+      expect(await acme.audit.query()).toEqual([]);
+      expect(await globex.audit.query()).toMatchObject([{ action: 'user.create', tenantId: 'globex' }]);
+      expect(await auditMgmt.audit.purgeExpired()).toBe(1);
+
+      await auditMgmt.shutdown();
+    });
+  });
+
+  describe('Operation Context', () => {
+    test('should pass the caller context to hooks, adapters and the audit log', async () => {
+      const adapterContexts: OperationContext[] = [];
+      class ContextAwareAdapter extends MemoryAdapter {
+        async createUser(data: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
+          adapterContexts.push(RequestContext.current());
+          return super.createUser(data);
+        }
+      }
+
+      const contextMgmt = createUserManagement({ adapter: 'context-aware', audit: {} });
+      contextMgmt.registerAdapter('context-aware', ContextAwareAdapter);
+      await contextMgmt.initialize();
+
+      const hookContexts: OperationContext[] = [];
+      contextMgmt.registerHook('user.preCreate', async data => {
+        hookContexts.push(data.context);
+        return data;
+      });
+      contextMgmt.registerHook('userRole.postAssign', async data => {
+        hookContexts.push(data.context);
+      });
+
+      const admin = { actorId: 'admin', requestId: 'req-1', ip: '10.0.0.1' };
+      const support = { actorId: 'support', requestId: 'req-2' };
+      const [alice] = await Promise.all([
+        contextMgmt.withContext(admin, () =>
+          contextMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' })
+        ),
+        contextMgmt.withContext(support, () =>
+          contextMgmt.users.createUser({ username: 'bob', email: 'bob@example.com' })
+        ),
+      ]);
+      expect(hookContexts).toEqual(expect.arrayContaining([admin, support]));
+      expect(adapterContexts).toEqual(expect.arrayContaining([admin, support]));
+      expect(alice).not.toHaveProperty('context');
+
+      const role = await contextMgmt.roles.createRole({ name: 'admin' });
+      await contextMgmt.withContext({ actorId: 'admin' }, () =>
+        contextMgmt.withContext({ requestId: 'req-3' }, () => contextMgmt.assignRole(alice.id, role.id))
+      );
+      expect(hookContexts[2]).toEqual({ actorId: 'admin', requestId: 'req-3' });
+
+      const entries = await contextMgmt.audit.query({ actor: 'support' });
+      expect(entries).toMatchObject([{ action: 'user.create', correlationId: 'req-2' }]);
+      expect(await contextMgmt.audit.query({ action: 'role.create' })).toMatchObject([{ actor: null }]);
+
+      await contextMgmt.shutdown();
+    });
+  });
+
   describe('User-Role Association', () => {
     test('should assign a role to a user', async () => {
       // Create user and role
@@ -132,6 +901,22 @@ describe('User Management Library', () => {
       expect(roleUsers[0].id).toBe(user.id);
     });
 
+    test('should eager-load roles and users', async () => {
+      const typedMgmt = userMgmt as UserManagement;
+      const user = await typedMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+      const role = await typedMgmt.roles.createRole({ name: 'Admin' });
+      await typedMgmt.assignRole(user.id, role.id);
+
+      const { items: users } = await typedMgmt.users.getUsers({ include: ['roles'] });
+      expect(users[0].roles.map(r => r.id)).toEqual([role.id]);
+
+      const userWithRoles = await typedMgmt.users.getUserById(user.id, { include: ['roles'] });
+      expect(userWithRoles!.roles).toHaveLength(1);
+
+      const { items: roles } = await typedMgmt.roles.getRoles({ include: ['users'] });
+      expect(roles[0].users.map(u => u.id)).toEqual([user.id]);
+    });
+
     test('should remove a role from a user', async () => {
       // Create user and role
       const user = await userMgmt.users.createUser({
@@ -158,6 +943,146 @@ describe('User Management Library', () => {
     });
   });
 
+  describe('CSV Import and Export', () => {
+    const roleNames = async (userId: string) =>
+      ((await userMgmt.users.getUserRoles(userId)) as Array<{ name: string }>).map(role => role.name).sort();
+
+    test('should parse and format quoted cells', () => {
+      const text = '\uFEFFname,note\r\n"Smith, Jo","said ""hi""\nand left"\r\n\r\nBo,\n';
+      const rows = [['name', 'note'], ['Smith, Jo', 'said "hi"\nand left'], ['Bo', '']];
+
+      expect(Csv.parse(text)).toEqual(rows);
+      expect(Csv.parse(Csv.format(rows))).toEqual(rows);
+      expect(Csv.format([['a;b', 'c']], ';')).toBe('"a;b";c\r\n');
+      expect(() => Csv.parse('name\n"open')).toThrow('A quoted cell is not closed');
+    });
+
+    test('should import users with mapped columns, tags and roles in one go', async () => {
+      const admin = await userMgmt.roles.createRole({ name: 'Admin' });
+      const csv = [
+        'Login,E-mail,Groups,Dept,tags.level,tags.remote,notes',
+        'alice,alice@example.com,admin; Staff,"R&D, Berlin",2,true,ignored',
+        'bob,bob@example.com,staff,Sales,,false,',
+      ].join('\n');
+
+      const report = await userMgmt.csv.importUsers(csv, {
+        columns: { username: 'Login', email: 'E-mail', roles: 'Groups', tags: { department: 'Dept' } },
+      });
+
+      expect(report).toEqual({ committed: true, created: 2, updated: 0, rolesCreated: ['Staff'], errors: [] });
+      const { items } = await userMgmt.users.getUsers({ sort: { username: 'asc' } });
+      expect(items.map((user: User) => user.tags)).toEqual([
+        { department: 'R&D, Berlin', level: 2, remote: true },
+        { department: 'Sales', remote: false },
+      ]);
+      expect(await roleNames(items[0].id)).toEqual(['Admin', 'Staff']);
+      expect(await roleNames(items[1].id)).toEqual(['Staff']);
+      expect((await userMgmt.roles.getRoleUsers(admin.id)).map((user: User) => user.username)).toEqual(['alice']);
+    });
+
+    test('should report every failing row and import nothing', async () => {
+      await userMgmt.users.createUser({ username: 'carol', email: 'carol@example.com' });
+      const csv = [
+        'username,email,roles',
+        'alice,alice@example.com,editor',
+        'bob,not-an-email,editor',
+        'CAROL,carol2@example.com,',
+      ].join('\n');
+
+      const report = await userMgmt.csv.importUsers(csv);
+
+      expect(report).toMatchObject({ committed: false, created: 1, rolesCreated: ['editor'] });
+      expect(report.errors).toEqual([
+        { row: 3, field: 'email', message: expect.any(String) },
+        { row: 4, field: 'username', message: expect.stringContaining('already exists') },
+      ]);
+      expect((await userMgmt.users.getUsers()).total).toBe(1);
+      expect((await userMgmt.roles.getRoles()).total).toBe(0);
+
+      await expect(userMgmt.csv.importUsers('name,email\nalice,alice@example.com')).rejects.toThrow(
+        'The file has no "username" column'
+      );
+    });
+
+    test('should update users matched on email when upserting', async () => {
+      const typedMgmt = userMgmt as UserManagement;
+      const alice = await typedMgmt.users.createUser({
+        username: 'alice',
+        email: 'alice@example.com',
+        tags: { level: 1, team: 'core' },
+      });
+      await typedMgmt.roles.createRole({ name: 'viewer' });
+
+      const report = await typedMgmt.csv.importUsers(
+        'username;email;roles;tags.level\nalicia;ALICE@example.com;Viewer;3\ndave;dave@example.com;;\n',
+        { delimiter: ';', upsert: 'email', createRoles: false }
+      );
+      expect(report).toEqual({ committed: true, created: 1, updated: 1, rolesCreated: [], errors: [] });
+      expect(await typedMgmt.users.getUserById(alice.id)).toMatchObject({
+        username: 'alicia',
+        email: 'ALICE@example.com',
+        tags: { level: 3, team: 'core' },
+        version: 2,
+      });
+      expect(await roleNames(alice.id)).toEqual(['viewer']);
+
+      const unknown = await typedMgmt.csv.importUsers('username,email,roles\nerin,erin@example.com,auditor', {
+        createRoles: false,
+      });
+      expect(unknown.errors).toEqual([{ row: 2, message: 'Role auditor not found' }]);
+    });
+
+    test('should keep the assignments a re-imported user already holds', async () => {
+      let now = new Date('2024-01-01T00:00:00Z');
+      const clockMgmt = createUserManagement({ clock: () => now });
+      await clockMgmt.initialize();
+      const alice = await clockMgmt.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      const ops = await clockMgmt.roles.createRole({ name: 'ops' });
+      await clockMgmt.assignRole(alice.id, ops.id, { validUntil: new Date('2024-01-01T01:00:00Z') });
+
+      const report = await clockMgmt.csv.importUsers('username,email,roles\nalice,alice@example.com,OPS;staff', {
+        upsert: 'username',
+      });
+      expect(report).toMatchObject({ committed: true, updated: 1, rolesCreated: ['staff'] });
+      expect((await clockMgmt.users.getUserRoles(alice.id)).map(role => role.name).sort()).toEqual(['ops', 'staff']);
+
+      now = new Date('2024-01-01T02:00:00Z');
+      expect((await clockMgmt.users.getUserRoles(alice.id)).map(role => role.name)).toEqual(['staff']);
+
+      await clockMgmt.shutdown();
+    });
+
+    test('should export users with their roles in the layout it imports', async () => {
+      const typedMgmt = userMgmt as UserManagement;
+      const alice = await typedMgmt.users.createUser({
+        username: 'alice',
+        email: 'alice@example.com',
+        tags: { level: 2, department: 'R&D, Berlin' },
+      });
+      await typedMgmt.users.createUser({ username: 'bob', email: 'bob@example.com' });
+      const admin = await typedMgmt.roles.createRole({ name: 'admin' });
+      const staff = await typedMgmt.roles.createRole({ name: 'staff' });
+      await typedMgmt.assignRole(alice.id, admin.id);
+      await typedMgmt.assignRole(alice.id, staff.id);
+
+      const csv = await typedMgmt.csv.exportUsers({ sort: { username: 'asc' } });
+      expect(csv).toBe(
+        'username,email,roles,tags.department,tags.level\r\n' +
+          'alice,alice@example.com,admin;staff,"R&D, Berlin",2\r\n' +
+          'bob,bob@example.com,,,\r\n'
+      );
+      expect(await typedMgmt.csv.exportUsers({ filter: { username: 'bob' }, columns: { email: 'E-mail' } })).toBe(
+        'username,E-mail,roles\r\nbob,bob@example.com,\r\n'
+      );
+
+      const copy = createUserManagement();
+      await copy.initialize();
+      expect(await copy.csv.importUsers(csv)).toMatchObject({ committed: true, created: 2 });
+      expect(await copy.csv.exportUsers({ sort: { username: 'asc' } })).toBe(csv);
+      await copy.shutdown();
+    });
+  });
+
   describe('Transaction Management', () => {
     test('should rollback transaction on error', async () => {
       // Create user and role
@@ -221,5 +1146,666 @@ describe('User Management Library', () => {
       const userRoles = await userMgmt.users.getUserRoles(user.id);
       expect(userRoles).toHaveLength(1);
     });
+
+    test.each(['memory', 'file'])('should hide changes from other callers until commit (%s)', async adapter => {
+      const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+      const isolatedMgmt = createUserManagement({ adapter, dataDir });
+      await isolatedMgmt.initialize();
+
+      try {
+        let created!: () => void;
+        let resume!: () => void;
+        const userCreated = new Promise<void>(resolve => (created = resolve));
+        const resumed = new Promise<void>(resolve => (resume = resolve));
+
+        const pending = isolatedMgmt.transaction(async tx => {
+          const alice = await tx.users.createUser({ username: 'alice', email: 'alice@example.com' });
+          await tx.transaction(async nested => {
+            await nested.users.updateUser(alice.id, { tags: { level: 1 } });
+          });
+          created();
+          await resumed;
+          return alice;
+        });
+
+        await userCreated;
+        expect((await isolatedMgmt.users.getUsers()).total).toBe(0);
+
+        // Another caller's transaction neither waits for nor sees the pending one
+        const other = await isolatedMgmt.beginTransaction();
+        const bob = await other.run(() => isolatedMgmt.users.createUser({ username: 'bob', email: 'bob@example.com' }));
+        await other.commit();
+        expect((await isolatedMgmt.users.getUsers()).items).toEqual([bob]);
+
+        resume();
+        const alice = await pending;
+        expect(await isolatedMgmt.users.getUserById(alice.id)).toMatchObject({ tags: { level: 1 } });
+
+        await expect(
+          isolatedMgmt.transaction(async tx => {
+            await tx.users.deleteUser(alice.id);
+            throw new Error('Test rollback');
+          })
+        ).rejects.toThrow('Test rollback');
+        expect((await isolatedMgmt.users.getUsers()).total).toBe(2);
+      } finally {
+        await isolatedMgmt.shutdown();
+        await fs.rm(dataDir, { recursive: true, force: true });
+      }
+    });
+
+    test.each(['memory', 'file'])('should reject a commit that clashes with one made since (%s)', async adapter => {
+      const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+      const concurrentMgmt = createUserManagement({ adapter, dataDir });
+      await concurrentMgmt.initialize();
+
+      try {
+        const { users } = concurrentMgmt;
+        const alice = await users.createUser({ username: 'alice', email: 'alice@example.com' });
+        const [first, second, third] = await Promise.all([1, 2, 3].map(() => concurrentMgmt.beginTransaction()));
+
+        await first.run(() => users.updateUser(alice.id, { tags: { level: 1 } }));
+        await second.run(() => users.updateUser(alice.id, { tags: { level: 2 } }));
+        await third.run(() => users.createUser({ username: 'bob', email: 'bob@example.com' }));
+        await first.commit();
+        await expect(second.commit()).rejects.toBeInstanceOf(TransactionConflictError);
+        await third.commit();
+        expect(await users.getUserById(alice.id)).toMatchObject({ tags: { level: 1 } });
+        expect((await users.getUsers()).total).toBe(2);
+
+        // Unique values are claimed too
+        const [fourth, fifth] = await Promise.all([1, 2].map(() => concurrentMgmt.beginTransaction()));
+        await fourth.run(() => users.createUser({ username: 'carol', email: 'carol@example.com' }));
+        await fifth.run(() => users.createUser({ username: 'Carol', email: 'carol2@example.com' }));
+        await fourth.commit();
+        await expect(fifth.commit()).rejects.toMatchObject({ code: 'TRANSACTION_CONFLICT' });
+        expect((await users.getUsers()).total).toBe(3);
+      } finally {
+        await concurrentMgmt.shutdown();
+        await fs.rm(dataDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('SQLite Adapter', () => {
+    let sqliteMgmt: UserManagement;
+
+    beforeEach(async () => {
+      sqliteMgmt = createUserManagement({ adapter: 'sqlite', filename: ':memory:' });
+      await sqliteMgmt.initialize();
+    });
+
+    afterEach(async () => {
+      await sqliteMgmt.shutdown();
+    });
+
+    test('should create, update and delete users', async () => {
+      const user = await sqliteMgmt.users.createUser({
+        username: 'testuser',
+        email: 'test@example.com',
+        tags: { active: true }
+      });
+
+      const updatedUser = await sqliteMgmt.users.updateUser(user.id, { username: 'updateduser' });
+      expect(updatedUser!.username).toBe('updateduser');
+
+      const fetchedUser = await sqliteMgmt.users.getUserById(user.id);
+      expect(fetchedUser).toEqual(updatedUser);
+      expect(fetchedUser!.createdAt).toBeInstanceOf(Date);
+
+      expect(await sqliteMgmt.users.deleteUser(user.id)).toBe(true);
+      expect(await sqliteMgmt.users.getUserById(user.id)).toBeNull();
+    });
+
+    test('should filter, sort and paginate roles', async () => {
+      for (let i = 0; i < 5; i++) {
+        await sqliteMgmt.roles.createRole({ name: `Role ${i}` });
+      }
+
+      const page = await sqliteMgmt.roles.getRoles({ sort: { name: 'desc' }, limit: 2, offset: 1 });
+      expect(page.total).toBe(5);
+      expect(page.items.map((role: Role) => role.name)).toEqual(['Role 3', 'Role 2']);
+
+      const filtered = await sqliteMgmt.roles.getRoles({ filter: { name: 'Role 4' } });
+      expect(filtered.items).toHaveLength(1);
+      expect(filtered.items[0].name).toBe('Role 4');
+    });
+
+    test('should remove assignments when a user is deleted', async () => {
+      const user = await sqliteMgmt.users.createUser({ username: 'testuser', email: 'test@example.com' });
+      const role = await sqliteMgmt.roles.createRole({ name: 'Admin' });
+
+      await sqliteMgmt.assignRole(user.id, role.id);
+      await sqliteMgmt.assignRole(user.id, role.id);
+      expect(await sqliteMgmt.roles.getRoleUsers(role.id)).toHaveLength(1);
+
+      await sqliteMgmt.users.deleteUser(user.id);
+      expect(await sqliteMgmt.roles.getRoleUsers(role.id)).toHaveLength(0);
+    });
+
+    test('should rollback transaction', async () => {
+      await sqliteMgmt.beginTransaction();
+      await sqliteMgmt.roles.createRole({ name: 'Admin' });
+      await sqliteMgmt.rollback();
+
+      const result = await sqliteMgmt.roles.getRoles();
+      expect(result.total).toBe(0);
+    });
+
+    test('should refuse a second transaction begun outside run while the first is open', async () => {
+      await sqliteMgmt.beginTransaction();
+      await sqliteMgmt.roles.createRole({ name: 'Admin' });
+      await expect(sqliteMgmt.beginTransaction()).rejects.toThrow('Transaction already in progress');
+
+      // The open transaction is unaffected, and transaction() still nests in it
+      await sqliteMgmt.transaction(tx => tx.roles.createRole({ name: 'Editor' }));
+      await sqliteMgmt.commit();
+      expect((await sqliteMgmt.roles.getRoles()).total).toBe(2);
+
+      const handle = await sqliteMgmt.beginTransaction();
+      await handle.rollback();
+    });
+
+    test('should persist data to a database file', async () => {
+      const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+      const filename = path.join(dataDir, 'data.sqlite');
+
+      try {
+        const first = createUserManagement({ adapter: 'sqlite', filename });
+        await first.initialize();
+        const user = await first.users.createUser({ username: 'testuser', email: 'test@example.com' });
+        await first.shutdown();
+
+        const second = createUserManagement({ adapter: 'sqlite', filename });
+        await second.initialize();
+        const persistedUser = await second.users.getUserById(user.id);
+        await second.shutdown();
+
+        expect(persistedUser).toEqual(user);
+      } finally {
+        await fs.rm(dataDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should run plugin migrations on a database, backing it up first', async () => {
+      const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+      const filename = path.join(dataDir, 'data.sqlite');
+      const plugin: Plugin = {
+        name: 'profiles',
+        version: '1.0.0',
+        initialize: async () => {},
+        shutdown: async () => {},
+        migrations: [
+          {
+            version: 1,
+            description: 'Start every user at tier 1',
+            up: data => {
+              for (const user of data.users as User[]) {
+                user.tags = { ...user.tags, tier: 1 };
+              }
+            },
+          },
+        ],
+      };
+
+      try {
+        // The database predates the plugin
+        const seeded = createUserManagement({ adapter: 'sqlite', filename });
+        await seeded.initialize();
+        const alice = await seeded.users.createUser({ username: 'alice', email: 'alice@example.com' });
+        await seeded.shutdown();
+
+        const migrated = createUserManagement({ adapter: 'sqlite', filename });
+        migrated.registerPlugin(plugin);
+        expect(await migrated.migrate({ dryRun: true })).toMatchObject({ from: {}, to: { profiles: 1 }, dryRun: true });
+        const report = await migrated.migrate();
+        expect(report.applied).toEqual([{ scope: 'profiles', version: 1, description: 'Start every user at tier 1' }]);
+        expect(report.backupPath).toMatch(/data\.sqlite\..+\.bak$/);
+
+        await migrated.initialize();
+        expect(await migrated.users.getUserById(alice.id)).toMatchObject({ tags: { tier: 1 }, version: 1 });
+        await migrated.shutdown();
+
+        const backup = new SqliteAdapter({ filename: report.backupPath });
+        await backup.initialize();
+        expect((await backup.getUserById(alice.id))!.tags).toBeUndefined();
+        await backup.shutdown();
+
+        const reopened = createUserManagement({ adapter: 'sqlite', filename });
+        reopened.registerPlugin(plugin);
+        expect((await reopened.migrate()).applied).toEqual([]);
+      } finally {
+        await fs.rm(dataDir, { recursive: true, force: true });
+      }
+    });
+
+    test('should refuse plugin migrations an adapter cannot run', async () => {
+      class PlainAdapter extends MemoryAdapter {}
+      Object.defineProperty(PlainAdapter.prototype, 'migrate', { value: undefined });
+      const plainMgmt = createUserManagement({ adapter: 'plain' });
+      plainMgmt.registerAdapter('plain', PlainAdapter);
+      plainMgmt.registerPlugin({
+        name: 'profiles',
+        version: '1.0.0',
+        initialize: async () => {},
+        shutdown: async () => {},
+        migrations: [{ version: 1, description: 'Noop', up: () => {} }],
+      });
+
+      await expect(plainMgmt.migrate()).rejects.toMatchObject({ code: 'MIGRATION_FAILED', scope: 'profiles' });
+      await expect(plainMgmt.initialize()).rejects.toThrow('cannot run the migrations of profiles');
+    });
+  });
+
+  describe('FileSystem Adapter', () => {
+    let dataDir: string;
+
+    beforeEach(async () => {
+      dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    test('should let only one adapter hold a data directory', async () => {
+      const first = new FileSystemAdapter({ dataDir });
+      await first.initialize();
+
+      const second = new FileSystemAdapter({ dataDir });
+      await expect(second.initialize()).rejects.toThrow(StorageLockedError);
+      await second.shutdown();
+      expect((await first.getUsers()).total).toBe(0);
+
+      await first.shutdown();
+      await second.initialize();
+      await second.shutdown();
+    });
+
+    test('should take over a lock left by a process that is gone', async () => {
+      const owner = { pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+      await fs.writeFile(path.join(dataDir, 'data.lock'), JSON.stringify(owner));
+
+      const adapter = new FileSystemAdapter({ dataDir });
+      await adapter.initialize();
+      await adapter.shutdown();
+      await expect(fs.access(path.join(dataDir, 'data.lock'))).rejects.toThrow();
+    });
+
+    test('should let only one of several adapters take over the same stale lock', async () => {
+      const owner = { pid: 2 ** 22 + 1, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+      await fs.writeFile(path.join(dataDir, 'data.lock'), JSON.stringify(owner));
+
+      const adapters = [1, 2, 3].map(() => new FileSystemAdapter({ dataDir }));
+      const results = await Promise.allSettled(adapters.map(adapter => adapter.initialize()));
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.filter(result => result.status === 'rejected')).toMatchObject([
+        { reason: { code: 'STORAGE_LOCKED' } },
+        { reason: { code: 'STORAGE_LOCKED' } },
+      ]);
+      await Promise.all(adapters.map(adapter => adapter.shutdown()));
+    });
+
+    test('should respect an unreadable lock and release only its own', async () => {
+      const lockPath = path.join(dataDir, 'data.lock');
+      await fs.writeFile(lockPath, 'not a lock');
+      await expect(new FileSystemAdapter({ dataDir }).initialize()).rejects.toThrow(StorageLockedError);
+      expect(await fs.readFile(lockPath, 'utf-8')).toBe('not a lock');
+
+      // A lock replaced behind the adapter's back is left to its new holder
+      await fs.rm(lockPath);
+      const adapter = new FileSystemAdapter({ dataDir });
+      await adapter.initialize();
+      const other = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date(0).toISOString() };
+      await fs.writeFile(lockPath, JSON.stringify(other));
+      await adapter.shutdown();
+      expect(JSON.parse(await fs.readFile(lockPath, 'utf-8'))).toEqual(other);
+    });
+
+    test('should keep a backup and reject a corrupt data file', async () => {
+      const adapter = new FileSystemAdapter({ dataDir });
+      await adapter.initialize();
+      await adapter.createUser({ username: 'alice', email: 'alice@example.com' });
+      await adapter.createUser({ username: 'bob', email: 'bob@example.com' });
+      await adapter.shutdown();
+
+      const backup = JSON.parse(await fs.readFile(path.join(dataDir, 'data.json.bak'), 'utf-8'));
+      expect(backup.users.map((user: User) => user.username)).toEqual(['alice', 'bob']);
+
+      await fs.writeFile(path.join(dataDir, 'data.json'), '{"users": [');
+      const reopened = new FileSystemAdapter({ dataDir });
+      await expect(reopened.initialize()).rejects.toMatchObject({
+        code: 'CORRUPT_DATA',
+        backupPath: path.join(dataDir, 'data.json.bak'),
+      });
+      await expect(reopened.initialize()).rejects.toThrow(CorruptDataError);
+    });
+
+    test('should append writes to a journal and replay it after a crash', async () => {
+      const adapter = new FileSystemAdapter({ dataDir, journal: true });
+      await adapter.initialize();
+      const snapshot = await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8');
+
+      const user = await adapter.createUser({ username: 'alice', email: 'alice@example.com' });
+      const role = await adapter.createRole({ name: 'admin' });
+      await adapter.assignRole(user.id, role.id);
+      await adapter.beginTransaction();
+      await adapter.updateUser(user.id, { tags: { level: 2 } });
+      await adapter.deleteRole(role.id);
+      await adapter.commit();
+
+      const journal = await fs.readFile(path.join(dataDir, 'data.journal'), 'utf-8');
+      expect(journal.trim().split('\n')).toHaveLength(4);
+      expect(await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8')).toBe(snapshot);
+
+      // Simulate a crash in the middle of the next write
+      await fs.appendFile(path.join(dataDir, 'data.journal'), '[{"collection":"users","key":');
+      await fs.rm(path.join(dataDir, 'data.lock'));
+
+      const recovered = new FileSystemAdapter({ dataDir, journal: true });
+      await recovered.initialize();
+      expect(await recovered.getUserById(user.id)).toMatchObject({ username: 'alice', tags: { level: 2 }, version: 2 });
+      expect(await recovered.getRoleById(role.id)).toBeNull();
+      expect(await recovered.getUserRoles(user.id)).toEqual([]);
+      await recovered.createUser({ username: 'bob', email: 'bob@example.com' });
+      await recovered.shutdown();
+
+      await expect(fs.access(path.join(dataDir, 'data.journal'))).rejects.toThrow();
+      const data = JSON.parse(await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8'));
+      expect(data.users.map((stored: User) => stored.username)).toEqual(['alice', 'bob']);
+    });
+
+    test('should compact the journal once it passes the threshold', async () => {
+      const adapter = new FileSystemAdapter({ dataDir, journal: { compactionThreshold: 200 } });
+      await adapter.initialize();
+      await adapter.createUser({ username: 'alice', email: 'alice@example.com' });
+      await adapter.createUser({ username: 'bob', email: 'bob@example.com' });
+
+      await expect(fs.access(path.join(dataDir, 'data.journal'))).rejects.toThrow();
+      const data = JSON.parse(await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8'));
+      expect(data.users).toHaveLength(2);
+      await adapter.shutdown();
+    });
+
+    test('should migrate a store written before schema versions after backing it up', async () => {
+      const createdAt = '2024-01-01T00:00:00.000Z';
+      const legacy = {
+        users: [{ id: 'u1', username: 'alice', email: 'alice@example.com', createdAt, updatedAt: createdAt }],
+        roles: [],
+        userRoles: [],
+      };
+      await fs.writeFile(path.join(dataDir, 'data.json'), JSON.stringify(legacy));
+
+      const adapter = new FileSystemAdapter({ dataDir });
+      await adapter.initialize();
+      expect(await adapter.getUserById('u1')).toMatchObject({ version: 1 });
+      expect((await adapter.getGroups()).total).toBe(0);
+      await adapter.shutdown();
+
+      const data = JSON.parse(await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8'));
+      expect(data.schemaVersions).toEqual({ core: 1 });
+      const backups = (await fs.readdir(dataDir)).filter(name => /^data\.json\..+\.bak$/.test(name));
+      expect(backups).toHaveLength(1);
+      expect(JSON.parse(await fs.readFile(path.join(dataDir, backups[0]), 'utf-8'))).toEqual(legacy);
+    });
+
+    test('should run plugin migrations once, in order, and report them in a dry run', async () => {
+      const plugin: Plugin = {
+        name: 'profiles',
+        version: '1.0.0',
+        initialize: async () => {},
+        shutdown: async () => {},
+        migrations: [
+          {
+            version: 2,
+            description: 'Rename the level tag to tier',
+            up: data => {
+              for (const user of data.users as User[]) {
+                user.tags = { tier: user.tags!.level };
+              }
+            },
+          },
+          {
+            version: 1,
+            description: 'Start every user at level 1',
+            up: data => {
+              for (const user of data.users as User[]) {
+                user.tags = { ...user.tags, level: 1 };
+              }
+            },
+          },
+        ],
+      };
+
+      // The store predates the plugin
+      const seeded = createUserManagement({ adapter: 'file', dataDir });
+      await seeded.initialize();
+      const alice = await seeded.users.createUser({ username: 'alice', email: 'alice@example.com' });
+      await seeded.shutdown();
+      const stored = await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8');
+
+      const migrated = createUserManagement({ adapter: 'file', dataDir });
+      migrated.registerPlugin(plugin);
+      const report = await migrated.migrate({ dryRun: true });
+      expect(report).toMatchObject({ from: { core: 1 }, to: { core: 1, profiles: 2 }, dryRun: true });
+      expect(report.applied.map(step => step.version)).toEqual([1, 2]);
+      expect(await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8')).toBe(stored);
+
+      await migrated.initialize();
+      expect(await migrated.users.getUserById(alice.id)).toMatchObject({ tags: { tier: 1 } });
+      await expect(migrated.migrate()).rejects.toThrow(MigrationError);
+      await migrated.shutdown();
+
+      const reopened = createUserManagement({ adapter: 'file', dataDir });
+      reopened.registerPlugin(plugin);
+      expect((await reopened.migrate()).applied).toEqual([]);
+    });
+
+    test('should leave the store as it was when a migration fails', async () => {
+      const seeded = new FileSystemAdapter({ dataDir });
+      await seeded.initialize();
+      await seeded.createUser({ username: 'alice', email: 'alice@example.com' });
+      await seeded.shutdown();
+      const stored = await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8');
+
+      const failure = new Error('bad data');
+      const adapter = new FileSystemAdapter({ dataDir });
+      const migrations = {
+        profiles: [
+          {
+            version: 1,
+            description: 'Fails',
+            up: () => {
+              throw failure;
+            },
+          },
+        ],
+      };
+      await expect(adapter.initialize({ migrations })).rejects.toMatchObject({
+        code: 'MIGRATION_FAILED',
+        scope: 'profiles',
+        version: 1,
+        cause: failure,
+      });
+      expect(await fs.readFile(path.join(dataDir, 'data.json'), 'utf-8')).toBe(stored);
+
+      await expect(adapter.initialize({ migrations: { core: [] } })).rejects.toThrow('is reserved');
+
+      // The lock was released, so the store opens once the migration is dropped
+      await adapter.initialize();
+      expect((await adapter.getUsers()).total).toBe(1);
+      await adapter.shutdown();
+    });
+  });
+
+  describe('Data Transfer', () => {
+    const collections: DataCollection[] = [
+      'users',
+      'roles',
+      'userRoles',
+      'groups',
+      'groupMembers',
+      'groupRoles',
+      'permissions',
+      'rolePermissions',
+      'auditEntries',
+    ];
+    let dataDir: string;
+
+    beforeEach(async () => {
+      dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    });
+
+    const seed = async (adapter: StorageAdapter) => {
+      const alice = await adapter.createUser({
+        username: 'alice',
+        email: 'alice@example.com',
+        passwordHash: 'hash',
+        tags: { level: 2, active: true },
+      });
+      const bob = await adapter.createUser({ username: 'bob', email: 'bob@example.com' });
+      const editor = await adapter.createRole({ name: 'editor' });
+      const admin = await adapter.createRole({ name: 'admin', parentIds: [editor.id], tags: { scope: 'all' } });
+      await adapter.assignRole(alice.id, admin.id, { validUntil: new Date('2099-01-01T00:00:00Z') });
+      await adapter.assignRole(bob.id, editor.id);
+      const staff = await adapter.createGroup({ name: 'staff' });
+      await adapter.addGroupMember(staff.id, bob.id);
+      await adapter.assignGroupRole(staff.id, editor.id);
+      const publish = await adapter.createPermission({ action: 'publish', resource: 'posts' });
+      await adapter.grantPermission(editor.id, publish.id);
+      await adapter.createAuditEntry({
+        actor: 'admin',
+        action: 'user.create',
+        target: alice.id,
+        before: null,
+        after: { username: 'alice' },
+        correlationId: 'request-1',
+        timestamp: new Date('2024-01-01T00:00:00Z'),
+      });
+      return { alice, bob, admin, editor };
+    };
+
+    const recordsOf = async (adapter: StorageAdapter) => {
+      const records: Record<string, unknown[]> = {};
+      for (const collection of collections) {
+        records[collection] = (await adapter.readRecords(collection)).items;
+      }
+      return records;
+    };
+
+    test('should migrate a file store to SQLite in batches, keeping ids, timestamps, tags and links', async () => {
+      const source = new FileSystemAdapter({ dataDir });
+      await source.initialize();
+      const { alice, admin, editor } = await seed(source);
+      const target = new SqliteAdapter({ filename: ':memory:' });
+      await target.initialize();
+
+      try {
+        const report = await DataTransfer.migrate(source, target, { batchSize: 1 });
+        expect(report.counts).toEqual({
+          users: 2,
+          roles: 2,
+          userRoles: 2,
+          groups: 1,
+          groupMembers: 1,
+          groupRoles: 1,
+          permissions: 1,
+          rolePermissions: 1,
+          auditEntries: 1,
+        });
+        expect(await recordsOf(target)).toEqual(await recordsOf(source));
+        expect(await target.getUserById(alice.id)).toEqual(await source.getUserById(alice.id));
+        const roles = await target.getUserRoles(alice.id, { effective: true });
+        expect(roles.map(role => role.id).sort()).toEqual([admin.id, editor.id].sort());
+      } finally {
+        await target.shutdown();
+        await source.shutdown();
+      }
+    });
+
+    test('should round-trip a dump through JSON and NDJSON', async () => {
+      const source = new MemoryAdapter();
+      await seed(source);
+      const dump = await DataTransfer.exportData(source);
+      expect(dump).toMatchObject({ format: 'user-management-dump', version: 1, counts: { users: 2, userRoles: 2 } });
+
+      const fromJson = new MemoryAdapter();
+      await DataTransfer.importData(fromJson, JSON.stringify(dump));
+      expect(await recordsOf(fromJson)).toEqual(await recordsOf(source));
+
+      const ndjson = DataTransfer.toNdjson(dump);
+      expect(ndjson.trim().split('\n')).toHaveLength(13);
+      expect(DataTransfer.parse(ndjson)).toEqual(dump);
+
+      const fromNdjson = new FileSystemAdapter({ dataDir });
+      await fromNdjson.initialize();
+      await DataTransfer.importData(fromNdjson, ndjson);
+      await fromNdjson.shutdown();
+
+      const reopened = new FileSystemAdapter({ dataDir });
+      await reopened.initialize();
+      expect(await recordsOf(reopened)).toEqual(await recordsOf(source));
+      await reopened.shutdown();
+    });
+
+    test('should refuse a target that holds data and a dump that is unknown or cut short', async () => {
+      const source = new MemoryAdapter();
+      await seed(source);
+      const dump = await DataTransfer.exportData(source);
+
+      const target = new MemoryAdapter();
+      await target.createUser({ username: 'carol', email: 'carol@example.com' });
+      await expect(DataTransfer.importData(target, dump)).rejects.toMatchObject({
+        code: 'TRANSFER_FAILED',
+        collection: 'users',
+      });
+      await expect(DataTransfer.migrate(source, target)).rejects.toThrow(DataTransferError);
+
+      const truncated = DataTransfer.toNdjson(dump).trim().split('\n').slice(0, -1).join('\n');
+      await expect(DataTransfer.importData(new MemoryAdapter(), truncated)).rejects.toMatchObject({
+        code: 'TRANSFER_FAILED',
+        collection: 'auditEntries',
+      });
+      await expect(DataTransfer.importData(new MemoryAdapter(), { ...dump, version: 2 })).rejects.toThrow(
+        'Dump format version 2 is not supported'
+      );
+      await expect(DataTransfer.importData(new MemoryAdapter(), '{"users": []}')).rejects.toThrow(DataTransferError);
+    });
+
+    test('should report where a failed migration stopped and resume from there', async () => {
+      const source = new MemoryAdapter();
+      await seed(source);
+      await source.createRole({ name: 'viewer' });
+      let failures = 1;
+      class FlakyAdapter extends MemoryAdapter {
+        async writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void> {
+          if (collection === 'roles' && (records[0] as Role).name === 'viewer' && failures-- > 0) {
+            throw new Error('disk full');
+          }
+          return super.writeRecords(collection, records);
+        }
+      }
+      const target = new FlakyAdapter();
+
+      const error = await DataTransfer.migrate(source, target, { batchSize: 2 }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(DataTransferError);
+      expect(error).toMatchObject({ collection: 'roles', offset: 2, cause: new Error('disk full') });
+      expect((await target.readRecords('users')).total).toBe(2);
+      expect((await target.readRecords('roles')).total).toBe(2);
+      await expect(DataTransfer.migrate(source, target)).rejects.toThrow('already holds');
+
+      const { collection, offset } = error as DataTransferError;
+      const resumeFrom = { collection: collection as DataCollection, offset: offset! };
+      const report = await DataTransfer.migrate(source, target, { batchSize: 2, resumeFrom });
+      expect(report.counts).toMatchObject({ users: 2, roles: 3, userRoles: 2 });
+      expect(await recordsOf(target)).toEqual(await recordsOf(source));
+      await expect(
+        DataTransfer.migrate(source, target, { resumeFrom: { collection: 'sessions' as DataCollection, offset: 0 } })
+      ).rejects.toThrow('resumeFrom must name a collection');
+    });
   });
 });
@@ -0,0 +1,44 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MemoryAdapter,
+  FileSystemAdapter,
+  SqliteAdapter,
+  AuditingAdapter,
+  runAdapterConformanceSuite,
+} from '../index';
+
+const tempDirs: string[] = [];
+
+const createTempDir = async (): Promise<string> => {
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'user-management-'));
+  tempDirs.push(dataDir);
+  return dataDir;
+};
+
+const removeTempDirs = async (): Promise<void> => {
+  const dataDirs = tempDirs.splice(0);
+  await Promise.all(dataDirs.map(dataDir => fs.rm(dataDir, { recursive: true, force: true })));
+};
+
+runAdapterConformanceSuite(() => new MemoryAdapter(), { name: 'MemoryAdapter' });
+
+runAdapterConformanceSuite(() => new AuditingAdapter(new MemoryAdapter()), { name: 'AuditingAdapter' });
+
+runAdapterConformanceSuite(async () => new FileSystemAdapter({ dataDir: await createTempDir() }), {
+  name: 'FileSystemAdapter',
+  teardown: removeTempDirs,
+});
+
+runAdapterConformanceSuite(async () => new FileSystemAdapter({ dataDir: await createTempDir(), journal: true }), {
+  name: 'FileSystemAdapter (journal)',
+  teardown: removeTempDirs,
+});
+
+runAdapterConformanceSuite(() => new SqliteAdapter({ filename: ':memory:' }), { name: 'SqliteAdapter' });
+
+runAdapterConformanceSuite(
+  async () => new SqliteAdapter({ filename: path.join(await createTempDir(), 'data.sqlite') }),
+  { name: 'SqliteAdapter (file)', teardown: removeTempDirs }
+);
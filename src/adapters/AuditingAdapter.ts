@@ -0,0 +1,442 @@
+import {
+  StorageAdapter,
+  User,
+  Role,
+  UserRole,
+  AssignRoleOptions,
+  AssignmentQuery,
+  AuditAction,
+  AuditConfig,
+  AuditEntry,
+  AuditQuery,
+  Clock,
+  Group,
+  GroupMember,
+  GroupRole,
+  Permission,
+  RolePermission,
+  QueryOptions,
+  IncludeOptions,
+  HierarchyOptions,
+  TagTarget,
+  TagValue,
+  VersionOptions,
+  TransactionHandle,
+  DataCollection,
+  DataRecords,
+  RecordPage,
+  MigrationOptions,
+  MigrationReport,
+  MigrationSet,
+} from '../types';
+import { AsyncLocalStorage } from 'async_hooks';
+import { IdGenerator } from '../utils/idGenerator';
+import { AuditTrail } from '../utils/audit';
+import { systemClock } from '../utils/assignments';
+import { RequestContext } from '../utils/context';
+import { Migrator } from '../utils/migrations';
+import { Validator } from '../utils/validation';
+import { ValidationFailedError } from '../errors';
+
+// Wraps an adapter so every user, role and assignment mutation also writes an audit entry through it.
+// Entries are written in the same transaction as the change, so a rollback discards them too.
+// Unlike the tenant scope it owns the wrapped adapter, so it initializes and shuts it down.
+export class AuditingAdapter implements StorageAdapter {
+  // One correlation id per outermost transaction, shared by the transactions nested in it. Calls made
+  // in a transaction's run find its id in the scope; the others use that of the transaction they share.
+  private scopedCorrelationId = new AsyncLocalStorage<string>();
+  private sharedTransaction: { handle: TransactionHandle; correlationId: string } | null = null;
+
+  constructor(
+    private adapter: StorageAdapter,
+    private config: AuditConfig = {},
+    private clock: Clock = systemClock
+  ) {}
+
+  async initialize(options?: { migrations?: MigrationSet }): Promise<void> {
+    if (!this.adapter.migrate) {
+      Migrator.unsupported(options?.migrations);
+    }
+    await this.adapter.initialize(options);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.adapter.shutdown();
+  }
+
+  async migrate(migrations: MigrationSet, options?: MigrationOptions): Promise<MigrationReport> {
+    return this.adapter.migrate
+      ? this.adapter.migrate(migrations, options)
+      : Migrator.unsupported(migrations, options?.dryRun);
+  }
+
+  async beginTransaction(): Promise<TransactionHandle> {
+    const handle = await this.adapter.beginTransaction();
+    const scoped = this.scopedCorrelationId.getStore();
+    const correlationId = scoped ?? IdGenerator.generate();
+    if (!scoped && !this.sharedTransaction) {
+      this.sharedTransaction = { handle, correlationId };
+    }
+
+    return {
+      run: fn => this.scopedCorrelationId.run(correlationId, () => handle.run(fn)),
+      commit: async () => {
+        await handle.commit();
+        this.endTransaction(handle);
+      },
+      rollback: async () => {
+        await handle.rollback();
+        this.endTransaction(handle);
+      },
+    };
+  }
+
+  async commit(): Promise<void> {
+    await this.adapter.commit();
+    this.endTransaction();
+  }
+
+  async rollback(): Promise<void> {
+    await this.adapter.rollback();
+    this.endTransaction();
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const correlationId = this.correlationId() ?? IdGenerator.generate();
+    return this.scopedCorrelationId.run(correlationId, () => this.adapter.transaction(fn));
+  }
+
+  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
+    const user = await this.adapter.createUser(userData);
+    await this.record('user.create', user.id, user.tenantId, null, AuditTrail.snapshot(user));
+    return user;
+  }
+
+  async getUserById(id: string, options?: IncludeOptions): Promise<User | null> {
+    return this.adapter.getUserById(id, options);
+  }
+
+  async getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }> {
+    return this.adapter.getUsers(options);
+  }
+
+  async updateUser(id: string, userData: Partial<User>, options?: VersionOptions): Promise<User | null> {
+    const before = await this.adapter.getUserById(id);
+    const user = await this.adapter.updateUser(id, userData, options);
+    if (before && user) {
+      await this.recordChange('user.update', user.id, user.tenantId, before, user);
+    }
+    return user;
+  }
+
+  // The user's role assignments go with it, and are recorded as removed ahead of the user
+  async deleteUser(id: string, options?: VersionOptions): Promise<boolean> {
+    const before = await this.adapter.getUserById(id);
+    const assignments = before ? await this.adapter.getAssignments({ userId: id }) : [];
+    const result = await this.adapter.deleteUser(id, options);
+    if (before && result) {
+      await this.recordRemovals(assignments);
+      await this.record('user.delete', id, before.tenantId, AuditTrail.snapshot(before), null);
+    }
+    return result;
+  }
+
+  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role> {
+    const role = await this.adapter.createRole(roleData);
+    await this.record('role.create', role.id, role.tenantId, null, AuditTrail.snapshot(role));
+    return role;
+  }
+
+  async getRoleById(id: string, options?: IncludeOptions): Promise<Role | null> {
+    return this.adapter.getRoleById(id, options);
+  }
+
+  async getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }> {
+    return this.adapter.getRoles(options);
+  }
+
+  async updateRole(id: string, roleData: Partial<Role>, options?: VersionOptions): Promise<Role | null> {
+    const before = await this.adapter.getRoleById(id);
+    const role = await this.adapter.updateRole(id, roleData, options);
+    if (before && role) {
+      await this.recordChange('role.update', role.id, role.tenantId, before, role);
+    }
+    return role;
+  }
+
+  // Deleting a role also removes its assignments and moves its child roles to its parents
+  async deleteRole(id: string, options?: VersionOptions): Promise<boolean> {
+    const before = await this.adapter.getRoleById(id);
+    const assignments = before ? await this.adapter.getAssignments({ roleId: id }) : [];
+    const children = before
+      ? (await this.adapter.getRoles()).items.filter(role => role.parentIds?.includes(id))
+      : [];
+    const result = await this.adapter.deleteRole(id, options);
+    if (before && result) {
+      await this.recordRemovals(assignments);
+      for (const child of children) {
+        const after = await this.adapter.getRoleById(child.id);
+        if (after) {
+          await this.recordChange('role.update', child.id, child.tenantId, child, after);
+        }
+      }
+      await this.record('role.delete', id, before.tenantId, AuditTrail.snapshot(before), null);
+    }
+    return result;
+  }
+
+  // Assigning a role the user already holds only changes its validity, if anything
+  async assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole> {
+    const [existing] = await this.adapter.getAssignments({ userId, roleId });
+    const userRole = await this.adapter.assignRole(userId, roleId, options);
+    if (existing) {
+      await this.recordChange('userRole.update', userId, userRole.tenantId, existing, userRole);
+    } else {
+      await this.record('userRole.assign', userId, userRole.tenantId, null, AuditTrail.snapshot(userRole));
+    }
+    return userRole;
+  }
+
+  async removeRole(userId: string, roleId: string): Promise<boolean> {
+    const assignments = await this.adapter.getAssignments({ userId, roleId });
+    const result = await this.adapter.removeRole(userId, roleId);
+    if (result) {
+      await this.recordRemovals(assignments);
+    }
+    return result;
+  }
+
+  async purgeExpiredAssignments(): Promise<UserRole[]> {
+    const expired = await this.adapter.purgeExpiredAssignments();
+    for (const userRole of expired) {
+      await this.record('userRole.expire', userRole.userId, userRole.tenantId, AuditTrail.snapshot(userRole), null);
+    }
+    return expired;
+  }
+
+  async getAssignments(query: AssignmentQuery): Promise<UserRole[]> {
+    return this.adapter.getAssignments(query);
+  }
+
+  async getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]> {
+    return this.adapter.getUserRoles(userId, options);
+  }
+
+  async getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]> {
+    return this.adapter.getRoleUsers(roleId, options);
+  }
+
+  async createGroup(groupData: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group> {
+    return this.adapter.createGroup(groupData);
+  }
+
+  async getGroupById(id: string): Promise<Group | null> {
+    return this.adapter.getGroupById(id);
+  }
+
+  async getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }> {
+    return this.adapter.getGroups(options);
+  }
+
+  async updateGroup(id: string, groupData: Partial<Group>): Promise<Group | null> {
+    return this.adapter.updateGroup(id, groupData);
+  }
+
+  async deleteGroup(id: string): Promise<boolean> {
+    return this.adapter.deleteGroup(id);
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<GroupMember> {
+    return this.adapter.addGroupMember(groupId, userId);
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    return this.adapter.removeGroupMember(groupId, userId);
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    return this.adapter.getGroupMembers(groupId);
+  }
+
+  async getUserGroups(userId: string): Promise<Group[]> {
+    return this.adapter.getUserGroups(userId);
+  }
+
+  async assignGroupRole(groupId: string, roleId: string): Promise<GroupRole> {
+    return this.adapter.assignGroupRole(groupId, roleId);
+  }
+
+  async removeGroupRole(groupId: string, roleId: string): Promise<boolean> {
+    return this.adapter.removeGroupRole(groupId, roleId);
+  }
+
+  async getGroupRoles(groupId: string): Promise<Role[]> {
+    return this.adapter.getGroupRoles(groupId);
+  }
+
+  async createPermission(permissionData: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission> {
+    return this.adapter.createPermission(permissionData);
+  }
+
+  async getPermissionById(id: string): Promise<Permission | null> {
+    return this.adapter.getPermissionById(id);
+  }
+
+  async getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }> {
+    return this.adapter.getPermissions(options);
+  }
+
+  async updatePermission(id: string, permissionData: Partial<Permission>): Promise<Permission | null> {
+    return this.adapter.updatePermission(id, permissionData);
+  }
+
+  async deletePermission(id: string): Promise<boolean> {
+    return this.adapter.deletePermission(id);
+  }
+
+  async grantPermission(roleId: string, permissionId: string): Promise<RolePermission> {
+    return this.adapter.grantPermission(roleId, permissionId);
+  }
+
+  async revokePermission(roleId: string, permissionId: string): Promise<boolean> {
+    return this.adapter.revokePermission(roleId, permissionId);
+  }
+
+  async getRolePermissions(roleId: string): Promise<Permission[]> {
+    return this.adapter.getRolePermissions(roleId);
+  }
+
+  async getTagKeys(target?: TagTarget): Promise<string[]> {
+    return this.adapter.getTagKeys(target);
+  }
+
+  async getTagValues(key: string, target?: TagTarget): Promise<TagValue[]> {
+    return this.adapter.getTagValues(key, target);
+  }
+
+  async renameTagKey(from: string, to: string, target?: TagTarget): Promise<number> {
+    const fromError = Validator.validateTagKey(from, 'from');
+    const toError = Validator.validateTagKey(to, 'to');
+    if (fromError || toError) {
+      throw new ValidationFailedError([fromError, toError]);
+    }
+
+    return this.recordTagChanges(from, target, () => this.adapter.renameTagKey(from, to, target));
+  }
+
+  async removeTagKey(key: string, target?: TagTarget): Promise<number> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return this.recordTagChanges(key, target, () => this.adapter.removeTagKey(key, target));
+  }
+
+  async createAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    return this.adapter.createAuditEntry(entry);
+  }
+
+  async getAuditEntries(query?: AuditQuery): Promise<AuditEntry[]> {
+    return this.adapter.getAuditEntries(query);
+  }
+
+  async deleteAuditEntries(before: Date, tenantId?: string): Promise<number> {
+    return this.adapter.deleteAuditEntries(before, tenantId);
+  }
+
+  async readRecords<C extends DataCollection>(
+    collection: C,
+    page?: RecordPage
+  ): Promise<{ items: Array<DataRecords[C]>; total: number }> {
+    return this.adapter.readRecords(collection, page);
+  }
+
+  // Bulk writes restore records as they were, audit entries among them, so they are not recorded again
+  async writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void> {
+    await this.adapter.writeRecords(collection, records);
+  }
+
+  // Without a handle, a transaction ended outside any scope is the shared one
+  private endTransaction(handle?: TransactionHandle): void {
+    const shared = handle ? handle === this.sharedTransaction?.handle : !this.scopedCorrelationId.getStore();
+    if (shared) {
+      this.sharedTransaction = null;
+    }
+  }
+
+  private correlationId(): string | null {
+    return this.scopedCorrelationId.getStore() ?? this.sharedTransaction?.correlationId ?? null;
+  }
+
+  // Tag changes rewrite users and roles in place, so each one carrying the key is recorded as an update
+  private async recordTagChanges(
+    key: string,
+    target: TagTarget | undefined,
+    change: () => Promise<number>
+  ): Promise<number> {
+    const tagged = async () => {
+      const options = { filter: { [`tags.${key}`]: { $exists: true } } };
+      return [
+        ...(target !== 'roles' ? (await this.adapter.getUsers(options)).items : []),
+        ...(target !== 'users' ? (await this.adapter.getRoles(options)).items : []),
+      ];
+    };
+
+    const before = await tagged();
+    const updated = await change();
+    for (const entity of updated > 0 ? before : []) {
+      const isUser = 'username' in entity;
+      const after = isUser ? await this.adapter.getUserById(entity.id) : await this.adapter.getRoleById(entity.id);
+      if (after) {
+        await this.recordChange(isUser ? 'user.update' : 'role.update', entity.id, entity.tenantId, entity, after);
+      }
+    }
+    return updated;
+  }
+
+  private async recordRemovals(assignments: UserRole[]): Promise<void> {
+    for (const userRole of assignments) {
+      await this.record('userRole.remove', userRole.userId, userRole.tenantId, AuditTrail.snapshot(userRole), null);
+    }
+  }
+
+  // Updates that leave every field as it was are not recorded
+  private async recordChange(
+    action: AuditAction,
+    target: string,
+    tenantId: string | undefined,
+    before: object,
+    after: object
+  ): Promise<void> {
+    const diff = AuditTrail.diff(before, after);
+    if (diff) {
+      await this.record(action, target, tenantId, diff.before, diff.after);
+    }
+  }
+
+  private async record(
+    action: AuditAction,
+    target: string,
+    tenantId: string | undefined,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ): Promise<void> {
+    const context = RequestContext.current();
+    const entry: Omit<AuditEntry, 'id'> = {
+      actor: (this.config.actor ? this.config.actor() : context.actorId) ?? null,
+      action,
+      target,
+      before,
+      after,
+      correlationId: context.requestId ?? this.correlationId() ?? IdGenerator.generate(),
+      timestamp: this.clock(),
+    };
+
+    if (tenantId !== undefined) {
+      entry.tenantId = tenantId;
+    }
+
+    await this.adapter.createAuditEntry(entry);
+  }
+}
@@ -1,104 +1,556 @@
-import { StorageAdapter, User, Role, UserRole, QueryOptions } from '../types';
+import {
+  StorageAdapter,
+  User,
+  Role,
+  UserRole,
+  AssignRoleOptions,
+  AssignmentQuery,
+  AuditEntry,
+  AuditQuery,
+  Clock,
+  Group,
+  GroupMember,
+  GroupRole,
+  Permission,
+  RolePermission,
+  QueryOptions,
+  IncludeOptions,
+  HierarchyOptions,
+  Tag,
+  TagTarget,
+  TagValue,
+  TransactionHandle,
+  DataCollection,
+  DataRecords,
+  RecordPage,
+  Migration,
+  MigrationOptions,
+  MigrationReport,
+  MigrationSet,
+  UniqueFieldsConfig,
+  VersionOptions,
+} from '../types';
 import { IdGenerator } from '../utils/idGenerator';
 import { Validator } from '../utils/validation';
+import { Cloner } from '../utils/clone';
+import { TagUtils } from '../utils/tags';
+import { Relations, USER_RELATIONS, ROLE_RELATIONS } from '../utils/relations';
+import { FilterMatcher } from '../utils/queryFilter';
+import { RoleHierarchy } from '../utils/roleHierarchy';
+import { Assignments, systemClock } from '../utils/assignments';
+import { Tenancy } from '../utils/tenancy';
+import { UniqueConstraints } from '../utils/uniqueness';
+import { AuditTrail } from '../utils/audit';
+import { Versioning } from '../utils/versioning';
+import { AtomicFile, FileLock, LockOwner } from '../utils/files';
+import { Migrator, CORE_SCOPE } from '../utils/migrations';
+import { Records, RECORD_KEYS, DATA_COLLECTIONS } from '../utils/records';
+import { Transactions, TransactionScope, DataTransaction } from '../utils/transactions';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { ValidationFailedError, NotFoundError, CorruptDataError, MigrationError } from '../errors';
 
 interface FileSystemData {
   users: User[];
   roles: Role[];
   userRoles: UserRole[];
+  groups: Group[];
+  groupMembers: GroupMember[];
+  groupRoles: GroupRole[];
+  permissions: Permission[];
+  rolePermissions: RolePermission[];
+  auditEntries: AuditEntry[];
 }
 
+type Collection = keyof FileSystemData;
+
+type StoredEntity = FileSystemData[Collection][number];
+
+// One line of the journal: every change of one write or transaction; a null value removes the entity
+type JournalLine = Array<{ collection: Collection; key: string; value: StoredEntity | null }>;
+
+export interface JournalOptions {
+  // Journal size in bytes after which it is folded into data.json
+  compactionThreshold?: number;
+}
+
+const DEFAULT_COMPACTION_THRESHOLD = 1024 * 1024;
+
+// data.json as read, with the journal replayed; fresh when there was no data.json yet
+interface StoredDocument {
+  document: Record<string, unknown>;
+  fresh: boolean;
+  size: number;
+  truncated: boolean;
+}
+
+// Stores written before schema versions existed are at version 0
+const CORE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Add the group, permission and audit collections and start users and roles at version 1',
+    up: data => {
+      for (const collection of DATA_COLLECTIONS) {
+        data[collection] = data[collection] ?? [];
+      }
+      for (const entity of [data.users, data.roles].flat() as Array<{ version?: number }>) {
+        entity.version = entity.version ?? 1;
+      }
+    },
+  },
+];
+
 export class FileSystemAdapter implements StorageAdapter {
   private dataDir: string;
   private dataPath: string;
-  private data: FileSystemData;
-  private inTransaction = false;
-  private transactionData: FileSystemData | null = null;
-
-  constructor(options?: { dataDir?: string }) {
+  private committed: FileSystemData;
+  // The version of each migration scope the data is at
+  private schemaVersions: Record<string, number> = {};
+  private clock: Clock;
+  private uniqueFields?: UniqueFieldsConfig;
+  private transactions: TransactionScope<FileSystemData>;
+  private journal: Required<JournalOptions> | null;
+  private journalSize = 0;
+  // The entities as last written to disk, compared by identity to find what a write changed
+  private written = new Map<Collection, Set<StoredEntity>>();
+  // What this adapter wrote to the lock it holds, null while it holds none
+  private lock: LockOwner | null = null;
+  // Writes to disk one at a time, each after the one before it finished
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options?: {
+    dataDir?: string;
+    clock?: Clock;
+    uniqueFields?: UniqueFieldsConfig;
+    journal?: boolean | JournalOptions;
+  }) {
     this.dataDir = options?.dataDir || path.join(process.cwd(), '.user-management-data');
+    this.clock = options?.clock || systemClock;
+    this.uniqueFields = options?.uniqueFields;
     this.dataPath = path.join(this.dataDir, 'data.json');
-    this.data = {
-      users: [],
-      roles: [],
-      userRoles: [],
-    };
+    this.journal = options?.journal
+      ? { compactionThreshold: DEFAULT_COMPACTION_THRESHOLD, ...(options.journal === true ? {} : options.journal) }
+      : null;
+    this.committed = this.emptyData();
+    this.transactions = new TransactionScope<FileSystemData>(
+      {
+        // Entities are replaced rather than mutated, so copying the arrays is enough
+        copy: data => ({
+          users: [...data.users],
+          roles: [...data.roles],
+          userRoles: [...data.userRoles],
+          groups: [...data.groups],
+          groupMembers: [...data.groupMembers],
+          groupRoles: [...data.groupRoles],
+          permissions: [...data.permissions],
+          rolePermissions: [...data.rolePermissions],
+          auditEntries: [...data.auditEntries],
+        }),
+        toCollections: data =>
+          Object.fromEntries(
+            DATA_COLLECTIONS.map(collection => [collection, this.keyed(collection, data[collection])])
+          ),
+        fromCollections: collections =>
+          Object.fromEntries(
+            DATA_COLLECTIONS.map(collection => [collection, Array.from(collections[collection].values())])
+          ) as unknown as FileSystemData,
+      },
+      this.uniqueFields
+    );
+  }
+
+  // The caller's transaction copy, or the committed data outside a transaction
+  private get data(): FileSystemData {
+    return this.transactions.data(this.committed);
+  }
+
+  private set data(data: FileSystemData) {
+    this.committed = data;
+  }
+
+  // Writes inside a transaction reach the disk on commit
+  private get inTransaction(): boolean {
+    return this.transactions.inTransaction;
   }
 
-  async initialize(options?: { dataDir?: string }): Promise<void> {
+  // Pending migrations, the adapter's own and those passed in, run before the data is used
+  async initialize(options?: { dataDir?: string; migrations?: MigrationSet }): Promise<void> {
     if (options?.dataDir) {
       this.dataDir = options.dataDir;
       this.dataPath = path.join(this.dataDir, 'data.json');
     }
 
+    await fs.mkdir(this.dataDir, { recursive: true });
+    if (!this.lock) {
+      this.lock = await FileLock.acquire(this.lockPath);
+    }
+
     try {
-      await fs.mkdir(this.dataDir, { recursive: true });
-      const dataStr = await fs.readFile(this.dataPath, 'utf-8');
-      this.data = JSON.parse(dataStr);
-      
-      // Convert string dates back to Date objects
-      this.data.users.forEach(user => {
-        user.createdAt = new Date(user.createdAt);
-        user.updatedAt = new Date(user.updatedAt);
-      });
-      
-      this.data.roles.forEach(role => {
-        role.createdAt = new Date(role.createdAt);
-        role.updatedAt = new Date(role.updatedAt);
-      });
-      
-      this.data.userRoles.forEach(userRole => {
-        userRole.createdAt = new Date(userRole.createdAt);
-      });
+      await this.loadData(options?.migrations);
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        // File doesn't exist, initialize with empty data
-        await this.saveData();
-      } else {
+      await this.releaseLock();
+      throw error;
+    }
+  }
+
+  // Runs pending migrations ahead of initialize, or with dryRun only reports them
+  async migrate(migrations: MigrationSet = {}, options?: MigrationOptions): Promise<MigrationReport> {
+    if (this.lock) {
+      throw new MigrationError('The store is open; migrate before initialize');
+    }
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+    const lock = await FileLock.acquire(this.lockPath);
+    try {
+      const store = await this.readStore(migrations);
+      return store.fresh ? Migrator.nothingToDo(options?.dryRun) : await this.runMigrations(store, migrations, options);
+    } finally {
+      await FileLock.release(this.lockPath, lock);
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    // Another process owns the directory if the lock was never acquired
+    if (!this.lock) {
+      return;
+    }
+
+    // Ensure all data is saved before shutdown; a journal is folded into data.json
+    await this.saving;
+    await this.compact();
+    await this.releaseLock();
+  }
+
+  private get lockPath(): string {
+    return path.join(this.dataDir, 'data.lock');
+  }
+
+  private get backupPath(): string {
+    return `${this.dataPath}.bak`;
+  }
+
+  private get journalPath(): string {
+    return path.join(this.dataDir, 'data.journal');
+  }
+
+  private async releaseLock(): Promise<void> {
+    const lock = this.lock;
+    this.lock = null;
+    if (lock) {
+      await FileLock.release(this.lockPath, lock);
+    }
+  }
+
+  private async loadData(migrations: MigrationSet = {}): Promise<void> {
+    const store = await this.readStore(migrations);
+    const report = await this.runMigrations(store, migrations);
+
+    this.schemaVersions = report.to;
+    this.committed = Object.fromEntries(
+      DATA_COLLECTIONS.map(collection => [collection, store.document[collection]])
+    ) as unknown as FileSystemData;
+    this.reviveData();
+    this.markWritten();
+
+    // Migrating folds the journal into data.json
+    this.journalSize = report.applied.length > 0 ? 0 : store.size;
+    if (store.fresh || store.truncated || (this.journalSize > 0 && !this.journal)) {
+      await this.compact();
+    }
+  }
+
+  // data.json with the journal replayed onto it. A store that does not exist yet starts out empty at the
+  // latest versions, since there is nothing to migrate.
+  private async readStore(migrations: MigrationSet): Promise<StoredDocument> {
+    let dataStr: string | null = null;
+    try {
+      dataStr = await fs.readFile(this.dataPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
         throw error;
       }
     }
+
+    const document =
+      dataStr === null
+        ? { schemaVersions: Migrator.latest(this.withCoreMigrations(migrations)), ...this.emptyData() }
+        : this.parseData(dataStr);
+
+    // A journal is replayed even when journal mode is off, so switching modes loses nothing
+    const { size, truncated } = await this.replayJournal(document);
+    return { document, fresh: dataStr === null, size, truncated };
+  }
+
+  // The store is copied as it was, journal included, before the migrated data replaces it
+  private async runMigrations(
+    store: StoredDocument,
+    migrations: MigrationSet,
+    options?: MigrationOptions
+  ): Promise<MigrationReport> {
+    const original = JSON.stringify(store.document, null, 2);
+    const report = await Migrator.run(store.document, this.withCoreMigrations(migrations), options?.dryRun);
+    if (report.applied.length === 0 || report.dryRun) {
+      return report;
+    }
+
+    const backupPath = `${this.dataPath}.${this.clock().toISOString().replace(/[:.]/g, '-')}.bak`;
+    await AtomicFile.write(backupPath, original);
+    await AtomicFile.write(this.dataPath, JSON.stringify(store.document, null, 2));
+    await fs.rm(this.journalPath, { force: true });
+    return { ...report, backupPath };
   }
 
-  async shutdown(): Promise<void> {
-    // Ensure all data is saved before shutdown
-    await this.saveData();
+  // The adapter's own migrations run first, so the others find the current shape
+  private withCoreMigrations(migrations: MigrationSet): MigrationSet {
+    if (CORE_SCOPE in migrations) {
+      throw new MigrationError(`Migration scope "${CORE_SCOPE}" is reserved for the adapter's own`, CORE_SCOPE);
+    }
+
+    return { [CORE_SCOPE]: CORE_MIGRATIONS, ...migrations };
+  }
+
+  private parseData(dataStr: string): Record<string, unknown> {
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(dataStr);
+    } catch (error) {
+      throw new CorruptDataError(this.dataPath, error, this.backupPath);
+    }
+
+    if (!data || !Array.isArray(data.users) || !Array.isArray(data.roles) || !Array.isArray(data.userRoles)) {
+      throw new CorruptDataError(this.dataPath, 'users, roles or userRoles are missing', this.backupPath);
+    }
+
+    return data;
+  }
+
+  private async replayJournal(document: Record<string, unknown>): Promise<{ size: number; truncated: boolean }> {
+    let journal: string;
+    try {
+      journal = await fs.readFile(this.journalPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { size: 0, truncated: false };
+      }
+      throw error;
+    }
+
+    const lines = journal.split('\n');
+    const collections = new Map(
+      DATA_COLLECTIONS.map(collection => {
+        const entities = (document[collection] as StoredEntity[] | undefined) ?? [];
+        return [collection, this.keyed(collection, entities)];
+      })
+    );
+    let truncated = false;
+
+    lines.forEach((line, index) => {
+      if (!line) {
+        return;
+      }
+
+      let changes: JournalLine;
+      try {
+        changes = JSON.parse(line);
+      } catch (error) {
+        // A crash can cut the last line short; that write never completed, so it is dropped
+        if (index === lines.length - 1) {
+          truncated = true;
+          return;
+        }
+        throw new CorruptDataError(this.journalPath, error);
+      }
+
+      for (const { collection, key, value } of changes) {
+        const entities = collections.get(collection)!;
+        if (value === null) {
+          entities.delete(key);
+        } else {
+          entities.set(key, value);
+        }
+      }
+    });
+
+    for (const [collection, entities] of collections) {
+      document[collection] = Array.from(entities.values());
+    }
+    return { size: Buffer.byteLength(journal), truncated };
+  }
+
+  private reviveData(): void {
+    // Convert string dates back to Date objects
+    this.data.users.forEach(user => {
+      user.createdAt = new Date(user.createdAt);
+      user.updatedAt = new Date(user.updatedAt);
+    });
+    
+    this.data.roles.forEach(role => {
+      role.createdAt = new Date(role.createdAt);
+      role.updatedAt = new Date(role.updatedAt);
+    });
+    
+    this.data.userRoles.forEach(userRole => {
+      userRole.createdAt = new Date(userRole.createdAt);
+      if (userRole.validFrom) userRole.validFrom = new Date(userRole.validFrom);
+      if (userRole.validUntil) userRole.validUntil = new Date(userRole.validUntil);
+    });
+
+    this.data.groups.forEach(group => {
+      group.createdAt = new Date(group.createdAt);
+      group.updatedAt = new Date(group.updatedAt);
+    });
+
+    this.data.groupMembers.forEach(groupMember => {
+      groupMember.createdAt = new Date(groupMember.createdAt);
+    });
+
+    this.data.groupRoles.forEach(groupRole => {
+      groupRole.createdAt = new Date(groupRole.createdAt);
+    });
+
+    this.data.permissions.forEach(permission => {
+      permission.createdAt = new Date(permission.createdAt);
+      permission.updatedAt = new Date(permission.updatedAt);
+    });
+
+    this.data.rolePermissions.forEach(rolePermission => {
+      rolePermission.createdAt = new Date(rolePermission.createdAt);
+    });
+
+    this.data.auditEntries.forEach(entry => {
+      entry.timestamp = new Date(entry.timestamp);
+    });
   }
 
-  private async saveData(): Promise<void> {
-    const dataStr = JSON.stringify(this.data, null, 2);
-    await fs.writeFile(this.dataPath, dataStr, 'utf-8');
+  // Always writes the committed data, whichever transaction the caller is in
+  private saveData(): Promise<void> {
+    const save = this.saving.then(() => this.writeData());
+    this.saving = save.catch(() => undefined);
+    return save;
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.inTransaction) {
-      throw new Error('Transaction already in progress');
+  private async writeData(): Promise<void> {
+    if (!this.journal) {
+      await AtomicFile.write(this.dataPath, this.serialize(), this.backupPath);
+      return;
+    }
+
+    // Only the changed entities are written, so the cost of a write does not grow with the data
+    const changes = this.collectChanges();
+    if (changes.length === 0) {
+      return;
     }
 
-    this.inTransaction = true;
-    this.transactionData = JSON.parse(JSON.stringify(this.data));
+    // Taken before appending, so what changes meanwhile is left to the next write
+    const written = this.entitySets();
+    const line = `${JSON.stringify(changes)}\n`;
+    await AtomicFile.append(this.journalPath, line);
+    this.written = written;
+
+    this.journalSize += Buffer.byteLength(line);
+    if (this.journalSize >= this.journal.compactionThreshold) {
+      await this.compact();
+    }
   }
 
-  async commit(): Promise<void> {
-    if (!this.inTransaction) {
-      throw new Error('No transaction in progress');
+  // Replaying the journal is idempotent, so a crash between the two steps loses nothing
+  private async compact(): Promise<void> {
+    await AtomicFile.write(this.dataPath, this.serialize(), this.backupPath);
+    await fs.rm(this.journalPath, { force: true });
+    this.journalSize = 0;
+  }
+
+  // Entities are replaced rather than mutated, so a new object is a created or updated entity
+  // and a missing one a deleted entity, unless another object with the same key took its place
+  private collectChanges(): JournalLine {
+    const changes: JournalLine = [];
+
+    for (const collection of DATA_COLLECTIONS) {
+      const keyOf = RECORD_KEYS[collection] as (entity: StoredEntity) => string;
+      const written = this.written.get(collection)!;
+      const current = new Set<StoredEntity>(this.committed[collection]);
+      const updated = new Set<string>();
+
+      for (const entity of current) {
+        if (!written.has(entity)) {
+          const key = keyOf(entity);
+          updated.add(key);
+          changes.push({ collection, key, value: entity });
+        }
+      }
+
+      for (const entity of written) {
+        const key = current.has(entity) ? null : keyOf(entity);
+        if (key !== null && !updated.has(key)) {
+          changes.push({ collection, key, value: null });
+        }
+      }
     }
 
-    await this.saveData();
-    this.inTransaction = false;
-    this.transactionData = null;
+    return changes;
   }
 
-  async rollback(): Promise<void> {
-    if (!this.inTransaction || !this.transactionData) {
-      throw new Error('No transaction in progress');
+  private serialize(): string {
+    return JSON.stringify({ schemaVersions: this.schemaVersions, ...this.committed }, null, 2);
+  }
+
+  private markWritten(): void {
+    if (!this.journal) {
+      return;
     }
 
-    this.data = this.transactionData;
-    this.inTransaction = false;
-    this.transactionData = null;
+    this.written = this.entitySets();
+  }
+
+  private entitySets(): Map<Collection, Set<StoredEntity>> {
+    return new Map(DATA_COLLECTIONS.map(collection => [collection, new Set<StoredEntity>(this.committed[collection])]));
+  }
+
+  private keyed(collection: Collection, entities: StoredEntity[]): Map<string, StoredEntity> {
+    const keyOf = RECORD_KEYS[collection] as (entity: StoredEntity) => string;
+    return new Map(entities.map(entity => [keyOf(entity), entity]));
+  }
+
+  private emptyData(): FileSystemData {
+    return {
+      users: [],
+      roles: [],
+      userRoles: [],
+      groups: [],
+      groupMembers: [],
+      groupRoles: [],
+      permissions: [],
+      rolePermissions: [],
+      auditEntries: [],
+    };
+  }
+
+  async beginTransaction(): Promise<TransactionHandle> {
+    const transaction = this.transactions.begin(this.committed);
+    return this.transactions.handle(transaction, {
+      commit: () => this.commitTransaction(transaction),
+      rollback: async () => this.transactions.rollback(transaction),
+    });
+  }
+
+  async commit(): Promise<void> {
+    await this.commitTransaction(this.transactions.current());
+  }
+
+  async rollback(): Promise<void> {
+    this.transactions.rollback(this.transactions.current());
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.transactions.run(() => Transactions.run(this, fn));
+  }
+
+  private async commitTransaction(transaction: DataTransaction<FileSystemData>): Promise<void> {
+    const data = this.transactions.commit(transaction, this.committed);
+    if (data) {
+      this.committed = data;
+      await this.saveData();
+    }
   }
 
   private _getUsers(): User[] {
@@ -113,10 +565,45 @@ export class FileSystemAdapter implements StorageAdapter {
     return this.data.userRoles;
   }
 
-  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
+  private _getGroups(): Group[] {
+    return this.data.groups;
+  }
+
+  private _getGroupMembers(): GroupMember[] {
+    return this.data.groupMembers;
+  }
+
+  private _getGroupRoles(): GroupRole[] {
+    return this.data.groupRoles;
+  }
+
+  private _getPermissions(): Permission[] {
+    return this.data.permissions;
+  }
+
+  private _getRolePermissions(): RolePermission[] {
+    return this.data.rolePermissions;
+  }
+
+  private _getAuditEntries(): AuditEntry[] {
+    return this.data.auditEntries;
+  }
+
+  async createUser(data: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
+    const userData = UniqueConstraints.normalizeUser(data);
     const validationErrors = Validator.validateUser(userData);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'user',
+      userData,
+      UniqueConstraints.userFields(this.uniqueFields),
+      this.data.users
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     const id = IdGenerator.generate();
@@ -124,72 +611,64 @@ export class FileSystemAdapter implements StorageAdapter {
     const user: User = {
       ...userData,
       id,
+      version: 1,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.data.users.push(user);
+    this.data.users.push(Cloner.deepClone(user));
     if (!this.inTransaction) {
       await this.saveData();
     }
     return user;
   }
 
-  async getUserById(id: string): Promise<User | null> {
-    const validationError = Validator.validateId(id);
+  async getUserById(id: string, options?: IncludeOptions): Promise<User | null> {
+    const validationError = Validator.validateId(id) || Validator.validateInclude(options?.include, USER_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    return this._getUsers().find(user => user.id === id) || null;
+    const user = this._getUsers().find(user => user.id === id);
+    return user ? Cloner.deepClone(this.includeUserRelations([user], options)[0]) : null;
   }
 
   async getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }> {
-    const validationError = Validator.validateQueryOptions(options);
+    const validationError =
+      Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, USER_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     let users = [...this._getUsers()];
-    const total = users.length;
 
     // Apply filter
     if (options?.filter) {
-      users = users.filter(user => {
-        return Object.entries(options.filter!).every(([key, value]) => {
-          return user[key as keyof User] === value;
-        });
-      });
+      users = users.filter(user => FilterMatcher.matches(user, options.filter!));
     }
 
     // Apply sort
     if (options?.sort) {
-      users.sort((a, b) => {
-        for (const [key, order] of Object.entries(options.sort!)) {
-          const aValue = a[key as keyof User];
-          const bValue = b[key as keyof User];
-          if (aValue !== undefined && bValue !== undefined) {
-            if (aValue < bValue) return order === 'asc' ? -1 : 1;
-            if (aValue > bValue) return order === 'asc' ? 1 : -1;
-          }
-        }
-        return 0;
-      });
+      FilterMatcher.sort(users, options.sort);
     }
 
+    const total = users.length;
+
     // Apply pagination
     if (options?.limit) {
       const offset = options.offset || 0;
       users = users.slice(offset, offset + options.limit);
     }
 
-    return { items: users, total };
+    const items = this.includeUserRelations(users, options).map(user => Cloner.deepClone(user));
+    return { items, total };
   }
 
-  async updateUser(id: string, userData: Partial<User>): Promise<User | null> {
-    const validationError = Validator.validateId(id);
+  async updateUser(id: string, data: Partial<User>, options?: VersionOptions): Promise<User | null> {
+    const userData = UniqueConstraints.normalizeUser(data);
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const userIndex = this.data.users.findIndex(user => user.id === id);
@@ -197,28 +676,51 @@ export class FileSystemAdapter implements StorageAdapter {
       return null;
     }
 
+    const versionConflict = Versioning.findConflict('user', this.data.users[userIndex], options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
     const updatedUser = {
       ...this.data.users[userIndex],
-      ...userData,
+      ...Cloner.deepClone(userData),
+      id,
+      version: this.data.users[userIndex].version + 1,
       updatedAt: new Date(),
     };
 
     const validationErrors = Validator.validateUser(updatedUser);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(this.data.users[userIndex], userData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'user',
+      updatedUser,
+      UniqueConstraints.userFields(this.uniqueFields),
+      this.data.users,
+      id
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     this.data.users[userIndex] = updatedUser;
     if (!this.inTransaction) {
       await this.saveData();
     }
-    return updatedUser;
+    return Cloner.deepClone(updatedUser);
   }
 
-  async deleteUser(id: string): Promise<boolean> {
-    const validationError = Validator.validateId(id);
+  async deleteUser(id: string, options?: VersionOptions): Promise<boolean> {
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const userIndex = this.data.users.findIndex(user => user.id === id);
@@ -226,8 +728,14 @@ export class FileSystemAdapter implements StorageAdapter {
       return false;
     }
 
-    // Remove user roles first
+    const versionConflict = Versioning.findConflict('user', this.data.users[userIndex], options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    // Remove user roles and group memberships first
     this.data.userRoles = this.data.userRoles.filter(userRole => userRole.userId !== id);
+    this.data.groupMembers = this.data.groupMembers.filter(groupMember => groupMember.userId !== id);
     
     this.data.users.splice(userIndex, 1);
     if (!this.inTransaction) {
@@ -236,10 +744,27 @@ export class FileSystemAdapter implements StorageAdapter {
     return true;
   }
 
-  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt'>): Promise<Role> {
+  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role> {
     const validationErrors = Validator.validateRole(roleData);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const hierarchyError =
+      RoleHierarchy.validateParents(null, roleData.parentIds, id => this.getParentIds(id)) ||
+      Tenancy.validateParents(roleData, this.getParentRoles(roleData.parentIds));
+    if (hierarchyError) {
+      throw new ValidationFailedError([hierarchyError]);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'role',
+      roleData,
+      UniqueConstraints.roleFields(this.uniqueFields),
+      this.data.roles
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     const id = IdGenerator.generate();
@@ -247,72 +772,63 @@ export class FileSystemAdapter implements StorageAdapter {
     const role: Role = {
       ...roleData,
       id,
+      version: 1,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.data.roles.push(role);
+    this.data.roles.push(Cloner.deepClone(role));
     if (!this.inTransaction) {
       await this.saveData();
     }
     return role;
   }
 
-  async getRoleById(id: string): Promise<Role | null> {
-    const validationError = Validator.validateId(id);
+  async getRoleById(id: string, options?: IncludeOptions): Promise<Role | null> {
+    const validationError = Validator.validateId(id) || Validator.validateInclude(options?.include, ROLE_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    return this._getRoles().find(role => role.id === id) || null;
+    const role = this._getRoles().find(role => role.id === id);
+    return role ? Cloner.deepClone(this.includeRoleRelations([role], options)[0]) : null;
   }
 
   async getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }> {
-    const validationError = Validator.validateQueryOptions(options);
+    const validationError =
+      Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, ROLE_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     let roles = [...this._getRoles()];
-    const total = roles.length;
 
     // Apply filter
     if (options?.filter) {
-      roles = roles.filter(role => {
-        return Object.entries(options.filter!).every(([key, value]) => {
-          return role[key as keyof Role] === value;
-        });
-      });
+      roles = roles.filter(role => FilterMatcher.matches(role, options.filter!));
     }
 
     // Apply sort
     if (options?.sort) {
-      roles.sort((a, b) => {
-        for (const [key, order] of Object.entries(options.sort!)) {
-          const aValue = a[key as keyof Role];
-          const bValue = b[key as keyof Role];
-          if (aValue !== undefined && bValue !== undefined) {
-            if (aValue < bValue) return order === 'asc' ? -1 : 1;
-            if (aValue > bValue) return order === 'asc' ? 1 : -1;
-          }
-        }
-        return 0;
-      });
+      FilterMatcher.sort(roles, options.sort);
     }
 
+    const total = roles.length;
+
     // Apply pagination
     if (options?.limit) {
       const offset = options.offset || 0;
       roles = roles.slice(offset, offset + options.limit);
     }
 
-    return { items: roles, total };
+    const items = this.includeRoleRelations(roles, options).map(role => Cloner.deepClone(role));
+    return { items, total };
   }
 
-  async updateRole(id: string, roleData: Partial<Role>): Promise<Role | null> {
-    const validationError = Validator.validateId(id);
+  async updateRole(id: string, roleData: Partial<Role>, options?: VersionOptions): Promise<Role | null> {
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const roleIndex = this.data.roles.findIndex(role => role.id === id);
@@ -320,28 +836,58 @@ export class FileSystemAdapter implements StorageAdapter {
       return null;
     }
 
+    const versionConflict = Versioning.findConflict('role', this.data.roles[roleIndex], options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
     const updatedRole = {
       ...this.data.roles[roleIndex],
-      ...roleData,
+      ...Cloner.deepClone(roleData),
+      id,
+      version: this.data.roles[roleIndex].version + 1,
       updatedAt: new Date(),
     };
 
     const validationErrors = Validator.validateRole(updatedRole);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(this.data.roles[roleIndex], roleData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const hierarchyError =
+      RoleHierarchy.validateParents(id, updatedRole.parentIds, parentId => this.getParentIds(parentId)) ||
+      Tenancy.validateParents(updatedRole, this.getParentRoles(updatedRole.parentIds));
+    if (hierarchyError) {
+      throw new ValidationFailedError([hierarchyError]);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'role',
+      updatedRole,
+      UniqueConstraints.roleFields(this.uniqueFields),
+      this.data.roles,
+      id
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     this.data.roles[roleIndex] = updatedRole;
     if (!this.inTransaction) {
       await this.saveData();
     }
-    return updatedRole;
+    return Cloner.deepClone(updatedRole);
   }
 
-  async deleteRole(id: string): Promise<boolean> {
-    const validationError = Validator.validateId(id);
+  async deleteRole(id: string, options?: VersionOptions): Promise<boolean> {
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const roleIndex = this.data.roles.findIndex(role => role.id === id);
@@ -349,47 +895,74 @@ export class FileSystemAdapter implements StorageAdapter {
       return false;
     }
 
-    // Remove user roles first
+    const versionConflict = Versioning.findConflict('role', this.data.roles[roleIndex], options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    // Remove user roles, group roles and permission grants first
     this.data.userRoles = this.data.userRoles.filter(userRole => userRole.roleId !== id);
-    
-    this.data.roles.splice(roleIndex, 1);
+    this.data.groupRoles = this.data.groupRoles.filter(groupRole => groupRole.roleId !== id);
+    this.data.rolePermissions = this.data.rolePermissions.filter(rolePermission => rolePermission.roleId !== id);
+
+    // Child roles take over the deleted role's parents, so they keep what they inherited through it
+    const [deleted] = this.data.roles.splice(roleIndex, 1);
+    const now = new Date();
+    this.data.roles = this.data.roles.map(role =>
+      role.parentIds?.includes(id)
+        ? {
+            ...role,
+            parentIds: RoleHierarchy.reparent(role.parentIds, deleted),
+            version: role.version + 1,
+            updatedAt: now,
+          }
+        : role
+    );
+
     if (!this.inTransaction) {
       await this.saveData();
     }
     return true;
   }
 
-  async assignRole(userId: string, roleId: string): Promise<UserRole> {
+  async assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole> {
     const userIdError = Validator.validateId(userId);
     const roleIdError = Validator.validateId(roleId);
     if (userIdError || roleIdError) {
-      throw new Error(
-        `Validation failed: ${[userIdError, roleIdError].filter(Boolean).map(e => e!.message).join(', ')}`
-      );
+      throw new ValidationFailedError([userIdError, roleIdError]);
     }
 
-    const userExists = this._getUsers().some(user => user.id === userId);
-    const roleExists = this._getRoles().some(role => role.id === roleId);
-    if (!userExists || !roleExists) {
-      throw new Error('User or role not found');
+    const assignmentErrors = Validator.validateAssignment(options);
+    if (assignmentErrors.length > 0) {
+      throw new ValidationFailedError(assignmentErrors);
+    }
+
+    const user = this._getUsers().find(user => user.id === userId);
+    const role = this._getRoles().find(role => role.id === roleId);
+    if (!user) {
+      throw new NotFoundError('user', userId);
+    }
+
+    if (!role) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (!Tenancy.sameTenant(user, role)) {
+      throw new ValidationFailedError([{ field: 'roleId', message: 'User and role belong to different tenants' }]);
     }
 
-    const existingUserRole = this._getUserRoles().find(
+    const existingIndex = this._getUserRoles().findIndex(
       userRole => userRole.userId === userId && userRole.roleId === roleId
     );
+    const createdAt = existingIndex === -1 ? new Date() : this.data.userRoles[existingIndex].createdAt;
+    const userRole = Assignments.create(userId, roleId, options, createdAt, user.tenantId);
 
-    if (existingUserRole) {
-      return existingUserRole;
+    if (existingIndex === -1) {
+      this.data.userRoles.push(Cloner.deepClone(userRole));
+    } else {
+      this.data.userRoles[existingIndex] = Cloner.deepClone(userRole);
     }
 
-    const now = new Date();
-    const userRole: UserRole = {
-      userId,
-      roleId,
-      createdAt: now,
-    };
-
-    this.data.userRoles.push(userRole);
     if (!this.inTransaction) {
       await this.saveData();
     }
@@ -400,9 +973,7 @@ export class FileSystemAdapter implements StorageAdapter {
     const userIdError = Validator.validateId(userId);
     const roleIdError = Validator.validateId(roleId);
     if (userIdError || roleIdError) {
-      throw new Error(
-        `Validation failed: ${[userIdError, roleIdError].filter(Boolean).map(e => e!.message).join(', ')}`
-      );
+      throw new ValidationFailedError([userIdError, roleIdError]);
     }
 
     const initialLength = this.data.userRoles.length;
@@ -417,33 +988,748 @@ export class FileSystemAdapter implements StorageAdapter {
     return removed;
   }
 
-  async getUserRoles(userId: string): Promise<Role[]> {
+  async purgeExpiredAssignments(): Promise<UserRole[]> {
+    const now = this.clock();
+    const expired = this.data.userRoles.filter(userRole => Assignments.isExpired(userRole, now));
+    if (expired.length === 0) {
+      return [];
+    }
+
+    this.data.userRoles = this.data.userRoles.filter(userRole => !Assignments.isExpired(userRole, now));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return expired.map(userRole => Cloner.deepClone(userRole));
+  }
+
+  async getAssignments(query: AssignmentQuery): Promise<UserRole[]> {
+    const validationError = Validator.validateAssignmentQuery(query);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return this.data.userRoles
+      .filter(userRole => Assignments.matches(userRole, query))
+      .map(userRole => Cloner.deepClone(userRole));
+  }
+
+  async getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]> {
     const validationError = Validator.validateId(userId);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    const roleIds = new Set(
-      this._getUserRoles()
-        .filter(userRole => userRole.userId === userId)
-        .map(userRole => userRole.roleId)
-    );
+    const directIds = this.getActiveUserRoles()
+      .filter(userRole => userRole.userId === userId)
+      .map(userRole => userRole.roleId);
+
+    let roleIds = new Set(directIds);
+    if (options?.effective) {
+      const groupIds = this.getMemberGroupIds(userId);
+      const groupRoleIds = this._getGroupRoles()
+        .filter(groupRole => groupIds.has(groupRole.groupId))
+        .map(groupRole => groupRole.roleId);
+      roleIds = new Set(RoleHierarchy.ancestors([...directIds, ...groupRoleIds], roleId => this.getParentIds(roleId)));
+    }
 
-    return this._getRoles().filter(role => roleIds.has(role.id));
+    return this._getRoles()
+      .filter(role => roleIds.has(role.id))
+      .map(role => Cloner.deepClone(role));
   }
 
-  async getRoleUsers(roleId: string): Promise<User[]> {
+  async getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]> {
     const validationError = Validator.validateId(roleId);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
+    const roleIds = new Set(options?.effective ? RoleHierarchy.descendants(roleId, this._getRoles()) : [roleId]);
     const userIds = new Set(
-      this._getUserRoles()
-        .filter(userRole => userRole.roleId === roleId)
+      this.getActiveUserRoles()
+        .filter(userRole => roleIds.has(userRole.roleId))
         .map(userRole => userRole.userId)
     );
 
-    return this._getUsers().filter(user => userIds.has(user.id));
+    if (options?.effective) {
+      const groupIds = new Set(
+        this._getGroupRoles()
+          .filter(groupRole => roleIds.has(groupRole.roleId))
+          .map(groupRole => groupRole.groupId)
+      );
+      this._getGroupMembers()
+        .filter(groupMember => groupIds.has(groupMember.groupId))
+        .forEach(groupMember => userIds.add(groupMember.userId));
+    }
+
+    return this._getUsers()
+      .filter(user => userIds.has(user.id))
+      .map(user => Cloner.deepClone(user));
+  }
+
+  async createGroup(groupData: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group> {
+    const validationErrors = Validator.validateGroup(groupData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const group: Group = {
+      ...groupData,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.data.groups.push(Cloner.deepClone(group));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return group;
+  }
+
+  async getGroupById(id: string): Promise<Group | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const group = this._getGroups().find(group => group.id === id);
+    return group ? Cloner.deepClone(group) : null;
+  }
+
+  async getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }> {
+    const validationError = Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, []);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    let groups = [...this._getGroups()];
+
+    // Apply filter
+    if (options?.filter) {
+      groups = groups.filter(group => FilterMatcher.matches(group, options.filter!));
+    }
+
+    // Apply sort
+    if (options?.sort) {
+      FilterMatcher.sort(groups, options.sort);
+    }
+
+    const total = groups.length;
+
+    // Apply pagination
+    if (options?.limit) {
+      const offset = options.offset || 0;
+      groups = groups.slice(offset, offset + options.limit);
+    }
+
+    return { items: groups.map(group => Cloner.deepClone(group)), total };
+  }
+
+  async updateGroup(id: string, groupData: Partial<Group>): Promise<Group | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const groupIndex = this.data.groups.findIndex(group => group.id === id);
+    if (groupIndex === -1) {
+      return null;
+    }
+
+    const updatedGroup = {
+      ...this.data.groups[groupIndex],
+      ...Cloner.deepClone(groupData),
+      id,
+      updatedAt: new Date(),
+    };
+
+    const validationErrors = Validator.validateGroup(updatedGroup);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(this.data.groups[groupIndex], groupData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    this.data.groups[groupIndex] = updatedGroup;
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return Cloner.deepClone(updatedGroup);
+  }
+
+  async deleteGroup(id: string): Promise<boolean> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const groupIndex = this.data.groups.findIndex(group => group.id === id);
+    if (groupIndex === -1) {
+      return false;
+    }
+
+    // Remove memberships and group roles first
+    this.data.groupMembers = this.data.groupMembers.filter(groupMember => groupMember.groupId !== id);
+    this.data.groupRoles = this.data.groupRoles.filter(groupRole => groupRole.groupId !== id);
+
+    this.data.groups.splice(groupIndex, 1);
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return true;
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<GroupMember> {
+    const groupIdError = Validator.validateId(groupId);
+    const userIdError = Validator.validateId(userId);
+    if (groupIdError || userIdError) {
+      throw new ValidationFailedError([groupIdError, userIdError]);
+    }
+
+    const group = this._getGroups().find(group => group.id === groupId);
+    const user = this._getUsers().find(user => user.id === userId);
+    if (!group) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!user) {
+      throw new NotFoundError('user', userId);
+    }
+
+    if (!Tenancy.sameTenant(group, user)) {
+      throw new ValidationFailedError([{ field: 'userId', message: 'Group and user belong to different tenants' }]);
+    }
+
+    const existingGroupMember = this._getGroupMembers().find(
+      groupMember => groupMember.groupId === groupId && groupMember.userId === userId
+    );
+
+    if (existingGroupMember) {
+      return Cloner.deepClone(existingGroupMember);
+    }
+
+    const groupMember: GroupMember = {
+      groupId,
+      userId,
+      createdAt: new Date(),
+    };
+
+    this.data.groupMembers.push(Cloner.deepClone(groupMember));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return groupMember;
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const groupIdError = Validator.validateId(groupId);
+    const userIdError = Validator.validateId(userId);
+    if (groupIdError || userIdError) {
+      throw new ValidationFailedError([groupIdError, userIdError]);
+    }
+
+    const initialLength = this.data.groupMembers.length;
+    this.data.groupMembers = this.data.groupMembers.filter(
+      groupMember => !(groupMember.groupId === groupId && groupMember.userId === userId)
+    );
+
+    const removed = this.data.groupMembers.length < initialLength;
+    if (removed && !this.inTransaction) {
+      await this.saveData();
+    }
+    return removed;
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    const validationError = Validator.validateId(groupId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const userIds = new Set(
+      this._getGroupMembers()
+        .filter(groupMember => groupMember.groupId === groupId)
+        .map(groupMember => groupMember.userId)
+    );
+
+    return this._getUsers()
+      .filter(user => userIds.has(user.id))
+      .map(user => Cloner.deepClone(user));
+  }
+
+  async getUserGroups(userId: string): Promise<Group[]> {
+    const validationError = Validator.validateId(userId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const groupIds = this.getMemberGroupIds(userId);
+    return this._getGroups()
+      .filter(group => groupIds.has(group.id))
+      .map(group => Cloner.deepClone(group));
+  }
+
+  async assignGroupRole(groupId: string, roleId: string): Promise<GroupRole> {
+    const groupIdError = Validator.validateId(groupId);
+    const roleIdError = Validator.validateId(roleId);
+    if (groupIdError || roleIdError) {
+      throw new ValidationFailedError([groupIdError, roleIdError]);
+    }
+
+    const group = this._getGroups().find(group => group.id === groupId);
+    const role = this._getRoles().find(role => role.id === roleId);
+    if (!group) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!role) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (!Tenancy.sameTenant(group, role)) {
+      throw new ValidationFailedError([{ field: 'roleId', message: 'Group and role belong to different tenants' }]);
+    }
+
+    const existingGroupRole = this._getGroupRoles().find(
+      groupRole => groupRole.groupId === groupId && groupRole.roleId === roleId
+    );
+
+    if (existingGroupRole) {
+      return Cloner.deepClone(existingGroupRole);
+    }
+
+    const groupRole: GroupRole = {
+      groupId,
+      roleId,
+      createdAt: new Date(),
+    };
+
+    this.data.groupRoles.push(Cloner.deepClone(groupRole));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return groupRole;
+  }
+
+  async removeGroupRole(groupId: string, roleId: string): Promise<boolean> {
+    const groupIdError = Validator.validateId(groupId);
+    const roleIdError = Validator.validateId(roleId);
+    if (groupIdError || roleIdError) {
+      throw new ValidationFailedError([groupIdError, roleIdError]);
+    }
+
+    const initialLength = this.data.groupRoles.length;
+    this.data.groupRoles = this.data.groupRoles.filter(
+      groupRole => !(groupRole.groupId === groupId && groupRole.roleId === roleId)
+    );
+
+    const removed = this.data.groupRoles.length < initialLength;
+    if (removed && !this.inTransaction) {
+      await this.saveData();
+    }
+    return removed;
+  }
+
+  async getGroupRoles(groupId: string): Promise<Role[]> {
+    const validationError = Validator.validateId(groupId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const roleIds = new Set(
+      this._getGroupRoles()
+        .filter(groupRole => groupRole.groupId === groupId)
+        .map(groupRole => groupRole.roleId)
+    );
+
+    return this._getRoles()
+      .filter(role => roleIds.has(role.id))
+      .map(role => Cloner.deepClone(role));
+  }
+
+  async createPermission(permissionData: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission> {
+    const validationErrors = Validator.validatePermission(permissionData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const permission: Permission = {
+      ...permissionData,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.data.permissions.push(Cloner.deepClone(permission));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return permission;
+  }
+
+  async getPermissionById(id: string): Promise<Permission | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permission = this._getPermissions().find(permission => permission.id === id);
+    return permission ? Cloner.deepClone(permission) : null;
+  }
+
+  async getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }> {
+    const validationError = Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, []);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    let permissions = [...this._getPermissions()];
+
+    // Apply filter
+    if (options?.filter) {
+      permissions = permissions.filter(permission => FilterMatcher.matches(permission, options.filter!));
+    }
+
+    // Apply sort
+    if (options?.sort) {
+      FilterMatcher.sort(permissions, options.sort);
+    }
+
+    const total = permissions.length;
+
+    // Apply pagination
+    if (options?.limit) {
+      const offset = options.offset || 0;
+      permissions = permissions.slice(offset, offset + options.limit);
+    }
+
+    return { items: permissions.map(permission => Cloner.deepClone(permission)), total };
+  }
+
+  async updatePermission(id: string, permissionData: Partial<Permission>): Promise<Permission | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permissionIndex = this.data.permissions.findIndex(permission => permission.id === id);
+    if (permissionIndex === -1) {
+      return null;
+    }
+
+    const updatedPermission = {
+      ...this.data.permissions[permissionIndex],
+      ...Cloner.deepClone(permissionData),
+      id,
+      updatedAt: new Date(),
+    };
+
+    const validationErrors = Validator.validatePermission(updatedPermission);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    this.data.permissions[permissionIndex] = updatedPermission;
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return Cloner.deepClone(updatedPermission);
+  }
+
+  async deletePermission(id: string): Promise<boolean> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permissionIndex = this.data.permissions.findIndex(permission => permission.id === id);
+    if (permissionIndex === -1) {
+      return false;
+    }
+
+    // Remove permission grants first
+    this.data.rolePermissions = this.data.rolePermissions.filter(
+      rolePermission => rolePermission.permissionId !== id
+    );
+
+    this.data.permissions.splice(permissionIndex, 1);
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return true;
+  }
+
+  async grantPermission(roleId: string, permissionId: string): Promise<RolePermission> {
+    const roleIdError = Validator.validateId(roleId);
+    const permissionIdError = Validator.validateId(permissionId);
+    if (roleIdError || permissionIdError) {
+      throw new ValidationFailedError([roleIdError, permissionIdError]);
+    }
+
+    const roleExists = this._getRoles().some(role => role.id === roleId);
+    const permissionExists = this._getPermissions().some(permission => permission.id === permissionId);
+    if (!roleExists) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (!permissionExists) {
+      throw new NotFoundError('permission', permissionId);
+    }
+
+    const existingRolePermission = this._getRolePermissions().find(
+      rolePermission => rolePermission.roleId === roleId && rolePermission.permissionId === permissionId
+    );
+
+    if (existingRolePermission) {
+      return Cloner.deepClone(existingRolePermission);
+    }
+
+    const rolePermission: RolePermission = {
+      roleId,
+      permissionId,
+      createdAt: new Date(),
+    };
+
+    this.data.rolePermissions.push(Cloner.deepClone(rolePermission));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return rolePermission;
+  }
+
+  async revokePermission(roleId: string, permissionId: string): Promise<boolean> {
+    const roleIdError = Validator.validateId(roleId);
+    const permissionIdError = Validator.validateId(permissionId);
+    if (roleIdError || permissionIdError) {
+      throw new ValidationFailedError([roleIdError, permissionIdError]);
+    }
+
+    const initialLength = this.data.rolePermissions.length;
+    this.data.rolePermissions = this.data.rolePermissions.filter(
+      rolePermission => !(rolePermission.roleId === roleId && rolePermission.permissionId === permissionId)
+    );
+
+    const revoked = this.data.rolePermissions.length < initialLength;
+    if (revoked && !this.inTransaction) {
+      await this.saveData();
+    }
+    return revoked;
+  }
+
+  async getRolePermissions(roleId: string): Promise<Permission[]> {
+    const validationError = Validator.validateId(roleId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permissionIds = new Set(
+      this._getRolePermissions()
+        .filter(rolePermission => rolePermission.roleId === roleId)
+        .map(rolePermission => rolePermission.permissionId)
+    );
+
+    return this._getPermissions()
+      .filter(permission => permissionIds.has(permission.id))
+      .map(permission => Cloner.deepClone(permission));
+  }
+
+  async createAuditEntry(entryData: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    const entry: AuditEntry = { ...entryData, id: IdGenerator.generate() };
+
+    this.data.auditEntries.push(Cloner.deepClone(entry));
+    if (!this.inTransaction) {
+      await this.saveData();
+    }
+    return entry;
+  }
+
+  async getAuditEntries(query?: AuditQuery): Promise<AuditEntry[]> {
+    const validationError = Validator.validateAuditQuery(query);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return this._getAuditEntries()
+      .filter(entry => AuditTrail.matches(entry, query))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(entry => Cloner.deepClone(entry));
+  }
+
+  async deleteAuditEntries(before: Date, tenantId?: string): Promise<number> {
+    const validationError = Validator.validateDate(before, 'before') || Validator.validateTenantId(tenantId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const initialLength = this.data.auditEntries.length;
+    this.data.auditEntries = this.data.auditEntries.filter(
+      entry => entry.timestamp >= before || (tenantId !== undefined && entry.tenantId !== tenantId)
+    );
+    const deleted = initialLength - this.data.auditEntries.length;
+
+    if (deleted > 0 && !this.inTransaction) {
+      await this.saveData();
+    }
+    return deleted;
+  }
+
+  async readRecords<C extends DataCollection>(
+    collection: C,
+    page?: RecordPage
+  ): Promise<{ items: Array<DataRecords[C]>; total: number }> {
+    const validationError = Records.validateCollection(collection) || Records.validatePage(page);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const records = this.data[collection] as Array<DataRecords[C]>;
+    const owned = Records.owned(collection, records, page, { groups: this.data.groups, roles: this.data.roles });
+    const { items, total } = Records.page(owned, page);
+    return { items: items.map(record => Cloner.deepClone(record)), total };
+  }
+
+  async writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void> {
+    const validationError = Records.validateCollection(collection);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const stored = this.keyed(collection, this.data[collection]);
+    for (const record of records) {
+      stored.set(Records.key(collection, record), Cloner.deepClone(record));
+    }
+    this.data[collection] = Array.from(stored.values()) as FileSystemData[C];
+
+    if (records.length > 0 && !this.inTransaction) {
+      await this.saveData();
+    }
+  }
+
+  private getActiveUserRoles(): UserRole[] {
+    const now = this.clock();
+    return this._getUserRoles().filter(userRole => Assignments.isActive(userRole, now));
+  }
+
+  private getMemberGroupIds(userId: string): Set<string> {
+    return new Set(
+      this._getGroupMembers()
+        .filter(groupMember => groupMember.userId === userId)
+        .map(groupMember => groupMember.groupId)
+    );
+  }
+
+  private getParentRoles(parentIds: string[] | undefined): Role[] {
+    return this._getRoles().filter(role => parentIds?.includes(role.id));
+  }
+
+  private getParentIds(roleId: string): string[] | undefined {
+    const role = this._getRoles().find(role => role.id === roleId);
+    return role ? role.parentIds || [] : undefined;
+  }
+
+  private includeUserRelations(users: User[], options?: IncludeOptions): User[] {
+    if (!options?.include?.includes('roles')) {
+      return users;
+    }
+
+    const roles = new Map(this._getRoles().map(role => [role.id, role]));
+    return Relations.attachRoles(users, this.getActiveUserRoles(), id => roles.get(id));
+  }
+
+  private includeRoleRelations(roles: Role[], options?: IncludeOptions): Role[] {
+    if (!options?.include?.includes('users')) {
+      return roles;
+    }
+
+    const users = new Map(this._getUsers().map(user => [user.id, user]));
+    return Relations.attachUsers(roles, this.getActiveUserRoles(), id => users.get(id));
+  }
+
+  async getTagKeys(target?: TagTarget): Promise<string[]> {
+    return TagUtils.keys(this.getTaggedEntities(target).map(entity => entity.tags));
+  }
+
+  async getTagValues(key: string, target?: TagTarget): Promise<TagValue[]> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return TagUtils.values(this.getTaggedEntities(target).map(entity => entity.tags), key);
+  }
+
+  async renameTagKey(from: string, to: string, target?: TagTarget): Promise<number> {
+    const fromError = Validator.validateTagKey(from, 'from');
+    const toError = Validator.validateTagKey(to, 'to');
+    if (fromError || toError) {
+      throw new ValidationFailedError([fromError, toError]);
+    }
+
+    const renameError = TagUtils.validateRename(this.getTaggedEntities(target).map(entity => entity.tags), from, to);
+    if (renameError) {
+      throw new ValidationFailedError([renameError]);
+    }
+
+    return this.updateTags(target, tags => TagUtils.rename(tags, from, to));
+  }
+
+  async removeTagKey(key: string, target?: TagTarget): Promise<number> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return this.updateTags(target, tags => TagUtils.remove(tags, key));
+  }
+
+  private getTaggedEntities(target?: TagTarget): Array<User | Role> {
+    return [
+      ...(target !== 'roles' ? this._getUsers() : []),
+      ...(target !== 'users' ? this._getRoles() : []),
+    ];
+  }
+
+  private async updateTags(
+    target: TagTarget | undefined,
+    update: (tags: Tag | undefined) => Tag | null
+  ): Promise<number> {
+    const now = new Date();
+    const users = target !== 'roles' ? TagUtils.rewrite(this.data.users, update, now) : [];
+    const roles = target !== 'users' ? TagUtils.rewrite(this.data.roles, update, now) : [];
+
+    const conflict =
+      UniqueConstraints.findRewriteConflict(
+        'user',
+        UniqueConstraints.tagFields(UniqueConstraints.userFields(this.uniqueFields)),
+        this.data.users,
+        users
+      ) ||
+      UniqueConstraints.findRewriteConflict(
+        'role',
+        UniqueConstraints.tagFields(UniqueConstraints.roleFields(this.uniqueFields)),
+        this.data.roles,
+        roles
+      );
+    if (conflict) {
+      throw conflict;
+    }
+
+    const rewrittenUsers = new Map(users.map(user => [user.id, user]));
+    const rewrittenRoles = new Map(roles.map(role => [role.id, role]));
+    this.data.users = this.data.users.map(user => rewrittenUsers.get(user.id) ?? user);
+    this.data.roles = this.data.roles.map(role => rewrittenRoles.get(role.id) ?? role);
+
+    const updated = users.length + roles.length;
+    if (updated > 0 && !this.inTransaction) {
+      await this.saveData();
+    }
+    return updated;
   }
 }
@@ -1,17 +1,102 @@
-import { StorageAdapter, User, Role, UserRole, QueryOptions } from '../types';
+import {
+  StorageAdapter,
+  User,
+  Role,
+  UserRole,
+  AssignRoleOptions,
+  AssignmentQuery,
+  AuditEntry,
+  AuditQuery,
+  Clock,
+  Group,
+  GroupMember,
+  GroupRole,
+  Permission,
+  RolePermission,
+  QueryOptions,
+  IncludeOptions,
+  HierarchyOptions,
+  Tag,
+  TagTarget,
+  TagValue,
+  TransactionHandle,
+  DataCollection,
+  DataRecords,
+  RecordPage,
+  UniqueFieldsConfig,
+  VersionOptions,
+  MigrationOptions,
+  MigrationReport,
+  MigrationSet,
+} from '../types';
 import { IdGenerator } from '../utils/idGenerator';
 import { Validator } from '../utils/validation';
+import { Cloner } from '../utils/clone';
+import { TagUtils } from '../utils/tags';
+import { Relations, USER_RELATIONS, ROLE_RELATIONS } from '../utils/relations';
+import { FilterMatcher } from '../utils/queryFilter';
+import { RoleHierarchy } from '../utils/roleHierarchy';
+import { Assignments, systemClock } from '../utils/assignments';
+import { Versioning } from '../utils/versioning';
+import { Tenancy } from '../utils/tenancy';
+import { UniqueConstraints } from '../utils/uniqueness';
+import { AuditTrail } from '../utils/audit';
+import { Transactions, TransactionScope, DataTransaction } from '../utils/transactions';
+import { Records } from '../utils/records';
+import { Migrator } from '../utils/migrations';
+import { ValidationFailedError, NotFoundError } from '../errors';
+
+interface MemoryData {
+  users: Map<string, User>;
+  roles: Map<string, Role>;
+  userRoles: Map<string, UserRole>;
+  groups: Map<string, Group>;
+  groupMembers: Map<string, GroupMember>;
+  groupRoles: Map<string, GroupRole>;
+  permissions: Map<string, Permission>;
+  rolePermissions: Map<string, RolePermission>;
+  auditEntries: Map<string, AuditEntry>;
+}
 
 export class MemoryAdapter implements StorageAdapter {
-  private users: Map<string, User> = new Map();
-  private roles: Map<string, Role> = new Map();
-  private userRoles: Map<string, UserRole> = new Map();
-  private inTransaction = false;
-  private transactionData: {
-    users: Map<string, User>;
-    roles: Map<string, Role>;
-    userRoles: Map<string, UserRole>;
-  } | null = null;
+  private data: MemoryData = {
+    users: new Map(),
+    roles: new Map(),
+    userRoles: new Map(),
+    groups: new Map(),
+    groupMembers: new Map(),
+    groupRoles: new Map(),
+    permissions: new Map(),
+    rolePermissions: new Map(),
+    auditEntries: new Map(),
+  };
+  private clock: Clock;
+  private uniqueFields?: UniqueFieldsConfig;
+  private transactions: TransactionScope<MemoryData>;
+
+  constructor(options?: { clock?: Clock; uniqueFields?: UniqueFieldsConfig }) {
+    this.clock = options?.clock || systemClock;
+    this.uniqueFields = options?.uniqueFields;
+    // Entities are replaced rather than mutated, so copying the maps is enough
+    this.transactions = new TransactionScope<MemoryData>(
+      {
+        copy: data => ({
+          users: new Map(data.users),
+          roles: new Map(data.roles),
+          userRoles: new Map(data.userRoles),
+          groups: new Map(data.groups),
+          groupMembers: new Map(data.groupMembers),
+          groupRoles: new Map(data.groupRoles),
+          permissions: new Map(data.permissions),
+          rolePermissions: new Map(data.rolePermissions),
+          auditEntries: new Map(data.auditEntries),
+        }),
+        toCollections: data => ({ ...data }),
+        fromCollections: collections => collections as unknown as MemoryData,
+      },
+      this.uniqueFields
+    );
+  }
 
   async initialize(): Promise<void> {
     // No initialization needed for memory adapter
@@ -21,59 +106,94 @@ export class MemoryAdapter implements StorageAdapter {
     // No shutdown needed for memory adapter
   }
 
-  async beginTransaction(): Promise<void> {
-    if (this.inTransaction) {
-      throw new Error('Transaction already in progress');
-    }
+  // Nothing outlives the adapter, so the store always starts out at the latest versions
+  async migrate(migrations: MigrationSet = {}, options?: MigrationOptions): Promise<MigrationReport> {
+    return { ...Migrator.nothingToDo(options?.dryRun), to: Migrator.latest(migrations) };
+  }
 
-    this.inTransaction = true;
-    this.transactionData = {
-      users: new Map(this.users),
-      roles: new Map(this.roles),
-      userRoles: new Map(this.userRoles),
-    };
+  async beginTransaction(): Promise<TransactionHandle> {
+    const transaction = this.transactions.begin(this.data);
+    return this.transactions.handle(transaction, {
+      commit: async () => this.commitTransaction(transaction),
+      rollback: async () => this.transactions.rollback(transaction),
+    });
   }
 
   async commit(): Promise<void> {
-    if (!this.inTransaction || !this.transactionData) {
-      throw new Error('No transaction in progress');
-    }
+    this.commitTransaction(this.transactions.current());
+  }
 
-    // Copy transaction data back to main data
-    this.users = this.transactionData.users;
-    this.roles = this.transactionData.roles;
-    this.userRoles = this.transactionData.userRoles;
+  async rollback(): Promise<void> {
+    // Simply discard the transaction data, main data remains unchanged
+    this.transactions.rollback(this.transactions.current());
+  }
 
-    this.inTransaction = false;
-    this.transactionData = null;
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.transactions.run(() => Transactions.run(this, fn));
   }
 
-  async rollback(): Promise<void> {
-    if (!this.inTransaction || !this.transactionData) {
-      throw new Error('No transaction in progress');
+  private commitTransaction(transaction: DataTransaction<MemoryData>): void {
+    const data = this.transactions.commit(transaction, this.data);
+    if (data) {
+      this.data = data;
     }
+  }
 
-    // Simply discard the transaction data, main data remains unchanged
-    this.inTransaction = false;
-    this.transactionData = null;
+  private getData(): MemoryData {
+    return this.transactions.data(this.data);
   }
 
   private getUserMap(): Map<string, User> {
-    return this.inTransaction && this.transactionData ? this.transactionData.users : this.users;
+    return this.getData().users;
   }
 
   private getRoleMap(): Map<string, Role> {
-    return this.inTransaction && this.transactionData ? this.transactionData.roles : this.roles;
+    return this.getData().roles;
   }
 
   private getUserRoleMap(): Map<string, UserRole> {
-    return this.inTransaction && this.transactionData ? this.transactionData.userRoles : this.userRoles;
+    return this.getData().userRoles;
+  }
+
+  private getGroupMap(): Map<string, Group> {
+    return this.getData().groups;
+  }
+
+  private getGroupMemberMap(): Map<string, GroupMember> {
+    return this.getData().groupMembers;
+  }
+
+  private getGroupRoleMap(): Map<string, GroupRole> {
+    return this.getData().groupRoles;
+  }
+
+  private getPermissionMap(): Map<string, Permission> {
+    return this.getData().permissions;
   }
 
-  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
+  private getRolePermissionMap(): Map<string, RolePermission> {
+    return this.getData().rolePermissions;
+  }
+
+  private getAuditEntryMap(): Map<string, AuditEntry> {
+    return this.getData().auditEntries;
+  }
+
+  async createUser(data: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
+    const userData = UniqueConstraints.normalizeUser(data);
     const validationErrors = Validator.validateUser(userData);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'user',
+      userData,
+      UniqueConstraints.userFields(this.uniqueFields),
+      this.getUserMap().values()
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     const id = IdGenerator.generate();
@@ -81,69 +201,61 @@ export class MemoryAdapter implements StorageAdapter {
     const user: User = {
       ...userData,
       id,
+      version: 1,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.getUserMap().set(id, user);
+    this.getUserMap().set(id, Cloner.deepClone(user));
     return user;
   }
 
-  async getUserById(id: string): Promise<User | null> {
-    const validationError = Validator.validateId(id);
+  async getUserById(id: string, options?: IncludeOptions): Promise<User | null> {
+    const validationError = Validator.validateId(id) || Validator.validateInclude(options?.include, USER_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    return this.getUserMap().get(id) || null;
+    const user = this.getUserMap().get(id);
+    return user ? Cloner.deepClone(this.includeUserRelations([user], options)[0]) : null;
   }
 
   async getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }> {
-    const validationError = Validator.validateQueryOptions(options);
+    const validationError =
+      Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, USER_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     let users = Array.from(this.getUserMap().values());
-    const total = users.length;
 
     // Apply filter
     if (options?.filter) {
-      users = users.filter(user => {
-        return Object.entries(options.filter!).every(([key, value]) => {
-          return user[key as keyof User] === value;
-        });
-      });
+      users = users.filter(user => FilterMatcher.matches(user, options.filter!));
     }
 
     // Apply sort
     if (options?.sort) {
-      users.sort((a, b) => {
-        for (const [key, order] of Object.entries(options.sort!)) {
-          const aValue = a[key as keyof User];
-          const bValue = b[key as keyof User];
-          if (aValue !== undefined && bValue !== undefined) {
-            if (aValue < bValue) return order === 'asc' ? -1 : 1;
-            if (aValue > bValue) return order === 'asc' ? 1 : -1;
-          }
-        }
-        return 0;
-      });
+      FilterMatcher.sort(users, options.sort);
     }
 
+    const total = users.length;
+
     // Apply pagination
     if (options?.limit) {
       const offset = options.offset || 0;
       users = users.slice(offset, offset + options.limit);
     }
 
-    return { items: users, total };
+    const items = this.includeUserRelations(users, options).map(user => Cloner.deepClone(user));
+    return { items, total };
   }
 
-  async updateUser(id: string, userData: Partial<User>): Promise<User | null> {
-    const validationError = Validator.validateId(id);
+  async updateUser(id: string, data: Partial<User>, options?: VersionOptions): Promise<User | null> {
+    const userData = UniqueConstraints.normalizeUser(data);
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const users = this.getUserMap();
@@ -152,44 +264,98 @@ export class MemoryAdapter implements StorageAdapter {
       return null;
     }
 
-    const validationErrors = Validator.validateUser({ ...user, ...userData });
+    const versionConflict = Versioning.findConflict('user', user, options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    const mergedUser = { ...user, ...userData };
+    const validationErrors = Validator.validateUser(mergedUser);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(user, userData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'user',
+      mergedUser,
+      UniqueConstraints.userFields(this.uniqueFields),
+      users.values(),
+      id
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     const updatedUser: User = {
       ...user,
-      ...userData,
+      ...Cloner.deepClone(userData),
+      id,
+      version: user.version + 1,
       updatedAt: new Date(),
     };
 
     users.set(id, updatedUser);
-    return updatedUser;
+    return Cloner.deepClone(updatedUser);
   }
 
-  async deleteUser(id: string): Promise<boolean> {
-    const validationError = Validator.validateId(id);
+  async deleteUser(id: string, options?: VersionOptions): Promise<boolean> {
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const users = this.getUserMap();
+    const user = users.get(id);
+    const versionConflict = user && Versioning.findConflict('user', user, options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
     const userRoles = this.getUserRoleMap();
+    const groupMembers = this.getGroupMemberMap();
 
-    // Remove user roles first
+    // Remove user roles and group memberships first
     for (const [key, userRole] of userRoles.entries()) {
       if (userRole.userId === id) {
         userRoles.delete(key);
       }
     }
 
+    for (const [key, groupMember] of groupMembers.entries()) {
+      if (groupMember.userId === id) {
+        groupMembers.delete(key);
+      }
+    }
+
     return users.delete(id);
   }
 
-  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt'>): Promise<Role> {
+  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role> {
     const validationErrors = Validator.validateRole(roleData);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const hierarchyError =
+      RoleHierarchy.validateParents(null, roleData.parentIds, id => this.getParentIds(id)) ||
+      Tenancy.validateParents(roleData, this.getParentRoles(roleData.parentIds));
+    if (hierarchyError) {
+      throw new ValidationFailedError([hierarchyError]);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'role',
+      roleData,
+      UniqueConstraints.roleFields(this.uniqueFields),
+      this.getRoleMap().values()
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     const id = IdGenerator.generate();
@@ -197,69 +363,60 @@ export class MemoryAdapter implements StorageAdapter {
     const role: Role = {
       ...roleData,
       id,
+      version: 1,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.getRoleMap().set(id, role);
+    this.getRoleMap().set(id, Cloner.deepClone(role));
     return role;
   }
 
-  async getRoleById(id: string): Promise<Role | null> {
-    const validationError = Validator.validateId(id);
+  async getRoleById(id: string, options?: IncludeOptions): Promise<Role | null> {
+    const validationError = Validator.validateId(id) || Validator.validateInclude(options?.include, ROLE_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    return this.getRoleMap().get(id) || null;
+    const role = this.getRoleMap().get(id);
+    return role ? Cloner.deepClone(this.includeRoleRelations([role], options)[0]) : null;
   }
 
   async getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }> {
-    const validationError = Validator.validateQueryOptions(options);
+    const validationError =
+      Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, ROLE_RELATIONS);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     let roles = Array.from(this.getRoleMap().values());
-    const total = roles.length;
 
     // Apply filter
     if (options?.filter) {
-      roles = roles.filter(role => {
-        return Object.entries(options.filter!).every(([key, value]) => {
-          return role[key as keyof Role] === value;
-        });
-      });
+      roles = roles.filter(role => FilterMatcher.matches(role, options.filter!));
     }
 
     // Apply sort
     if (options?.sort) {
-      roles.sort((a, b) => {
-        for (const [key, order] of Object.entries(options.sort!)) {
-          const aValue = a[key as keyof Role];
-          const bValue = b[key as keyof Role];
-          if (aValue !== undefined && bValue !== undefined) {
-            if (aValue < bValue) return order === 'asc' ? -1 : 1;
-            if (aValue > bValue) return order === 'asc' ? 1 : -1;
-          }
-        }
-        return 0;
-      });
+      FilterMatcher.sort(roles, options.sort);
     }
 
+    const total = roles.length;
+
     // Apply pagination
     if (options?.limit) {
       const offset = options.offset || 0;
       roles = roles.slice(offset, offset + options.limit);
     }
 
-    return { items: roles, total };
+    const items = this.includeRoleRelations(roles, options).map(role => Cloner.deepClone(role));
+    return { items, total };
   }
 
-  async updateRole(id: string, roleData: Partial<Role>): Promise<Role | null> {
-    const validationError = Validator.validateId(id);
+  async updateRole(id: string, roleData: Partial<Role>, options?: VersionOptions): Promise<Role | null> {
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const roles = this.getRoleMap();
@@ -268,72 +425,135 @@ export class MemoryAdapter implements StorageAdapter {
       return null;
     }
 
-    const validationErrors = Validator.validateRole({ ...role, ...roleData });
+    const versionConflict = Versioning.findConflict('role', role, options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    const mergedRole = { ...role, ...roleData };
+    const validationErrors = Validator.validateRole(mergedRole);
     if (validationErrors.length > 0) {
-      throw new Error(`Validation failed: ${validationErrors.map(e => e.message).join(', ')}`);
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(role, roleData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const hierarchyError =
+      RoleHierarchy.validateParents(id, mergedRole.parentIds, parentId => this.getParentIds(parentId)) ||
+      Tenancy.validateParents(role, this.getParentRoles(mergedRole.parentIds));
+    if (hierarchyError) {
+      throw new ValidationFailedError([hierarchyError]);
+    }
+
+    const conflict = UniqueConstraints.findConflict(
+      'role',
+      mergedRole,
+      UniqueConstraints.roleFields(this.uniqueFields),
+      roles.values(),
+      id
+    );
+    if (conflict) {
+      throw conflict;
     }
 
     const updatedRole: Role = {
       ...role,
-      ...roleData,
+      ...Cloner.deepClone(roleData),
+      id,
+      version: role.version + 1,
       updatedAt: new Date(),
     };
 
     roles.set(id, updatedRole);
-    return updatedRole;
+    return Cloner.deepClone(updatedRole);
   }
 
-  async deleteRole(id: string): Promise<boolean> {
-    const validationError = Validator.validateId(id);
+  async deleteRole(id: string, options?: VersionOptions): Promise<boolean> {
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
     const roles = this.getRoleMap();
+    const deleted = roles.get(id);
+    const versionConflict = deleted && Versioning.findConflict('role', deleted, options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
     const userRoles = this.getUserRoleMap();
+    const groupRoles = this.getGroupRoleMap();
+    const rolePermissions = this.getRolePermissionMap();
 
-    // Remove user roles first
+    // Remove user roles, group roles and permission grants first
     for (const [key, userRole] of userRoles.entries()) {
       if (userRole.roleId === id) {
         userRoles.delete(key);
       }
     }
 
+    for (const [key, groupRole] of groupRoles.entries()) {
+      if (groupRole.roleId === id) {
+        groupRoles.delete(key);
+      }
+    }
+
+    for (const [key, rolePermission] of rolePermissions.entries()) {
+      if (rolePermission.roleId === id) {
+        rolePermissions.delete(key);
+      }
+    }
+
+    // Child roles take over the deleted role's parents, so they keep what they inherited through it
+    if (deleted) {
+      const now = new Date();
+      for (const [roleId, role] of roles.entries()) {
+        if (role.parentIds?.includes(id)) {
+          const parentIds = RoleHierarchy.reparent(role.parentIds, deleted);
+          roles.set(roleId, { ...role, parentIds, version: role.version + 1, updatedAt: now });
+        }
+      }
+    }
+
     return roles.delete(id);
   }
 
-  async assignRole(userId: string, roleId: string): Promise<UserRole> {
+  async assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole> {
     const userIdError = Validator.validateId(userId);
     const roleIdError = Validator.validateId(roleId);
     if (userIdError || roleIdError) {
-      throw new Error(
-        `Validation failed: ${[userIdError, roleIdError].filter(Boolean).map(e => e!.message).join(', ')}`
-      );
+      throw new ValidationFailedError([userIdError, roleIdError]);
     }
 
-    // Check in both main data and transaction data
-    const userExists = this.users.has(userId) || (this.transactionData?.users.has(userId) ?? false);
-    const roleExists = this.roles.has(roleId) || (this.transactionData?.roles.has(roleId) ?? false);
-    
-    if (!userExists || !roleExists) {
-      throw new Error('User or role not found');
+    const assignmentErrors = Validator.validateAssignment(options);
+    if (assignmentErrors.length > 0) {
+      throw new ValidationFailedError(assignmentErrors);
     }
 
-    const key = `${userId}:${roleId}`;
-    const userRoles = this.getUserRoleMap();
+    const user = this.getUserMap().get(userId);
+    const role = this.getRoleMap().get(roleId);
+    if (!user) {
+      throw new NotFoundError('user', userId);
+    }
 
-    if (userRoles.has(key)) {
-      return userRoles.get(key)!;
+    if (!role) {
+      throw new NotFoundError('role', roleId);
     }
 
-    const now = new Date();
-    const userRole: UserRole = {
-      userId,
-      roleId,
-      createdAt: now,
-    };
+    if (!Tenancy.sameTenant(user, role)) {
+      throw new ValidationFailedError([{ field: 'roleId', message: 'User and role belong to different tenants' }]);
+    }
 
-    userRoles.set(key, userRole);
+    const key = `${userId}:${roleId}`;
+    const userRoles = this.getUserRoleMap();
+    const existing = userRoles.get(key);
+    const createdAt = existing ? existing.createdAt : new Date();
+    const userRole = Assignments.create(userId, roleId, options, createdAt, user.tenantId);
+
+    userRoles.set(key, Cloner.deepClone(userRole));
     return userRole;
   }
 
@@ -341,9 +561,7 @@ export class MemoryAdapter implements StorageAdapter {
     const userIdError = Validator.validateId(userId);
     const roleIdError = Validator.validateId(roleId);
     if (userIdError || roleIdError) {
-      throw new Error(
-        `Validation failed: ${[userIdError, roleIdError].filter(Boolean).map(e => e!.message).join(', ')}`
-      );
+      throw new ValidationFailedError([userIdError, roleIdError]);
     }
 
     const key = `${userId}:${roleId}`;
@@ -351,45 +569,722 @@ export class MemoryAdapter implements StorageAdapter {
     return userRoles.delete(key);
   }
 
-  async getUserRoles(userId: string): Promise<Role[]> {
+  async purgeExpiredAssignments(): Promise<UserRole[]> {
+    const userRoles = this.getUserRoleMap();
+    const now = this.clock();
+    const expired: UserRole[] = [];
+
+    for (const [key, userRole] of userRoles.entries()) {
+      if (Assignments.isExpired(userRole, now)) {
+        userRoles.delete(key);
+        expired.push(Cloner.deepClone(userRole));
+      }
+    }
+
+    return expired;
+  }
+
+  async getAssignments(query: AssignmentQuery): Promise<UserRole[]> {
+    const validationError = Validator.validateAssignmentQuery(query);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return Array.from(this.getUserRoleMap().values())
+      .filter(userRole => Assignments.matches(userRole, query))
+      .map(userRole => Cloner.deepClone(userRole));
+  }
+
+  async getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]> {
     const validationError = Validator.validateId(userId);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    const userRoles = this.getUserRoleMap();
     const roles = this.getRoleMap();
     const roleIds = new Set<string>();
 
-    for (const userRole of userRoles.values()) {
+    for (const userRole of this.getActiveUserRoles()) {
       if (userRole.userId === userId) {
         roleIds.add(userRole.roleId);
       }
     }
 
-    return Array.from(roleIds)
+    if (options?.effective) {
+      const groupIds = this.getMemberGroupIds(userId);
+      for (const groupRole of this.getGroupRoleMap().values()) {
+        if (groupIds.has(groupRole.groupId)) {
+          roleIds.add(groupRole.roleId);
+        }
+      }
+    }
+
+    const resolvedIds = options?.effective
+      ? RoleHierarchy.ancestors(roleIds, roleId => this.getParentIds(roleId))
+      : Array.from(roleIds);
+
+    return resolvedIds
       .map(roleId => roles.get(roleId))
-      .filter((role): role is Role => role !== undefined);
+      .filter((role): role is Role => role !== undefined)
+      .map(role => Cloner.deepClone(role));
   }
 
-  async getRoleUsers(roleId: string): Promise<User[]> {
+  async getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]> {
     const validationError = Validator.validateId(roleId);
     if (validationError) {
-      throw new Error(`Validation failed: ${validationError.message}`);
+      throw new ValidationFailedError([validationError]);
     }
 
-    const userRoles = this.getUserRoleMap();
     const users = this.getUserMap();
     const userIds = new Set<string>();
+    const roleIds = new Set(
+      options?.effective ? RoleHierarchy.descendants(roleId, this.getRoleMap().values()) : [roleId]
+    );
 
-    for (const userRole of userRoles.values()) {
-      if (userRole.roleId === roleId) {
+    for (const userRole of this.getActiveUserRoles()) {
+      if (roleIds.has(userRole.roleId)) {
         userIds.add(userRole.userId);
       }
     }
 
+    if (options?.effective) {
+      const groupIds = new Set<string>();
+      for (const groupRole of this.getGroupRoleMap().values()) {
+        if (roleIds.has(groupRole.roleId)) {
+          groupIds.add(groupRole.groupId);
+        }
+      }
+
+      for (const groupMember of this.getGroupMemberMap().values()) {
+        if (groupIds.has(groupMember.groupId)) {
+          userIds.add(groupMember.userId);
+        }
+      }
+    }
+
+    return Array.from(userIds)
+      .map(userId => users.get(userId))
+      .filter((user): user is User => user !== undefined)
+      .map(user => Cloner.deepClone(user));
+  }
+
+  async createGroup(groupData: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group> {
+    const validationErrors = Validator.validateGroup(groupData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const group: Group = {
+      ...groupData,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getGroupMap().set(id, Cloner.deepClone(group));
+    return group;
+  }
+
+  async getGroupById(id: string): Promise<Group | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const group = this.getGroupMap().get(id);
+    return group ? Cloner.deepClone(group) : null;
+  }
+
+  async getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }> {
+    const validationError = Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, []);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    let groups = Array.from(this.getGroupMap().values());
+
+    // Apply filter
+    if (options?.filter) {
+      groups = groups.filter(group => FilterMatcher.matches(group, options.filter!));
+    }
+
+    // Apply sort
+    if (options?.sort) {
+      FilterMatcher.sort(groups, options.sort);
+    }
+
+    const total = groups.length;
+
+    // Apply pagination
+    if (options?.limit) {
+      const offset = options.offset || 0;
+      groups = groups.slice(offset, offset + options.limit);
+    }
+
+    return { items: groups.map(group => Cloner.deepClone(group)), total };
+  }
+
+  async updateGroup(id: string, groupData: Partial<Group>): Promise<Group | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const groups = this.getGroupMap();
+    const group = groups.get(id);
+    if (!group) {
+      return null;
+    }
+
+    const validationErrors = Validator.validateGroup({ ...group, ...groupData });
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(group, groupData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const updatedGroup: Group = {
+      ...group,
+      ...Cloner.deepClone(groupData),
+      id,
+      updatedAt: new Date(),
+    };
+
+    groups.set(id, updatedGroup);
+    return Cloner.deepClone(updatedGroup);
+  }
+
+  async deleteGroup(id: string): Promise<boolean> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const groupMembers = this.getGroupMemberMap();
+    const groupRoles = this.getGroupRoleMap();
+
+    // Remove memberships and group roles first
+    for (const [key, groupMember] of groupMembers.entries()) {
+      if (groupMember.groupId === id) {
+        groupMembers.delete(key);
+      }
+    }
+
+    for (const [key, groupRole] of groupRoles.entries()) {
+      if (groupRole.groupId === id) {
+        groupRoles.delete(key);
+      }
+    }
+
+    return this.getGroupMap().delete(id);
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<GroupMember> {
+    const groupIdError = Validator.validateId(groupId);
+    const userIdError = Validator.validateId(userId);
+    if (groupIdError || userIdError) {
+      throw new ValidationFailedError([groupIdError, userIdError]);
+    }
+
+    const group = this.getGroupMap().get(groupId);
+    const user = this.getUserMap().get(userId);
+    if (!group) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!user) {
+      throw new NotFoundError('user', userId);
+    }
+
+    if (!Tenancy.sameTenant(group, user)) {
+      throw new ValidationFailedError([{ field: 'userId', message: 'Group and user belong to different tenants' }]);
+    }
+
+    const key = `${groupId}:${userId}`;
+    const groupMembers = this.getGroupMemberMap();
+
+    if (groupMembers.has(key)) {
+      return Cloner.deepClone(groupMembers.get(key)!);
+    }
+
+    const groupMember: GroupMember = {
+      groupId,
+      userId,
+      createdAt: new Date(),
+    };
+
+    groupMembers.set(key, Cloner.deepClone(groupMember));
+    return groupMember;
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const groupIdError = Validator.validateId(groupId);
+    const userIdError = Validator.validateId(userId);
+    if (groupIdError || userIdError) {
+      throw new ValidationFailedError([groupIdError, userIdError]);
+    }
+
+    return this.getGroupMemberMap().delete(`${groupId}:${userId}`);
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    const validationError = Validator.validateId(groupId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const users = this.getUserMap();
+    const userIds = new Set<string>();
+
+    for (const groupMember of this.getGroupMemberMap().values()) {
+      if (groupMember.groupId === groupId) {
+        userIds.add(groupMember.userId);
+      }
+    }
+
     return Array.from(userIds)
       .map(userId => users.get(userId))
-      .filter((user): user is User => user !== undefined);
+      .filter((user): user is User => user !== undefined)
+      .map(user => Cloner.deepClone(user));
+  }
+
+  async getUserGroups(userId: string): Promise<Group[]> {
+    const validationError = Validator.validateId(userId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const groups = this.getGroupMap();
+    return Array.from(this.getMemberGroupIds(userId))
+      .map(groupId => groups.get(groupId))
+      .filter((group): group is Group => group !== undefined)
+      .map(group => Cloner.deepClone(group));
+  }
+
+  async assignGroupRole(groupId: string, roleId: string): Promise<GroupRole> {
+    const groupIdError = Validator.validateId(groupId);
+    const roleIdError = Validator.validateId(roleId);
+    if (groupIdError || roleIdError) {
+      throw new ValidationFailedError([groupIdError, roleIdError]);
+    }
+
+    const group = this.getGroupMap().get(groupId);
+    const role = this.getRoleMap().get(roleId);
+    if (!group) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!role) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (!Tenancy.sameTenant(group, role)) {
+      throw new ValidationFailedError([{ field: 'roleId', message: 'Group and role belong to different tenants' }]);
+    }
+
+    const key = `${groupId}:${roleId}`;
+    const groupRoles = this.getGroupRoleMap();
+
+    if (groupRoles.has(key)) {
+      return Cloner.deepClone(groupRoles.get(key)!);
+    }
+
+    const groupRole: GroupRole = {
+      groupId,
+      roleId,
+      createdAt: new Date(),
+    };
+
+    groupRoles.set(key, Cloner.deepClone(groupRole));
+    return groupRole;
+  }
+
+  async removeGroupRole(groupId: string, roleId: string): Promise<boolean> {
+    const groupIdError = Validator.validateId(groupId);
+    const roleIdError = Validator.validateId(roleId);
+    if (groupIdError || roleIdError) {
+      throw new ValidationFailedError([groupIdError, roleIdError]);
+    }
+
+    return this.getGroupRoleMap().delete(`${groupId}:${roleId}`);
+  }
+
+  async getGroupRoles(groupId: string): Promise<Role[]> {
+    const validationError = Validator.validateId(groupId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const roles = this.getRoleMap();
+    const roleIds = new Set<string>();
+
+    for (const groupRole of this.getGroupRoleMap().values()) {
+      if (groupRole.groupId === groupId) {
+        roleIds.add(groupRole.roleId);
+      }
+    }
+
+    return Array.from(roleIds)
+      .map(roleId => roles.get(roleId))
+      .filter((role): role is Role => role !== undefined)
+      .map(role => Cloner.deepClone(role));
+  }
+
+  async createPermission(permissionData: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission> {
+    const validationErrors = Validator.validatePermission(permissionData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const permission: Permission = {
+      ...permissionData,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getPermissionMap().set(id, Cloner.deepClone(permission));
+    return permission;
+  }
+
+  async getPermissionById(id: string): Promise<Permission | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permission = this.getPermissionMap().get(id);
+    return permission ? Cloner.deepClone(permission) : null;
+  }
+
+  async getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }> {
+    const validationError = Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, []);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    let permissions = Array.from(this.getPermissionMap().values());
+
+    // Apply filter
+    if (options?.filter) {
+      permissions = permissions.filter(permission => FilterMatcher.matches(permission, options.filter!));
+    }
+
+    // Apply sort
+    if (options?.sort) {
+      FilterMatcher.sort(permissions, options.sort);
+    }
+
+    const total = permissions.length;
+
+    // Apply pagination
+    if (options?.limit) {
+      const offset = options.offset || 0;
+      permissions = permissions.slice(offset, offset + options.limit);
+    }
+
+    return { items: permissions.map(permission => Cloner.deepClone(permission)), total };
+  }
+
+  async updatePermission(id: string, permissionData: Partial<Permission>): Promise<Permission | null> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permissions = this.getPermissionMap();
+    const permission = permissions.get(id);
+    if (!permission) {
+      return null;
+    }
+
+    const validationErrors = Validator.validatePermission({ ...permission, ...permissionData });
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const updatedPermission: Permission = {
+      ...permission,
+      ...Cloner.deepClone(permissionData),
+      id,
+      updatedAt: new Date(),
+    };
+
+    permissions.set(id, updatedPermission);
+    return Cloner.deepClone(updatedPermission);
+  }
+
+  async deletePermission(id: string): Promise<boolean> {
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const rolePermissions = this.getRolePermissionMap();
+
+    // Remove permission grants first
+    for (const [key, rolePermission] of rolePermissions.entries()) {
+      if (rolePermission.permissionId === id) {
+        rolePermissions.delete(key);
+      }
+    }
+
+    return this.getPermissionMap().delete(id);
+  }
+
+  async grantPermission(roleId: string, permissionId: string): Promise<RolePermission> {
+    const roleIdError = Validator.validateId(roleId);
+    const permissionIdError = Validator.validateId(permissionId);
+    if (roleIdError || permissionIdError) {
+      throw new ValidationFailedError([roleIdError, permissionIdError]);
+    }
+
+    const roleExists = this.getRoleMap().has(roleId);
+    const permissionExists = this.getPermissionMap().has(permissionId);
+    if (!roleExists) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (!permissionExists) {
+      throw new NotFoundError('permission', permissionId);
+    }
+
+    const key = `${roleId}:${permissionId}`;
+    const rolePermissions = this.getRolePermissionMap();
+
+    if (rolePermissions.has(key)) {
+      return Cloner.deepClone(rolePermissions.get(key)!);
+    }
+
+    const rolePermission: RolePermission = {
+      roleId,
+      permissionId,
+      createdAt: new Date(),
+    };
+
+    rolePermissions.set(key, Cloner.deepClone(rolePermission));
+    return rolePermission;
+  }
+
+  async revokePermission(roleId: string, permissionId: string): Promise<boolean> {
+    const roleIdError = Validator.validateId(roleId);
+    const permissionIdError = Validator.validateId(permissionId);
+    if (roleIdError || permissionIdError) {
+      throw new ValidationFailedError([roleIdError, permissionIdError]);
+    }
+
+    return this.getRolePermissionMap().delete(`${roleId}:${permissionId}`);
+  }
+
+  async getRolePermissions(roleId: string): Promise<Permission[]> {
+    const validationError = Validator.validateId(roleId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const permissions = this.getPermissionMap();
+    const permissionIds = new Set<string>();
+
+    for (const rolePermission of this.getRolePermissionMap().values()) {
+      if (rolePermission.roleId === roleId) {
+        permissionIds.add(rolePermission.permissionId);
+      }
+    }
+
+    return Array.from(permissionIds)
+      .map(permissionId => permissions.get(permissionId))
+      .filter((permission): permission is Permission => permission !== undefined)
+      .map(permission => Cloner.deepClone(permission));
+  }
+
+  async createAuditEntry(entryData: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    const entry: AuditEntry = { ...entryData, id: IdGenerator.generate() };
+    this.getAuditEntryMap().set(entry.id, Cloner.deepClone(entry));
+    return entry;
+  }
+
+  async getAuditEntries(query?: AuditQuery): Promise<AuditEntry[]> {
+    const validationError = Validator.validateAuditQuery(query);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return Array.from(this.getAuditEntryMap().values())
+      .filter(entry => AuditTrail.matches(entry, query))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(entry => Cloner.deepClone(entry));
+  }
+
+  async deleteAuditEntries(before: Date, tenantId?: string): Promise<number> {
+    const validationError = Validator.validateDate(before, 'before') || Validator.validateTenantId(tenantId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const entries = this.getAuditEntryMap();
+    let deleted = 0;
+
+    for (const [id, entry] of entries.entries()) {
+      if (entry.timestamp < before && (tenantId === undefined || entry.tenantId === tenantId)) {
+        entries.delete(id);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  async readRecords<C extends DataCollection>(
+    collection: C,
+    page?: RecordPage
+  ): Promise<{ items: Array<DataRecords[C]>; total: number }> {
+    const validationError = Records.validateCollection(collection) || Records.validatePage(page);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const data = this.getData();
+    const records = Array.from((data[collection] as Map<string, DataRecords[C]>).values());
+    const owned = Records.owned(collection, records, page, {
+      groups: data.groups.values(),
+      roles: data.roles.values(),
+    });
+    const { items, total } = Records.page(owned, page);
+    return { items: items.map(record => Cloner.deepClone(record)), total };
+  }
+
+  async writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void> {
+    const validationError = Records.validateCollection(collection);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const stored = this.getData()[collection] as Map<string, DataRecords[C]>;
+    for (const record of records) {
+      stored.set(Records.key(collection, record), Cloner.deepClone(record));
+    }
+  }
+
+  private getActiveUserRoles(): UserRole[] {
+    const now = this.clock();
+    return Array.from(this.getUserRoleMap().values()).filter(userRole => Assignments.isActive(userRole, now));
+  }
+
+  private getMemberGroupIds(userId: string): Set<string> {
+    const groupIds = new Set<string>();
+    for (const groupMember of this.getGroupMemberMap().values()) {
+      if (groupMember.userId === userId) {
+        groupIds.add(groupMember.groupId);
+      }
+    }
+
+    return groupIds;
+  }
+
+  private getParentRoles(parentIds: string[] | undefined): Role[] {
+    const roles = this.getRoleMap();
+    return (parentIds || []).map(parentId => roles.get(parentId)).filter((role): role is Role => role !== undefined);
+  }
+
+  private getParentIds(roleId: string): string[] | undefined {
+    const role = this.getRoleMap().get(roleId);
+    return role ? role.parentIds || [] : undefined;
+  }
+
+  private includeUserRelations(users: User[], options?: IncludeOptions): User[] {
+    if (!options?.include?.includes('roles')) {
+      return users;
+    }
+
+    const roles = this.getRoleMap();
+    return Relations.attachRoles(users, this.getActiveUserRoles(), id => roles.get(id));
+  }
+
+  private includeRoleRelations(roles: Role[], options?: IncludeOptions): Role[] {
+    if (!options?.include?.includes('users')) {
+      return roles;
+    }
+
+    const users = this.getUserMap();
+    return Relations.attachUsers(roles, this.getActiveUserRoles(), id => users.get(id));
+  }
+
+  async getTagKeys(target?: TagTarget): Promise<string[]> {
+    return TagUtils.keys(this.getTaggedEntities(target).map(entity => entity.tags));
+  }
+
+  async getTagValues(key: string, target?: TagTarget): Promise<TagValue[]> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return TagUtils.values(this.getTaggedEntities(target).map(entity => entity.tags), key);
+  }
+
+  async renameTagKey(from: string, to: string, target?: TagTarget): Promise<number> {
+    const fromError = Validator.validateTagKey(from, 'from');
+    const toError = Validator.validateTagKey(to, 'to');
+    if (fromError || toError) {
+      throw new ValidationFailedError([fromError, toError]);
+    }
+
+    const renameError = TagUtils.validateRename(this.getTaggedEntities(target).map(entity => entity.tags), from, to);
+    if (renameError) {
+      throw new ValidationFailedError([renameError]);
+    }
+
+    return this.updateTags(target, tags => TagUtils.rename(tags, from, to));
+  }
+
+  async removeTagKey(key: string, target?: TagTarget): Promise<number> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return this.updateTags(target, tags => TagUtils.remove(tags, key));
+  }
+
+  private getTaggedEntities(target?: TagTarget): Array<User | Role> {
+    return [
+      ...(target !== 'roles' ? Array.from(this.getUserMap().values()) : []),
+      ...(target !== 'users' ? Array.from(this.getRoleMap().values()) : []),
+    ];
+  }
+
+  private updateTags(target: TagTarget | undefined, update: (tags: Tag | undefined) => Tag | null): number {
+    const now = new Date();
+    const users = target !== 'roles' ? TagUtils.rewrite(this.getUserMap().values(), update, now) : [];
+    const roles = target !== 'users' ? TagUtils.rewrite(this.getRoleMap().values(), update, now) : [];
+
+    const conflict =
+      UniqueConstraints.findRewriteConflict(
+        'user',
+        UniqueConstraints.tagFields(UniqueConstraints.userFields(this.uniqueFields)),
+        this.getUserMap().values(),
+        users
+      ) ||
+      UniqueConstraints.findRewriteConflict(
+        'role',
+        UniqueConstraints.tagFields(UniqueConstraints.roleFields(this.uniqueFields)),
+        this.getRoleMap().values(),
+        roles
+      );
+    if (conflict) {
+      throw conflict;
+    }
+
+    // Entities are replaced rather than mutated, since transaction snapshots share them
+    users.forEach(user => this.getUserMap().set(user.id, user));
+    roles.forEach(role => this.getRoleMap().set(role.id, role));
+    return users.length + roles.length;
   }
 }
@@ -0,0 +1,2368 @@
+import {
+  StorageAdapter,
+  User,
+  Role,
+  UserRole,
+  AssignRoleOptions,
+  AssignmentQuery,
+  AuditEntry,
+  AuditQuery,
+  Clock,
+  Group,
+  GroupMember,
+  GroupRole,
+  Permission,
+  RolePermission,
+  QueryOptions,
+  IncludeOptions,
+  HierarchyOptions,
+  QueryFilter,
+  FilterCondition,
+  FilterOperators,
+  FilterValue,
+  TagTarget,
+  TagValue,
+  TransactionHandle,
+  DataCollection,
+  DataRecords,
+  RecordPage,
+  UniqueFieldsConfig,
+  VersionOptions,
+  MigrationOptions,
+  MigrationReport,
+  MigrationSet,
+} from '../types';
+import { IdGenerator } from '../utils/idGenerator';
+import { Validator } from '../utils/validation';
+import { FilterMatcher } from '../utils/queryFilter';
+import { TagUtils } from '../utils/tags';
+import { USER_RELATIONS, ROLE_RELATIONS } from '../utils/relations';
+import { RoleHierarchy } from '../utils/roleHierarchy';
+import { Assignments, systemClock } from '../utils/assignments';
+import { Tenancy } from '../utils/tenancy';
+import { UniqueConstraints } from '../utils/uniqueness';
+import { Versioning } from '../utils/versioning';
+import { Transactions, TransactionTracker, TransactionState } from '../utils/transactions';
+import { Records, DATA_COLLECTIONS } from '../utils/records';
+import { Migrator } from '../utils/migrations';
+import {
+  ValidationFailedError,
+  NotFoundError,
+  ConflictError,
+  VersionConflictError,
+  NotInitializedError,
+  MigrationError,
+  TransactionError,
+} from '../errors';
+import type BetterSqlite3 from 'better-sqlite3';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+type SqlValue = string | number | null;
+
+// SQL for a queryable field: its value and its type as 'string', 'number', 'boolean' or 'null'
+interface FieldExpression {
+  value: string;
+  type: string;
+}
+
+interface UserRow {
+  id: string;
+  tenant_id: string | null;
+  username: string;
+  email: string;
+  password_hash: string | null;
+  tags: string | null;
+  version: number;
+  created_at: number;
+  updated_at: number;
+}
+
+interface RoleRow {
+  id: string;
+  tenant_id: string | null;
+  name: string;
+  description: string | null;
+  parent_ids: string | null;
+  tags: string | null;
+  version: number;
+  created_at: number;
+  updated_at: number;
+}
+
+// A related row tagged with the id of the entity it is attached to
+type OwnedRow<R> = R & { owner_id: string };
+
+interface UserRoleRow {
+  user_id: string;
+  role_id: string;
+  tenant_id: string | null;
+  valid_from: number | null;
+  valid_until: number | null;
+  created_at: number;
+}
+
+interface GroupRow {
+  id: string;
+  tenant_id: string | null;
+  name: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface GroupMemberRow {
+  group_id: string;
+  user_id: string;
+  created_at: number;
+}
+
+interface GroupRoleRow {
+  group_id: string;
+  role_id: string;
+  created_at: number;
+}
+
+interface PermissionRow {
+  id: string;
+  action: string;
+  resource: string;
+  description: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface RolePermissionRow {
+  role_id: string;
+  permission_id: string;
+  created_at: number;
+}
+
+interface AuditEntryRow {
+  id: string;
+  actor: string | null;
+  action: string;
+  target: string;
+  tenant_id: string | null;
+  before_state: string | null;
+  after_state: string | null;
+  correlation_id: string;
+  timestamp: number;
+}
+
+// Where the records of a collection are stored, the columns that key them, the condition that picks
+// a tenant's records and how they map to rows
+interface RecordTable<T> {
+  table: string;
+  key: string[];
+  tenant: string | null;
+  toRow(record: T): object;
+  fromRow(row: unknown): T;
+}
+
+const USER_COLUMNS: Record<string, string> = {
+  id: 'id',
+  tenantId: 'tenant_id',
+  username: 'username',
+  email: 'email',
+  passwordHash: 'password_hash',
+  tags: 'tags',
+  version: 'version',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const ROLE_COLUMNS: Record<string, string> = {
+  id: 'id',
+  tenantId: 'tenant_id',
+  name: 'name',
+  description: 'description',
+  tags: 'tags',
+  version: 'version',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const GROUP_COLUMNS: Record<string, string> = {
+  id: 'id',
+  tenantId: 'tenant_id',
+  name: 'name',
+  description: 'description',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const PERMISSION_COLUMNS: Record<string, string> = {
+  id: 'id',
+  action: 'action',
+  resource: 'resource',
+  description: 'description',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT,
+    username TEXT NOT NULL,
+    email TEXT NOT NULL,
+    password_hash TEXT,
+    tags TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_users_username ON users (username);
+  CREATE INDEX IF NOT EXISTS idx_users_email ON users (email);
+  CREATE INDEX IF NOT EXISTS idx_users_created_at ON users (created_at);
+
+  CREATE TABLE IF NOT EXISTS roles (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT,
+    name TEXT NOT NULL,
+    description TEXT,
+    parent_ids TEXT,
+    tags TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_roles_name ON roles (name);
+  CREATE INDEX IF NOT EXISTS idx_roles_created_at ON roles (created_at);
+
+  CREATE TABLE IF NOT EXISTS user_roles (
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    role_id TEXT NOT NULL REFERENCES roles (id) ON DELETE CASCADE,
+    tenant_id TEXT,
+    valid_from INTEGER,
+    valid_until INTEGER,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, role_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_user_roles_role_id ON user_roles (role_id);
+
+  CREATE TABLE IF NOT EXISTS groups (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT,
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_groups_name ON groups (name);
+
+  CREATE TABLE IF NOT EXISTS group_members (
+    group_id TEXT NOT NULL REFERENCES groups (id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (group_id, user_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON group_members (user_id);
+
+  CREATE TABLE IF NOT EXISTS group_roles (
+    group_id TEXT NOT NULL REFERENCES groups (id) ON DELETE CASCADE,
+    role_id TEXT NOT NULL REFERENCES roles (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (group_id, role_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_group_roles_role_id ON group_roles (role_id);
+
+  CREATE TABLE IF NOT EXISTS permissions (
+    id TEXT PRIMARY KEY,
+    action TEXT NOT NULL,
+    resource TEXT NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_permissions_resource ON permissions (resource);
+
+  CREATE TABLE IF NOT EXISTS role_permissions (
+    role_id TEXT NOT NULL REFERENCES roles (id) ON DELETE CASCADE,
+    permission_id TEXT NOT NULL REFERENCES permissions (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (role_id, permission_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_role_permissions_permission_id ON role_permissions (permission_id);
+
+  CREATE TABLE IF NOT EXISTS audit_entries (
+    id TEXT PRIMARY KEY,
+    actor TEXT,
+    action TEXT NOT NULL,
+    target TEXT NOT NULL,
+    tenant_id TEXT,
+    before_state TEXT,
+    after_state TEXT,
+    correlation_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_entries_target ON audit_entries (target);
+  CREATE INDEX IF NOT EXISTS idx_audit_entries_timestamp ON audit_entries (timestamp);
+
+  CREATE TABLE IF NOT EXISTS schema_versions (
+    scope TEXT PRIMARY KEY,
+    version INTEGER NOT NULL
+  );
+`;
+
+// Columns added after the first release, created on databases that predate them
+const ADDED_COLUMNS: Array<[table: string, column: string, type: string]> = [
+  ['roles', 'parent_ids', 'TEXT'],
+  ['user_roles', 'valid_from', 'INTEGER'],
+  ['user_roles', 'valid_until', 'INTEGER'],
+  ['users', 'tenant_id', 'TEXT'],
+  ['roles', 'tenant_id', 'TEXT'],
+  ['user_roles', 'tenant_id', 'TEXT'],
+  ['groups', 'tenant_id', 'TEXT'],
+  ['users', 'version', 'INTEGER NOT NULL DEFAULT 1'],
+  ['roles', 'version', 'INTEGER NOT NULL DEFAULT 1'],
+];
+
+// Indexes over added columns, created once the columns exist
+const ADDED_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_users_tenant_id ON users (tenant_id, username);
+  CREATE INDEX IF NOT EXISTS idx_roles_tenant_id ON roles (tenant_id);
+  CREATE INDEX IF NOT EXISTS idx_groups_tenant_id ON groups (tenant_id);
+`;
+
+// A nested transaction is a savepoint inside the outermost one
+interface SqliteTransaction extends TransactionState<SqliteTransaction> {
+  savepoint: string | null;
+}
+
+export class SqliteAdapter implements StorageAdapter {
+  private filename: string;
+  private db: BetterSqlite3.Database | null = null;
+  private clock: Clock;
+  private uniqueFields?: UniqueFieldsConfig;
+  private transactions = new TransactionTracker<SqliteTransaction>();
+  // The outermost transaction on the connection, settled once it ends
+  private active: { transaction: SqliteTransaction; ended: Promise<void>; end: () => void } | null = null;
+  private savepoints = 0;
+
+  constructor(options?: { filename?: string; clock?: Clock; uniqueFields?: UniqueFieldsConfig }) {
+    this.filename = options?.filename || path.join(process.cwd(), '.user-management-data', 'data.sqlite');
+    this.clock = options?.clock || systemClock;
+    this.uniqueFields = options?.uniqueFields;
+  }
+
+  // Pending migrations of the scopes passed in run before the data is used
+  async initialize(options?: { filename?: string; migrations?: MigrationSet }): Promise<void> {
+    if (options?.filename) {
+      this.filename = options.filename;
+    }
+
+    const { fresh } = await this.open();
+    try {
+      await this.runMigrations(fresh, options?.migrations ?? {});
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  // Runs pending migrations ahead of initialize, or with dryRun only reports them
+  async migrate(migrations: MigrationSet = {}, options?: MigrationOptions): Promise<MigrationReport> {
+    if (this.db) {
+      throw new MigrationError('The store is open; migrate before initialize');
+    }
+
+    const { fresh } = await this.open();
+    try {
+      return await this.runMigrations(fresh, migrations, options);
+    } finally {
+      this.close();
+    }
+  }
+
+  // Creates the tables a database is missing; fresh tells whether it had none
+  private async open(): Promise<{ fresh: boolean }> {
+    if (this.filename !== ':memory:') {
+      await fs.mkdir(path.dirname(this.filename), { recursive: true });
+    }
+
+    // Loaded lazily so the native module is only required when this adapter is used
+    const { default: Database } = await import('better-sqlite3');
+    this.db = new Database(this.filename);
+    this.db.pragma('foreign_keys = ON');
+    if (this.filename !== ':memory:') {
+      this.db.pragma('journal_mode = WAL');
+    }
+    this.db.function('regexp_match', { deterministic: true }, (value: unknown, source: unknown, flags: unknown) =>
+      typeof value === 'string' && new RegExp(source as string, flags as string).test(value) ? 1 : 0
+    );
+    // SQLite's lower() only folds ASCII, this matches the case-insensitive comparison of the other adapters
+    this.db.function('unicode_lower', { deterministic: true }, (value: unknown) =>
+      typeof value === 'string' ? value.toLowerCase() : (value as SqlValue)
+    );
+    const fresh = !this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users'`).get();
+    this.db.exec(SCHEMA);
+
+    for (const [table, column, type] of ADDED_COLUMNS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some(existing => existing.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+    this.db.exec(ADDED_INDEXES);
+    return { fresh };
+  }
+
+  private close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  // Migrations change the data as one document, every collection an array of plain JSON objects, which
+  // replaces the tables' rows once they all ran. The database is backed up first. A database created just
+  // now starts at the latest versions, since there is nothing to migrate.
+  private async runMigrations(
+    fresh: boolean,
+    migrations: MigrationSet,
+    options?: MigrationOptions
+  ): Promise<MigrationReport> {
+    const db = this.getDb();
+    if (fresh) {
+      if (!options?.dryRun) {
+        this.saveSchemaVersions(Migrator.latest(migrations));
+      }
+      return Migrator.nothingToDo(options?.dryRun);
+    }
+
+    const rows = db.prepare('SELECT scope, version FROM schema_versions').raw().all() as Array<[string, number]>;
+    const versions: Record<string, number> = Object.fromEntries(rows);
+    // Without anything pending only the versions are checked, so the data is not read
+    const document: Record<string, unknown> = Migrator.pending(versions, migrations) ? await this.toDocument() : {};
+    document.schemaVersions = versions;
+    const report = await Migrator.run(document, migrations, options?.dryRun);
+    if (report.applied.length === 0 || report.dryRun) {
+      return report;
+    }
+
+    const backupPath =
+      this.filename === ':memory:'
+        ? undefined
+        : `${this.filename}.${this.clock().toISOString().replace(/[:.]/g, '-')}.bak`;
+    if (backupPath) {
+      await db.backup(backupPath);
+    }
+
+    try {
+      db.transaction(() => {
+        this.replaceRecords(document);
+        this.saveSchemaVersions(report.to);
+      })();
+    } catch (error) {
+      throw new MigrationError(`The migrated data could not be stored: ${error}`, undefined, undefined, error);
+    }
+    return backupPath ? { ...report, backupPath } : report;
+  }
+
+  private async toDocument(): Promise<Record<string, unknown>> {
+    const document: Record<string, unknown> = {};
+    for (const collection of DATA_COLLECTIONS) {
+      document[collection] = JSON.parse(JSON.stringify((await this.readRecords(collection)).items));
+    }
+    return document;
+  }
+
+  // Fields the tables have no column for are not kept
+  private replaceRecords(document: Record<string, unknown>): void {
+    const db = this.getDb();
+    for (const collection of [...DATA_COLLECTIONS].reverse()) {
+      db.exec(`DELETE FROM ${this.recordTable(collection).table}`);
+    }
+    for (const collection of DATA_COLLECTIONS) {
+      const records = (document[collection] ?? []) as Array<DataRecords[typeof collection]>;
+      this.insertRecords(collection, records.map(record => Records.revive(collection, record)));
+    }
+  }
+
+  private saveSchemaVersions(versions: Record<string, number>): void {
+    const db = this.getDb();
+    const insert = db.prepare('INSERT OR REPLACE INTO schema_versions (scope, version) VALUES (?, ?)');
+    db.transaction(() => {
+      db.exec('DELETE FROM schema_versions');
+      Object.entries(versions).forEach(([scope, version]) => insert.run(scope, version));
+    })();
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.db) {
+      return;
+    }
+
+    if (this.active) {
+      this.db.exec('ROLLBACK');
+      this.endActive();
+      this.transactions = new TransactionTracker<SqliteTransaction>();
+    }
+
+    this.db.close();
+    this.db = null;
+  }
+
+  // The connection holds one transaction at a time, so beginning another waits until it ends. Outside
+  // any run the caller is already in the transaction begun there and would wait for itself, so that throws.
+  async beginTransaction(): Promise<TransactionHandle> {
+    const db = this.getDb();
+    if (this.transactions.sharing) {
+      throw new TransactionError('Transaction already in progress');
+    }
+
+    while (!this.transactions.nests && this.active) {
+      await this.active.ended;
+    }
+
+    const transaction = this.transactions.begin(parent => ({
+      parent,
+      nested: 0,
+      ended: false,
+      savepoint: parent ? `nested_${++this.savepoints}` : null,
+    }));
+    db.exec(transaction.savepoint ? `SAVEPOINT ${transaction.savepoint}` : 'BEGIN');
+
+    if (!transaction.parent) {
+      let end!: () => void;
+      const ended = new Promise<void>(resolve => (end = resolve));
+      this.active = { transaction, ended, end };
+    }
+
+    return this.transactions.handle(transaction, {
+      commit: async () => this.commitTransaction(transaction),
+      rollback: async () => this.rollbackTransaction(transaction),
+    });
+  }
+
+  async commit(): Promise<void> {
+    this.commitTransaction(this.transactions.innermost());
+  }
+
+  async rollback(): Promise<void> {
+    this.rollbackTransaction(this.transactions.innermost());
+  }
+
+  // Calls made elsewhere while fn runs wait until its transaction ends rather than take part in it
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.transactions.run(() => Transactions.run(this, fn));
+  }
+
+  private commitTransaction(transaction: SqliteTransaction): void {
+    this.transactions.end(transaction);
+    this.getDb().exec(transaction.savepoint ? `RELEASE ${transaction.savepoint}` : 'COMMIT');
+    if (!transaction.parent) {
+      this.endActive();
+    }
+  }
+
+  private rollbackTransaction(transaction: SqliteTransaction): void {
+    this.transactions.end(transaction);
+    const { savepoint } = transaction;
+    this.getDb().exec(savepoint ? `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}` : 'ROLLBACK');
+    if (!transaction.parent) {
+      this.endActive();
+    }
+  }
+
+  private endActive(): void {
+    this.active?.end();
+    this.active = null;
+  }
+
+  // The connection holds one transaction at a time, so calls outside it wait until it ends and are not
+  // rolled back with it. Nothing may yield between this and the statements it lets run.
+  private async awaitTurn(): Promise<void> {
+    while (this.active && !this.transactions.current()) {
+      await this.active.ended;
+    }
+  }
+
+  private findRow<R>(table: string, id: string): R | undefined {
+    return this.getDb().prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id) as R | undefined;
+  }
+
+  private getDb(): BetterSqlite3.Database {
+    if (!this.db) {
+      throw new NotInitializedError('SqliteAdapter not initialized. Call initialize() first.');
+    }
+
+    return this.db;
+  }
+
+  async createUser(data: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
+    await this.awaitTurn();
+
+    const userData = UniqueConstraints.normalizeUser(data);
+    const validationErrors = Validator.validateUser(userData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const conflict = this.findConflict('user', USER_COLUMNS, userData, UniqueConstraints.userFields(this.uniqueFields));
+    if (conflict) {
+      throw conflict;
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const user: User = {
+      ...userData,
+      id,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getDb()
+      .prepare(
+        `INSERT INTO users (id, tenant_id, username, email, password_hash, tags, version, created_at, updated_at)
+         VALUES (@id, @tenant_id, @username, @email, @password_hash, @tags, @version, @created_at, @updated_at)`
+      )
+      .run(this.userToRow(user));
+    return user;
+  }
+
+  async getUserById(id: string, options?: IncludeOptions): Promise<User | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id) || Validator.validateInclude(options?.include, USER_RELATIONS);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<UserRow>('users', id);
+    return row ? this.includeUserRelations([this.rowToUser(row)], options)[0] : null;
+  }
+
+  async getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }> {
+    await this.awaitTurn();
+
+    const validationError =
+      Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, USER_RELATIONS);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const { rows, total } = this.query<UserRow>('users', USER_COLUMNS, options);
+    return { items: this.includeUserRelations(rows.map(row => this.rowToUser(row)), options), total };
+  }
+
+  async updateUser(id: string, data: Partial<User>, options?: VersionOptions): Promise<User | null> {
+    await this.awaitTurn();
+
+    const userData = UniqueConstraints.normalizeUser(data);
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<UserRow>('users', id);
+    if (!row) {
+      return null;
+    }
+    const user = this.rowToUser(row);
+
+    const versionConflict = Versioning.findConflict('user', user, options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    const updatedUser: User = {
+      ...user,
+      ...userData,
+      id,
+      version: user.version + 1,
+      updatedAt: new Date(),
+    };
+
+    const validationErrors = Validator.validateUser(updatedUser);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(user, userData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const conflict = this.findConflict(
+      'user',
+      USER_COLUMNS,
+      updatedUser,
+      UniqueConstraints.userFields(this.uniqueFields),
+      id
+    );
+    if (conflict) {
+      throw conflict;
+    }
+
+    // The version guard catches writes by other connections to the same database since the row was read
+    const result = this.getDb()
+      .prepare(
+        `UPDATE users
+         SET username = @username, email = @email, password_hash = @password_hash, tags = @tags,
+             version = @version, created_at = @created_at, updated_at = @updated_at
+         WHERE id = @id AND version = @version - 1`
+      )
+      .run(this.userToRow(updatedUser));
+    if (result.changes === 0) {
+      const staleVersion = this.findVersionConflict('user', 'users', id, user.version);
+      if (staleVersion) {
+        throw staleVersion;
+      }
+      return null;
+    }
+    return updatedUser;
+  }
+
+  async deleteUser(id: string, options?: VersionOptions): Promise<boolean> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    // User roles and group memberships are removed by the ON DELETE CASCADE foreign keys
+    const expectedVersion = options?.expectedVersion ?? null;
+    const result = this.getDb()
+      .prepare('DELETE FROM users WHERE id = ? AND (? IS NULL OR version = ?)')
+      .run(id, expectedVersion, expectedVersion);
+    if (result.changes === 0 && expectedVersion !== null) {
+      const versionConflict = this.findVersionConflict('user', 'users', id, expectedVersion);
+      if (versionConflict) {
+        throw versionConflict;
+      }
+    }
+    return result.changes > 0;
+  }
+
+  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role> {
+    await this.awaitTurn();
+
+    const validationErrors = Validator.validateRole(roleData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const hierarchyError =
+      RoleHierarchy.validateParents(null, roleData.parentIds, id => this.getParentIds(id)) ||
+      Tenancy.validateParents(roleData, this.getParentRoles(roleData.parentIds));
+    if (hierarchyError) {
+      throw new ValidationFailedError([hierarchyError]);
+    }
+
+    const conflict = this.findConflict('role', ROLE_COLUMNS, roleData, UniqueConstraints.roleFields(this.uniqueFields));
+    if (conflict) {
+      throw conflict;
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const role: Role = {
+      ...roleData,
+      id,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getDb()
+      .prepare(
+        `INSERT INTO roles (id, tenant_id, name, description, parent_ids, tags, version, created_at, updated_at)
+         VALUES (@id, @tenant_id, @name, @description, @parent_ids, @tags, @version, @created_at, @updated_at)`
+      )
+      .run(this.roleToRow(role));
+    return role;
+  }
+
+  async getRoleById(id: string, options?: IncludeOptions): Promise<Role | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id) || Validator.validateInclude(options?.include, ROLE_RELATIONS);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<RoleRow>('roles', id);
+    return row ? this.includeRoleRelations([this.rowToRole(row)], options)[0] : null;
+  }
+
+  async getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }> {
+    await this.awaitTurn();
+
+    const validationError =
+      Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, ROLE_RELATIONS);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const { rows, total } = this.query<RoleRow>('roles', ROLE_COLUMNS, options);
+    return { items: this.includeRoleRelations(rows.map(row => this.rowToRole(row)), options), total };
+  }
+
+  async updateRole(id: string, roleData: Partial<Role>, options?: VersionOptions): Promise<Role | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<RoleRow>('roles', id);
+    if (!row) {
+      return null;
+    }
+    const role = this.rowToRole(row);
+
+    const versionConflict = Versioning.findConflict('role', role, options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    const updatedRole: Role = {
+      ...role,
+      ...roleData,
+      id,
+      version: role.version + 1,
+      updatedAt: new Date(),
+    };
+
+    const validationErrors = Validator.validateRole(updatedRole);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(role, roleData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    const hierarchyError =
+      RoleHierarchy.validateParents(id, updatedRole.parentIds, parentId => this.getParentIds(parentId)) ||
+      Tenancy.validateParents(updatedRole, this.getParentRoles(updatedRole.parentIds));
+    if (hierarchyError) {
+      throw new ValidationFailedError([hierarchyError]);
+    }
+
+    const conflict = this.findConflict(
+      'role',
+      ROLE_COLUMNS,
+      updatedRole,
+      UniqueConstraints.roleFields(this.uniqueFields),
+      id
+    );
+    if (conflict) {
+      throw conflict;
+    }
+
+    const result = this.getDb()
+      .prepare(
+        `UPDATE roles
+         SET name = @name, description = @description, parent_ids = @parent_ids, tags = @tags,
+             version = @version, created_at = @created_at, updated_at = @updated_at
+         WHERE id = @id AND version = @version - 1`
+      )
+      .run(this.roleToRow(updatedRole));
+    if (result.changes === 0) {
+      const staleVersion = this.findVersionConflict('role', 'roles', id, role.version);
+      if (staleVersion) {
+        throw staleVersion;
+      }
+      return null;
+    }
+    return updatedRole;
+  }
+
+  async deleteRole(id: string, options?: VersionOptions): Promise<boolean> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id) || Versioning.validateOptions(options);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const db = this.getDb();
+    const deleted = db.prepare('SELECT * FROM roles WHERE id = ?').get(id) as RoleRow | undefined;
+    if (!deleted) {
+      return false;
+    }
+
+    const versionConflict = Versioning.findConflict('role', this.rowToRole(deleted), options);
+    if (versionConflict) {
+      throw versionConflict;
+    }
+
+    // Runs as a savepoint when an outer transaction is already open
+    db.transaction(() => {
+      // Child roles take over the deleted role's parents, so they keep what they inherited through it
+      const children = db
+        .prepare('SELECT * FROM roles WHERE EXISTS (SELECT 1 FROM json_each(roles.parent_ids) WHERE value = ?)')
+        .all(id) as RoleRow[];
+      const updateParents = db.prepare(
+        'UPDATE roles SET parent_ids = ?, version = version + 1, updated_at = ? WHERE id = ?'
+      );
+      const now = Date.now();
+      for (const child of children) {
+        const parentIds = RoleHierarchy.reparent(this.rowToRole(child).parentIds!, this.rowToRole(deleted));
+        updateParents.run(JSON.stringify(parentIds), now, child.id);
+      }
+
+      // User roles, group roles and permission grants are removed by the ON DELETE CASCADE foreign keys
+      db.prepare('DELETE FROM roles WHERE id = ?').run(id);
+    })();
+    return true;
+  }
+
+  async assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole> {
+    await this.awaitTurn();
+
+    const userIdError = Validator.validateId(userId);
+    const roleIdError = Validator.validateId(roleId);
+    if (userIdError || roleIdError) {
+      throw new ValidationFailedError([userIdError, roleIdError]);
+    }
+
+    const assignmentErrors = Validator.validateAssignment(options);
+    if (assignmentErrors.length > 0) {
+      throw new ValidationFailedError(assignmentErrors);
+    }
+
+    const db = this.getDb();
+    const user = this.getTenantRow('users', userId);
+    const role = this.getTenantRow('roles', roleId);
+    if (!user) {
+      throw new NotFoundError('user', userId);
+    }
+
+    if (!role) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (user.tenant_id !== role.tenant_id) {
+      throw new ValidationFailedError([{ field: 'roleId', message: 'User and role belong to different tenants' }]);
+    }
+
+    // Re-assigning a role replaces its validity window but keeps the original created_at
+    db.prepare(
+      `INSERT INTO user_roles (user_id, role_id, tenant_id, valid_from, valid_until, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (user_id, role_id)
+       DO UPDATE SET valid_from = excluded.valid_from, valid_until = excluded.valid_until`
+    ).run(
+      userId,
+      roleId,
+      user.tenant_id,
+      options?.validFrom?.getTime() ?? null,
+      options?.validUntil?.getTime() ?? null,
+      Date.now()
+    );
+
+    const row = db
+      .prepare('SELECT * FROM user_roles WHERE user_id = ? AND role_id = ?')
+      .get(userId, roleId) as UserRoleRow;
+    return this.rowToUserRole(row);
+  }
+
+  async removeRole(userId: string, roleId: string): Promise<boolean> {
+    await this.awaitTurn();
+
+    const userIdError = Validator.validateId(userId);
+    const roleIdError = Validator.validateId(roleId);
+    if (userIdError || roleIdError) {
+      throw new ValidationFailedError([userIdError, roleIdError]);
+    }
+
+    const result = this.getDb()
+      .prepare('DELETE FROM user_roles WHERE user_id = ? AND role_id = ?')
+      .run(userId, roleId);
+    return result.changes > 0;
+  }
+
+  async purgeExpiredAssignments(): Promise<UserRole[]> {
+    await this.awaitTurn();
+
+    const db = this.getDb();
+    const now = this.clock().getTime();
+
+    // Runs as a savepoint when an outer transaction is already open
+    const rows = db.transaction(() => {
+      const expired = db
+        .prepare('SELECT * FROM user_roles WHERE valid_until <= ? ORDER BY rowid')
+        .all(now) as UserRoleRow[];
+      db.prepare('DELETE FROM user_roles WHERE valid_until <= ?').run(now);
+      return expired;
+    })();
+    return rows.map(row => this.rowToUserRole(row));
+  }
+
+  async getAssignments(query: AssignmentQuery): Promise<UserRole[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateAssignmentQuery(query);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    // Only the ids given are compared, so the lookup can use the key or the role index
+    const conditions = [
+      ...(query.userId !== undefined ? ['user_id = @userId'] : []),
+      ...(query.roleId !== undefined ? ['role_id = @roleId'] : []),
+    ];
+    const rows = this.getDb()
+      .prepare(`SELECT * FROM user_roles WHERE ${conditions.join(' AND ')} ORDER BY rowid`)
+      .all(query) as UserRoleRow[];
+    return rows.map(row => this.rowToUserRole(row));
+  }
+
+  async getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(userId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    if (options?.effective) {
+      const rows = this.getDb()
+        .prepare(
+          `WITH RECURSIVE effective (id) AS (
+             SELECT role_id FROM user_roles ur WHERE ur.user_id = ? AND ${this.activeAssignment('ur')}
+             UNION
+             SELECT gr.role_id FROM group_roles gr
+             JOIN group_members gm ON gm.group_id = gr.group_id
+             WHERE gm.user_id = ?
+             UNION
+             SELECT j.value FROM effective e, roles r, json_each(r.parent_ids) j WHERE r.id = e.id
+           )
+           SELECT * FROM roles WHERE id IN (SELECT id FROM effective) ORDER BY rowid`
+        )
+        .all(userId, ...this.activeAssignmentParams(), userId) as RoleRow[];
+      return rows.map(row => this.rowToRole(row));
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT r.* FROM roles r
+         JOIN user_roles ur ON ur.role_id = r.id
+         WHERE ur.user_id = ? AND ${this.activeAssignment('ur')}
+         ORDER BY ur.rowid`
+      )
+      .all(userId, ...this.activeAssignmentParams()) as RoleRow[];
+    return rows.map(row => this.rowToRole(row));
+  }
+
+  async getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(roleId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    if (options?.effective) {
+      const rows = this.getDb()
+        .prepare(
+          `WITH RECURSIVE descendants (id) AS (
+             SELECT ?
+             UNION
+             SELECT r.id FROM descendants d, roles r, json_each(r.parent_ids) j WHERE j.value = d.id
+           )
+           SELECT * FROM users
+           WHERE id IN (
+             SELECT user_id FROM user_roles ur
+             WHERE ur.role_id IN (SELECT id FROM descendants) AND ${this.activeAssignment('ur')}
+             UNION
+             SELECT gm.user_id FROM group_members gm
+             JOIN group_roles gr ON gr.group_id = gm.group_id
+             WHERE gr.role_id IN (SELECT id FROM descendants)
+           )
+           ORDER BY rowid`
+        )
+        .all(roleId, ...this.activeAssignmentParams()) as UserRow[];
+      return rows.map(row => this.rowToUser(row));
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT u.* FROM users u
+         JOIN user_roles ur ON ur.user_id = u.id
+         WHERE ur.role_id = ? AND ${this.activeAssignment('ur')}
+         ORDER BY ur.rowid`
+      )
+      .all(roleId, ...this.activeAssignmentParams()) as UserRow[];
+    return rows.map(row => this.rowToUser(row));
+  }
+
+  async createGroup(groupData: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group> {
+    await this.awaitTurn();
+
+    const validationErrors = Validator.validateGroup(groupData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const group: Group = {
+      ...groupData,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getDb()
+      .prepare(
+        `INSERT INTO groups (id, tenant_id, name, description, created_at, updated_at)
+         VALUES (@id, @tenant_id, @name, @description, @created_at, @updated_at)`
+      )
+      .run(this.groupToRow(group));
+    return group;
+  }
+
+  async getGroupById(id: string): Promise<Group | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<GroupRow>('groups', id);
+    return row ? this.rowToGroup(row) : null;
+  }
+
+  async getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, []);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const { rows, total } = this.query<GroupRow>('groups', GROUP_COLUMNS, options);
+    return { items: rows.map(row => this.rowToGroup(row)), total };
+  }
+
+  async updateGroup(id: string, groupData: Partial<Group>): Promise<Group | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<GroupRow>('groups', id);
+    if (!row) {
+      return null;
+    }
+    const group = this.rowToGroup(row);
+
+    const updatedGroup: Group = {
+      ...group,
+      ...groupData,
+      id,
+      updatedAt: new Date(),
+    };
+
+    const validationErrors = Validator.validateGroup(updatedGroup);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const tenantError = Tenancy.validateUnchanged(group, groupData);
+    if (tenantError) {
+      throw new ValidationFailedError([tenantError]);
+    }
+
+    this.getDb()
+      .prepare(
+        `UPDATE groups
+         SET name = @name, description = @description, created_at = @created_at, updated_at = @updated_at
+         WHERE id = @id`
+      )
+      .run(this.groupToRow(updatedGroup));
+    return updatedGroup;
+  }
+
+  async deleteGroup(id: string): Promise<boolean> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    // Memberships and group roles are removed by the ON DELETE CASCADE foreign keys
+    const result = this.getDb().prepare('DELETE FROM groups WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<GroupMember> {
+    await this.awaitTurn();
+
+    const groupIdError = Validator.validateId(groupId);
+    const userIdError = Validator.validateId(userId);
+    if (groupIdError || userIdError) {
+      throw new ValidationFailedError([groupIdError, userIdError]);
+    }
+
+    const db = this.getDb();
+    const group = this.getTenantRow('groups', groupId);
+    const user = this.getTenantRow('users', userId);
+    if (!group) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!user) {
+      throw new NotFoundError('user', userId);
+    }
+
+    if (group.tenant_id !== user.tenant_id) {
+      throw new ValidationFailedError([{ field: 'userId', message: 'Group and user belong to different tenants' }]);
+    }
+
+    db.prepare('INSERT OR IGNORE INTO group_members (group_id, user_id, created_at) VALUES (?, ?, ?)').run(
+      groupId,
+      userId,
+      Date.now()
+    );
+
+    const row = db
+      .prepare('SELECT * FROM group_members WHERE group_id = ? AND user_id = ?')
+      .get(groupId, userId) as GroupMemberRow;
+    return {
+      groupId: row.group_id,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    await this.awaitTurn();
+
+    const groupIdError = Validator.validateId(groupId);
+    const userIdError = Validator.validateId(userId);
+    if (groupIdError || userIdError) {
+      throw new ValidationFailedError([groupIdError, userIdError]);
+    }
+
+    const result = this.getDb()
+      .prepare('DELETE FROM group_members WHERE group_id = ? AND user_id = ?')
+      .run(groupId, userId);
+    return result.changes > 0;
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(groupId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT u.* FROM users u
+         JOIN group_members gm ON gm.user_id = u.id
+         WHERE gm.group_id = ?
+         ORDER BY gm.rowid`
+      )
+      .all(groupId) as UserRow[];
+    return rows.map(row => this.rowToUser(row));
+  }
+
+  async getUserGroups(userId: string): Promise<Group[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(userId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT g.* FROM groups g
+         JOIN group_members gm ON gm.group_id = g.id
+         WHERE gm.user_id = ?
+         ORDER BY gm.rowid`
+      )
+      .all(userId) as GroupRow[];
+    return rows.map(row => this.rowToGroup(row));
+  }
+
+  async assignGroupRole(groupId: string, roleId: string): Promise<GroupRole> {
+    await this.awaitTurn();
+
+    const groupIdError = Validator.validateId(groupId);
+    const roleIdError = Validator.validateId(roleId);
+    if (groupIdError || roleIdError) {
+      throw new ValidationFailedError([groupIdError, roleIdError]);
+    }
+
+    const db = this.getDb();
+    const group = this.getTenantRow('groups', groupId);
+    const role = this.getTenantRow('roles', roleId);
+    if (!group) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!role) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (group.tenant_id !== role.tenant_id) {
+      throw new ValidationFailedError([{ field: 'roleId', message: 'Group and role belong to different tenants' }]);
+    }
+
+    db.prepare('INSERT OR IGNORE INTO group_roles (group_id, role_id, created_at) VALUES (?, ?, ?)').run(
+      groupId,
+      roleId,
+      Date.now()
+    );
+
+    const row = db
+      .prepare('SELECT * FROM group_roles WHERE group_id = ? AND role_id = ?')
+      .get(groupId, roleId) as GroupRoleRow;
+    return {
+      groupId: row.group_id,
+      roleId: row.role_id,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  async removeGroupRole(groupId: string, roleId: string): Promise<boolean> {
+    await this.awaitTurn();
+
+    const groupIdError = Validator.validateId(groupId);
+    const roleIdError = Validator.validateId(roleId);
+    if (groupIdError || roleIdError) {
+      throw new ValidationFailedError([groupIdError, roleIdError]);
+    }
+
+    const result = this.getDb()
+      .prepare('DELETE FROM group_roles WHERE group_id = ? AND role_id = ?')
+      .run(groupId, roleId);
+    return result.changes > 0;
+  }
+
+  async getGroupRoles(groupId: string): Promise<Role[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(groupId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT r.* FROM roles r
+         JOIN group_roles gr ON gr.role_id = r.id
+         WHERE gr.group_id = ?
+         ORDER BY gr.rowid`
+      )
+      .all(groupId) as RoleRow[];
+    return rows.map(row => this.rowToRole(row));
+  }
+
+  async createPermission(permissionData: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission> {
+    await this.awaitTurn();
+
+    const validationErrors = Validator.validatePermission(permissionData);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    const id = IdGenerator.generate();
+    const now = new Date();
+    const permission: Permission = {
+      ...permissionData,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.getDb()
+      .prepare(
+        `INSERT INTO permissions (id, action, resource, description, created_at, updated_at)
+         VALUES (@id, @action, @resource, @description, @created_at, @updated_at)`
+      )
+      .run(this.permissionToRow(permission));
+    return permission;
+  }
+
+  async getPermissionById(id: string): Promise<Permission | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<PermissionRow>('permissions', id);
+    return row ? this.rowToPermission(row) : null;
+  }
+
+  async getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateQueryOptions(options) || Validator.validateInclude(options?.include, []);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const { rows, total } = this.query<PermissionRow>('permissions', PERMISSION_COLUMNS, options);
+    return { items: rows.map(row => this.rowToPermission(row)), total };
+  }
+
+  async updatePermission(id: string, permissionData: Partial<Permission>): Promise<Permission | null> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const row = this.findRow<PermissionRow>('permissions', id);
+    if (!row) {
+      return null;
+    }
+    const permission = this.rowToPermission(row);
+
+    const updatedPermission: Permission = {
+      ...permission,
+      ...permissionData,
+      id,
+      updatedAt: new Date(),
+    };
+
+    const validationErrors = Validator.validatePermission(updatedPermission);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    this.getDb()
+      .prepare(
+        `UPDATE permissions
+         SET action = @action, resource = @resource, description = @description,
+             created_at = @created_at, updated_at = @updated_at
+         WHERE id = @id`
+      )
+      .run(this.permissionToRow(updatedPermission));
+    return updatedPermission;
+  }
+
+  async deletePermission(id: string): Promise<boolean> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(id);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    // Permission grants are removed by the ON DELETE CASCADE foreign key
+    const result = this.getDb().prepare('DELETE FROM permissions WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  async grantPermission(roleId: string, permissionId: string): Promise<RolePermission> {
+    await this.awaitTurn();
+
+    const roleIdError = Validator.validateId(roleId);
+    const permissionIdError = Validator.validateId(permissionId);
+    if (roleIdError || permissionIdError) {
+      throw new ValidationFailedError([roleIdError, permissionIdError]);
+    }
+
+    const db = this.getDb();
+    const roleExists = db.prepare('SELECT 1 FROM roles WHERE id = ?').get(roleId) !== undefined;
+    const permissionExists = db.prepare('SELECT 1 FROM permissions WHERE id = ?').get(permissionId) !== undefined;
+    if (!roleExists) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    if (!permissionExists) {
+      throw new NotFoundError('permission', permissionId);
+    }
+
+    db.prepare('INSERT OR IGNORE INTO role_permissions (role_id, permission_id, created_at) VALUES (?, ?, ?)').run(
+      roleId,
+      permissionId,
+      Date.now()
+    );
+
+    const row = db
+      .prepare('SELECT * FROM role_permissions WHERE role_id = ? AND permission_id = ?')
+      .get(roleId, permissionId) as RolePermissionRow;
+    return {
+      roleId: row.role_id,
+      permissionId: row.permission_id,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  async revokePermission(roleId: string, permissionId: string): Promise<boolean> {
+    await this.awaitTurn();
+
+    const roleIdError = Validator.validateId(roleId);
+    const permissionIdError = Validator.validateId(permissionId);
+    if (roleIdError || permissionIdError) {
+      throw new ValidationFailedError([roleIdError, permissionIdError]);
+    }
+
+    const result = this.getDb()
+      .prepare('DELETE FROM role_permissions WHERE role_id = ? AND permission_id = ?')
+      .run(roleId, permissionId);
+    return result.changes > 0;
+  }
+
+  async getRolePermissions(roleId: string): Promise<Permission[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateId(roleId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT p.* FROM permissions p
+         JOIN role_permissions rp ON rp.permission_id = p.id
+         WHERE rp.role_id = ?
+         ORDER BY rp.rowid`
+      )
+      .all(roleId) as PermissionRow[];
+    return rows.map(row => this.rowToPermission(row));
+  }
+
+  async getTagKeys(target?: TagTarget): Promise<string[]> {
+    await this.awaitTurn();
+
+    const rows = this.getDb()
+      .prepare(`SELECT DISTINCT j.key AS key FROM (${this.taggedTables(target)}) t, json_each(t.tags) j`)
+      .all() as Array<{ key: string }>;
+    return rows.map(row => row.key).sort();
+  }
+
+  async getTagValues(key: string, target?: TagTarget): Promise<TagValue[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const jsonPath = this.jsonPath(key);
+    const rows = this.getDb()
+      .prepare(
+        `SELECT DISTINCT json_extract(t.tags, ${jsonPath}) AS value, json_type(t.tags, ${jsonPath}) AS type
+         FROM (${this.taggedTables(target)}) t
+         WHERE json_type(t.tags, ${jsonPath}) NOT IN ('null', 'object', 'array')`
+      )
+      .all() as Array<{ value: string | number; type: string }>;
+    const tagSets = rows.map(row => ({
+      [key]: row.type === 'true' || row.type === 'false' ? row.type === 'true' : row.value,
+    }));
+    return TagUtils.values(tagSets, key);
+  }
+
+  async renameTagKey(from: string, to: string, target?: TagTarget): Promise<number> {
+    await this.awaitTurn();
+
+    const fromError = Validator.validateTagKey(from, 'from');
+    const toError = Validator.validateTagKey(to, 'to');
+    if (fromError || toError) {
+      throw new ValidationFailedError([fromError, toError]);
+    }
+
+    if (from === to) {
+      return 0;
+    }
+
+    const fromPath = this.jsonPath(from);
+    const clashes = this.getDb()
+      .prepare(
+        `SELECT t.tags FROM (${this.taggedTables(target)}) t
+         WHERE json_type(t.tags, ${fromPath}) IS NOT NULL AND json_type(t.tags, ${this.jsonPath(to)}) IS NOT NULL
+         LIMIT 1`
+      )
+      .pluck()
+      .all() as string[];
+    const renameError = TagUtils.validateRename(clashes.map(tags => JSON.parse(tags)), from, to);
+    if (renameError) {
+      throw new ValidationFailedError([renameError]);
+    }
+
+    return this.updateTags(
+      target,
+      `json_set(json_remove(tags, ${fromPath}), ${this.jsonPath(to)}, json(tags -> ${fromPath}))`,
+      fromPath
+    );
+  }
+
+  async removeTagKey(key: string, target?: TagTarget): Promise<number> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const jsonPath = this.jsonPath(key);
+    return this.updateTags(target, `json_remove(tags, ${jsonPath})`, jsonPath);
+  }
+
+  async createAuditEntry(entryData: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    await this.awaitTurn();
+
+    const entry: AuditEntry = { ...entryData, id: IdGenerator.generate() };
+
+    this.getDb()
+      .prepare(
+        `INSERT INTO audit_entries
+           (id, actor, action, target, tenant_id, before_state, after_state, correlation_id, timestamp)
+         VALUES (@id, @actor, @action, @target, @tenant_id, @before_state, @after_state, @correlation_id, @timestamp)`
+      )
+      .run(this.auditEntryToRow(entry));
+    return entry;
+  }
+
+  async getAuditEntries(query?: AuditQuery): Promise<AuditEntry[]> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateAuditQuery(query);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+    for (const [field, column] of [['actor', 'actor'], ['target', 'target'], ['action', 'action']] as const) {
+      if (query?.[field] !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(query[field]!);
+      }
+    }
+    if (query?.from) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from.getTime());
+    }
+    if (query?.to) {
+      conditions.push('timestamp < ?');
+      params.push(query.to.getTime());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.getDb()
+      .prepare(`SELECT * FROM audit_entries ${where} ORDER BY timestamp, rowid`)
+      .all(...params) as AuditEntryRow[];
+    return rows.map(row => this.rowToAuditEntry(row));
+  }
+
+  async deleteAuditEntries(before: Date, tenantId?: string): Promise<number> {
+    await this.awaitTurn();
+
+    const validationError = Validator.validateDate(before, 'before') || Validator.validateTenantId(tenantId);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    if (tenantId !== undefined) {
+      return this.getDb()
+        .prepare('DELETE FROM audit_entries WHERE timestamp < ? AND tenant_id = ?')
+        .run(before.getTime(), tenantId).changes;
+    }
+
+    return this.getDb().prepare('DELETE FROM audit_entries WHERE timestamp < ?').run(before.getTime()).changes;
+  }
+
+  async readRecords<C extends DataCollection>(
+    collection: C,
+    page?: RecordPage
+  ): Promise<{ items: Array<DataRecords[C]>; total: number }> {
+    await this.awaitTurn();
+
+    const validationError = Records.validateCollection(collection) || Records.validatePage(page);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const db = this.getDb();
+    const { table, tenant, fromRow } = this.recordTable(collection);
+    const scoped = page?.tenantId !== undefined && tenant !== null;
+    const where = scoped ? `WHERE ${tenant}` : '';
+    const params = scoped ? [page!.tenantId!] : [];
+    const rows = db
+      .prepare(`SELECT * FROM ${table} ${where} ORDER BY rowid LIMIT ? OFFSET ?`)
+      .all(...params, page?.limit ?? -1, page?.offset ?? 0);
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${table} ${where}`).get(...params) as {
+      total: number;
+    };
+    return { items: rows.map(row => fromRow(row)), total };
+  }
+
+  async writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void> {
+    await this.awaitTurn();
+
+    const validationError = Records.validateCollection(collection);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    this.insertRecords(collection, records);
+  }
+
+  private insertRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): void {
+    if (records.length === 0) {
+      return;
+    }
+
+    const db = this.getDb();
+    const { table, key, toRow } = this.recordTable(collection);
+    const rows = records.map(record => toRow(record));
+    const columns = Object.keys(rows[0]);
+    const updates = columns.filter(column => !key.includes(column)).map(column => `${column} = excluded.${column}`);
+    const insert = db.prepare(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(column => `@${column}`).join(', ')})
+       ON CONFLICT (${key.join(', ')}) DO UPDATE SET ${updates.join(', ')}`
+    );
+
+    // Runs as a savepoint when an outer transaction is already open
+    db.transaction(() => rows.forEach(row => insert.run(row)))();
+  }
+
+  // Loads the relations of the whole page with a single query
+  private includeUserRelations(users: User[], options?: IncludeOptions): User[] {
+    if (!options?.include?.includes('roles')) {
+      return users;
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT ur.user_id AS owner_id, r.* FROM user_roles ur
+         JOIN roles r ON r.id = ur.role_id
+         WHERE ur.user_id IN (SELECT value FROM json_each(?)) AND ${this.activeAssignment('ur')}
+         ORDER BY ur.rowid`
+      )
+      .all(JSON.stringify(users.map(user => user.id)), ...this.activeAssignmentParams()) as OwnedRow<RoleRow>[];
+    const rolesByUser = this.groupByOwner(rows, row => this.rowToRole(row));
+    return users.map(user => ({ ...user, roles: rolesByUser.get(user.id) || [] }));
+  }
+
+  private includeRoleRelations(roles: Role[], options?: IncludeOptions): Role[] {
+    if (!options?.include?.includes('users')) {
+      return roles;
+    }
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT ur.role_id AS owner_id, u.* FROM user_roles ur
+         JOIN users u ON u.id = ur.user_id
+         WHERE ur.role_id IN (SELECT value FROM json_each(?)) AND ${this.activeAssignment('ur')}
+         ORDER BY ur.rowid`
+      )
+      .all(JSON.stringify(roles.map(role => role.id)), ...this.activeAssignmentParams()) as OwnedRow<UserRow>[];
+    const usersByRole = this.groupByOwner(rows, row => this.rowToUser(row));
+    return roles.map(role => ({ ...role, users: usersByRole.get(role.id) || [] }));
+  }
+
+  // Matches assignments that are active now; bind activeAssignmentParams() in its place
+  private activeAssignment(alias: string): string {
+    return (
+      `(${alias}.valid_from IS NULL OR ${alias}.valid_from <= ?) AND ` +
+      `(${alias}.valid_until IS NULL OR ${alias}.valid_until > ?)`
+    );
+  }
+
+  private activeAssignmentParams(): [number, number] {
+    const now = this.clock().getTime();
+    return [now, now];
+  }
+
+  private groupByOwner<R extends OwnedRow<object>, T>(rows: R[], map: (row: R) => T): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const row of rows) {
+      const group = groups.get(row.owner_id) || [];
+      group.push(map(row));
+      groups.set(row.owner_id, group);
+    }
+
+    return groups;
+  }
+
+  private getParentRoles(parentIds: string[] | undefined): Role[] {
+    const rows = this.getDb()
+      .prepare('SELECT * FROM roles WHERE id IN (SELECT value FROM json_each(?))')
+      .all(JSON.stringify(parentIds || [])) as RoleRow[];
+    return rows.map(row => this.rowToRole(row));
+  }
+
+  private getTenantRow(table: 'users' | 'roles' | 'groups', id: string): Pick<UserRow, 'tenant_id'> | undefined {
+    return this.getDb().prepare(`SELECT tenant_id FROM ${table} WHERE id = ?`).get(id) as
+      | Pick<UserRow, 'tenant_id'>
+      | undefined;
+  }
+
+  // Matches UniqueConstraints.findConflict: same tenant, strings compared case-insensitively
+  private findConflict(
+    entity: 'user' | 'role',
+    columns: Record<string, string>,
+    candidate: object & { tenantId?: string },
+    fields: string[],
+    excludeId?: string
+  ): ConflictError | null {
+    const table = entity === 'user' ? 'users' : 'roles';
+
+    for (const field of fields) {
+      const value = FilterMatcher.getValue(candidate, field);
+      const expression = this.resolveField(field, columns);
+      if (value === undefined || value === null || !expression) continue;
+
+      const params: SqlValue[] = [candidate.tenantId ?? null, excludeId ?? null];
+      let matches: string;
+      if (typeof value === 'string') {
+        params.push(value.toLowerCase());
+        matches = `(${expression.type} = 'string' AND unicode_lower(${expression.value}) = ?)`;
+      } else {
+        matches = this.buildEquals(expression, value, params);
+      }
+
+      const row = this.getDb()
+        .prepare(`SELECT 1 FROM ${table} WHERE tenant_id IS ? AND id IS NOT ? AND ${matches} LIMIT 1`)
+        .get(...params);
+      if (row) {
+        return new ConflictError(entity, field, value);
+      }
+    }
+
+    return null;
+  }
+
+  private getParentIds(roleId: string): string[] | undefined {
+    const row = this.getDb().prepare('SELECT parent_ids FROM roles WHERE id = ?').get(roleId) as
+      | Pick<RoleRow, 'parent_ids'>
+      | undefined;
+    if (!row) {
+      return undefined;
+    }
+
+    return row.parent_ids !== null ? JSON.parse(row.parent_ids) : [];
+  }
+
+  private taggedTables(target?: TagTarget): string {
+    return [
+      ...(target !== 'roles' ? ['SELECT tags FROM users'] : []),
+      ...(target !== 'users' ? ['SELECT tags FROM roles'] : []),
+    ].join(' UNION ALL ');
+  }
+
+  private updateTags(target: TagTarget | undefined, tagsExpression: string, jsonPath: string): number {
+    const db = this.getDb();
+    const now = Date.now();
+    const tables: Array<'users' | 'roles'> = ['users', 'roles'];
+
+    // Runs as a savepoint when an outer transaction is already open, so a conflict found once the rows are
+    // rewritten undoes only this
+    return db.transaction(() =>
+      tables
+        .filter(table => !target || target === table)
+        .reduce((updated, table) => {
+          const ids = db
+            .prepare(`SELECT id FROM ${table} WHERE json_type(tags, ${jsonPath}) IS NOT NULL`)
+            .pluck()
+            .all() as string[];
+          db.prepare(
+            `UPDATE ${table} SET tags = ${tagsExpression}, version = version + 1, updated_at = ?
+             WHERE json_type(tags, ${jsonPath}) IS NOT NULL`
+          ).run(now);
+
+          const conflict = this.findTagConflict(table, ids);
+          if (conflict) {
+            throw conflict;
+          }
+          return updated + ids.length;
+        }, 0)
+    )();
+  }
+
+  // Checks rows whose tags were rewritten against the unique fields kept in tags, the only ones that could change
+  private findTagConflict(table: 'users' | 'roles', ids: string[]): ConflictError | null {
+    const users = table === 'users';
+    const fields = UniqueConstraints.tagFields(
+      users ? UniqueConstraints.userFields(this.uniqueFields) : UniqueConstraints.roleFields(this.uniqueFields)
+    );
+
+    for (const id of fields.length > 0 ? ids : []) {
+      const conflict = users
+        ? this.findConflict('user', USER_COLUMNS, this.rowToUser(this.findRow<UserRow>(table, id)!), fields, id)
+        : this.findConflict('role', ROLE_COLUMNS, this.rowToRole(this.findRow<RoleRow>(table, id)!), fields, id);
+      if (conflict) {
+        return conflict;
+      }
+    }
+
+    return null;
+  }
+
+  // A guarded write matched no row: the version moved on since it was read, or the row is gone (null)
+  private findVersionConflict(
+    entity: 'user' | 'role',
+    table: string,
+    id: string,
+    expectedVersion: number
+  ): VersionConflictError | null {
+    const row = this.getDb().prepare(`SELECT version FROM ${table} WHERE id = ?`).get(id) as
+      | { version: number }
+      | undefined;
+    return row ? new VersionConflictError(entity, id, expectedVersion, row.version) : null;
+  }
+
+  private query<T>(
+    table: string,
+    columns: Record<string, string>,
+    options?: QueryOptions
+  ): { rows: T[]; total: number } {
+    const db = this.getDb();
+    const params: SqlValue[] = [];
+
+    // Apply filter
+    const where = options?.filter ? ` WHERE ${this.buildFilter(options.filter, columns, params)}` : '';
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${table}${where}`).get(...params) as {
+      total: number;
+    };
+
+    // Apply sort, keeping missing values last and insertion order as the tie-breaker
+    const orderBy = Object.entries(options?.sort || {})
+      .map(([key, order]) => [this.resolveField(key, columns), order] as const)
+      .filter((entry): entry is readonly [FieldExpression, 'asc' | 'desc'] => entry[0] !== null)
+      .map(([field, order]) => `(${field.value} IS NULL), ${field.value} ${order === 'desc' ? 'DESC' : 'ASC'}`)
+      .concat('rowid ASC')
+      .join(', ');
+
+    // Apply pagination
+    let pagination = '';
+    if (options?.limit) {
+      pagination = ' LIMIT ? OFFSET ?';
+      params.push(options.limit, options.offset || 0);
+    }
+
+    const rows = db
+      .prepare(`SELECT * FROM ${table}${where} ORDER BY ${orderBy}${pagination}`)
+      .all(...params) as T[];
+    return { rows, total };
+  }
+
+  private resolveField(key: string, columns: Record<string, string>): FieldExpression | null {
+    const column = columns[key];
+    if (column) {
+      return {
+        value: column,
+        type: `(CASE typeof(${column}) WHEN 'text' THEN 'string' WHEN 'null' THEN 'null' ELSE 'number' END)`,
+      };
+    }
+
+    // Tag paths only resolve on tables that have a tags column
+    if (key.startsWith('tags.') && columns.tags) {
+      const jsonPath = this.jsonPath(key.slice('tags.'.length));
+      return {
+        value: `json_extract(tags, ${jsonPath})`,
+        type:
+          `(CASE json_type(tags, ${jsonPath}) WHEN 'text' THEN 'string' WHEN 'integer' THEN 'number' ` +
+          `WHEN 'real' THEN 'number' WHEN 'true' THEN 'boolean' WHEN 'false' THEN 'boolean' ELSE 'null' END)`,
+      };
+    }
+
+    return null;
+  }
+
+  private jsonPath(tagKey: string): string {
+    return `'$."${tagKey.replace(/'/g, "''")}"'`;
+  }
+
+  // Every generated expression evaluates to 0 or 1 (never NULL) so that $not negates like FilterMatcher does
+  private buildFilter(filter: QueryFilter, columns: Record<string, string>, params: SqlValue[]): string {
+    const conditions = Object.entries(filter).map(([key, condition]) => {
+      if (key === '$and' || key === '$or') {
+        const subFilters = (condition as QueryFilter[]).map(subFilter => this.buildFilter(subFilter, columns, params));
+        if (subFilters.length === 0) {
+          return key === '$and' ? '1' : '0';
+        }
+        return `(${subFilters.join(key === '$and' ? ' AND ' : ' OR ')})`;
+      }
+
+      if (key === '$not') {
+        return `NOT ${this.buildFilter(condition as QueryFilter, columns, params)}`;
+      }
+
+      const field = this.resolveField(key, columns);
+      if (!field) {
+        // The field is missing on every row, so the condition is constant
+        return FilterMatcher.matchesCondition(undefined, condition as FilterCondition) ? '1' : '0';
+      }
+
+      const operators: FilterOperators = FilterMatcher.isOperatorObject(condition)
+        ? condition
+        : { $eq: condition as FilterValue };
+      return this.buildOperators(field, operators, params);
+    });
+
+    return conditions.length > 0 ? `(${conditions.join(' AND ')})` : '1';
+  }
+
+  private buildOperators(field: FieldExpression, operators: FilterOperators, params: SqlValue[]): string {
+    const conditions = Object.entries(operators).map(([operator, operand]) => {
+      switch (operator) {
+        case '$eq':
+          return this.buildEquals(field, operand, params);
+        case '$ne':
+          return `NOT ${this.buildEquals(field, operand, params)}`;
+        case '$in':
+          return this.buildIn(field, operand as FilterValue[], params);
+        case '$nin':
+          return `NOT ${this.buildIn(field, operand as FilterValue[], params)}`;
+        case '$gt':
+        case '$gte':
+        case '$lt':
+        case '$lte': {
+          const value = this.toSqlValue(operand);
+          const comparison = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' }[operator];
+          params.push(value);
+          // Match FilterMatcher: values of a different type never satisfy a range operator
+          const type = typeof value === 'number' ? 'number' : 'string';
+          return `(${field.type} = '${type}' AND ${field.value} ${comparison} ?)`;
+        }
+        case '$regex': {
+          const regex = FilterMatcher.toRegExp(operand as string | RegExp);
+          params.push(regex.source, regex.flags);
+          return `regexp_match(${field.value}, ?, ?)`;
+        }
+        case '$contains':
+          params.push(operand as string);
+          return `(${field.type} = 'string' AND instr(${field.value}, ?) > 0)`;
+        case '$exists':
+          return operand ? `(${field.type} != 'null')` : `(${field.type} = 'null')`;
+        default:
+          return '0';
+      }
+    });
+
+    return conditions.length > 0 ? `(${conditions.join(' AND ')})` : '1';
+  }
+
+  private buildEquals(field: FieldExpression, operand: unknown, params: SqlValue[]): string {
+    const value = this.toSqlValue(operand);
+    if (value === null) {
+      return `(${field.type} = 'null')`;
+    }
+
+    params.push(value);
+    const type = typeof operand === 'boolean' ? 'boolean' : typeof value === 'number' ? 'number' : 'string';
+    return `(${field.type} = '${type}' AND ${field.value} = ?)`;
+  }
+
+  private buildIn(field: FieldExpression, operands: FilterValue[], params: SqlValue[]): string {
+    if (operands.length === 0) {
+      return '0';
+    }
+
+    return `(${operands.map(operand => this.buildEquals(field, operand, params)).join(' OR ')})`;
+  }
+
+  private toSqlValue(value: unknown): SqlValue {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+
+    return value as SqlValue;
+  }
+
+  private recordTable<C extends DataCollection>(collection: C): RecordTable<DataRecords[C]> {
+    const tables: { [T in DataCollection]: RecordTable<DataRecords[T]> } = {
+      users: {
+        table: 'users',
+        key: ['id'],
+        tenant: 'tenant_id = ?',
+        toRow: user => this.userToRow(user),
+        fromRow: row => this.rowToUser(row as UserRow),
+      },
+      roles: {
+        table: 'roles',
+        key: ['id'],
+        tenant: 'tenant_id = ?',
+        toRow: role => this.roleToRow(role),
+        fromRow: row => this.rowToRole(row as RoleRow),
+      },
+      userRoles: {
+        table: 'user_roles',
+        key: ['user_id', 'role_id'],
+        tenant: 'tenant_id = ?',
+        toRow: userRole => this.userRoleToRow(userRole),
+        fromRow: row => this.rowToUserRole(row as UserRoleRow),
+      },
+      groups: {
+        table: 'groups',
+        key: ['id'],
+        tenant: 'tenant_id = ?',
+        toRow: group => this.groupToRow(group),
+        fromRow: row => this.rowToGroup(row as GroupRow),
+      },
+      groupMembers: {
+        table: 'group_members',
+        key: ['group_id', 'user_id'],
+        tenant: 'group_id IN (SELECT id FROM groups WHERE tenant_id = ?)',
+        toRow: member => ({ group_id: member.groupId, user_id: member.userId, created_at: member.createdAt.getTime() }),
+        fromRow: row => {
+          const { group_id, user_id, created_at } = row as GroupMemberRow;
+          return { groupId: group_id, userId: user_id, createdAt: new Date(created_at) };
+        },
+      },
+      groupRoles: {
+        table: 'group_roles',
+        key: ['group_id', 'role_id'],
+        tenant: 'group_id IN (SELECT id FROM groups WHERE tenant_id = ?)',
+        toRow: groupRole => ({
+          group_id: groupRole.groupId,
+          role_id: groupRole.roleId,
+          created_at: groupRole.createdAt.getTime(),
+        }),
+        fromRow: row => {
+          const { group_id, role_id, created_at } = row as GroupRoleRow;
+          return { groupId: group_id, roleId: role_id, createdAt: new Date(created_at) };
+        },
+      },
+      permissions: {
+        table: 'permissions',
+        key: ['id'],
+        tenant: null,
+        toRow: permission => this.permissionToRow(permission),
+        fromRow: row => this.rowToPermission(row as PermissionRow),
+      },
+      rolePermissions: {
+        table: 'role_permissions',
+        key: ['role_id', 'permission_id'],
+        tenant: 'role_id IN (SELECT id FROM roles WHERE tenant_id = ?)',
+        toRow: rolePermission => ({
+          role_id: rolePermission.roleId,
+          permission_id: rolePermission.permissionId,
+          created_at: rolePermission.createdAt.getTime(),
+        }),
+        fromRow: row => {
+          const { role_id, permission_id, created_at } = row as RolePermissionRow;
+          return { roleId: role_id, permissionId: permission_id, createdAt: new Date(created_at) };
+        },
+      },
+      auditEntries: {
+        table: 'audit_entries',
+        key: ['id'],
+        tenant: 'tenant_id = ?',
+        toRow: entry => this.auditEntryToRow(entry),
+        fromRow: row => this.rowToAuditEntry(row as AuditEntryRow),
+      },
+    };
+    return tables[collection] as RecordTable<DataRecords[C]>;
+  }
+
+  private userToRow(user: User): UserRow {
+    return {
+      id: user.id,
+      tenant_id: user.tenantId ?? null,
+      username: user.username,
+      email: user.email,
+      password_hash: user.passwordHash ?? null,
+      tags: user.tags ? JSON.stringify(user.tags) : null,
+      version: user.version,
+      created_at: user.createdAt.getTime(),
+      updated_at: user.updatedAt.getTime(),
+    };
+  }
+
+  private rowToUser(row: UserRow): User {
+    const user: User = {
+      id: row.id,
+      username: row.username,
+      email: row.email,
+      version: row.version,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+
+    if (row.tenant_id !== null) {
+      user.tenantId = row.tenant_id;
+    }
+
+    if (row.password_hash !== null) {
+      user.passwordHash = row.password_hash;
+    }
+
+    if (row.tags !== null) {
+      user.tags = JSON.parse(row.tags);
+    }
+
+    return user;
+  }
+
+  private roleToRow(role: Role): RoleRow {
+    return {
+      id: role.id,
+      tenant_id: role.tenantId ?? null,
+      name: role.name,
+      description: role.description ?? null,
+      parent_ids: role.parentIds ? JSON.stringify(role.parentIds) : null,
+      tags: role.tags ? JSON.stringify(role.tags) : null,
+      version: role.version,
+      created_at: role.createdAt.getTime(),
+      updated_at: role.updatedAt.getTime(),
+    };
+  }
+
+  private rowToRole(row: RoleRow): Role {
+    const role: Role = {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+
+    if (row.tenant_id !== null) {
+      role.tenantId = row.tenant_id;
+    }
+
+    if (row.description !== null) {
+      role.description = row.description;
+    }
+
+    if (row.parent_ids !== null) {
+      role.parentIds = JSON.parse(row.parent_ids);
+    }
+
+    if (row.tags !== null) {
+      role.tags = JSON.parse(row.tags);
+    }
+
+    return role;
+  }
+
+  private userRoleToRow(userRole: UserRole): UserRoleRow {
+    return {
+      user_id: userRole.userId,
+      role_id: userRole.roleId,
+      tenant_id: userRole.tenantId ?? null,
+      valid_from: userRole.validFrom?.getTime() ?? null,
+      valid_until: userRole.validUntil?.getTime() ?? null,
+      created_at: userRole.createdAt.getTime(),
+    };
+  }
+
+  private rowToUserRole(row: UserRoleRow): UserRole {
+    return Assignments.create(
+      row.user_id,
+      row.role_id,
+      {
+        validFrom: row.valid_from !== null ? new Date(row.valid_from) : undefined,
+        validUntil: row.valid_until !== null ? new Date(row.valid_until) : undefined,
+      },
+      new Date(row.created_at),
+      row.tenant_id ?? undefined
+    );
+  }
+
+  private groupToRow(group: Group): GroupRow {
+    return {
+      id: group.id,
+      tenant_id: group.tenantId ?? null,
+      name: group.name,
+      description: group.description ?? null,
+      created_at: group.createdAt.getTime(),
+      updated_at: group.updatedAt.getTime(),
+    };
+  }
+
+  private rowToGroup(row: GroupRow): Group {
+    const group: Group = {
+      id: row.id,
+      name: row.name,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+
+    if (row.tenant_id !== null) {
+      group.tenantId = row.tenant_id;
+    }
+
+    if (row.description !== null) {
+      group.description = row.description;
+    }
+
+    return group;
+  }
+
+  private permissionToRow(permission: Permission): PermissionRow {
+    return {
+      id: permission.id,
+      action: permission.action,
+      resource: permission.resource,
+      description: permission.description ?? null,
+      created_at: permission.createdAt.getTime(),
+      updated_at: permission.updatedAt.getTime(),
+    };
+  }
+
+  private rowToPermission(row: PermissionRow): Permission {
+    const permission: Permission = {
+      id: row.id,
+      action: row.action,
+      resource: row.resource,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+
+    if (row.description !== null) {
+      permission.description = row.description;
+    }
+
+    return permission;
+  }
+
+  private auditEntryToRow(entry: AuditEntry): AuditEntryRow {
+    return {
+      id: entry.id,
+      actor: entry.actor,
+      action: entry.action,
+      target: entry.target,
+      tenant_id: entry.tenantId ?? null,
+      before_state: entry.before ? JSON.stringify(entry.before) : null,
+      after_state: entry.after ? JSON.stringify(entry.after) : null,
+      correlation_id: entry.correlationId,
+      timestamp: entry.timestamp.getTime(),
+    };
+  }
+
+  private rowToAuditEntry(row: AuditEntryRow): AuditEntry {
+    const entry: AuditEntry = {
+      id: row.id,
+      actor: row.actor,
+      action: row.action as AuditEntry['action'],
+      target: row.target,
+      before: row.before_state !== null ? JSON.parse(row.before_state) : null,
+      after: row.after_state !== null ? JSON.parse(row.after_state) : null,
+      correlationId: row.correlation_id,
+      timestamp: new Date(row.timestamp),
+    };
+
+    if (row.tenant_id !== null) {
+      entry.tenantId = row.tenant_id;
+    }
+
+    return entry;
+  }
+}
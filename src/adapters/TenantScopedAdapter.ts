@@ -0,0 +1,386 @@
+import {
+  StorageAdapter,
+  User,
+  Role,
+  UserRole,
+  AssignRoleOptions,
+  AssignmentQuery,
+  AuditEntry,
+  AuditQuery,
+  Group,
+  GroupMember,
+  GroupRole,
+  Permission,
+  RolePermission,
+  QueryOptions,
+  IncludeOptions,
+  HierarchyOptions,
+  Tag,
+  TagTarget,
+  TagValue,
+  TransactionHandle,
+  VersionOptions,
+  DataCollection,
+  DataRecords,
+  RecordPage,
+} from '../types';
+import { Validator } from '../utils/validation';
+import { TagUtils } from '../utils/tags';
+import { ValidationFailedError, NotFoundError } from '../errors';
+
+// Wraps a shared adapter so every read and write is confined to one tenant.
+// Entities of other tenants behave as if they did not exist.
+export class TenantScopedAdapter implements StorageAdapter {
+  constructor(
+    private adapter: StorageAdapter,
+    private tenantId: string
+  ) {}
+
+  async initialize(): Promise<void> {
+    // The underlying adapter is initialized by its owner
+  }
+
+  async shutdown(): Promise<void> {
+    // The underlying adapter is shut down by its owner
+  }
+
+  async beginTransaction(): Promise<TransactionHandle> {
+    return this.adapter.beginTransaction();
+  }
+
+  async commit(): Promise<void> {
+    await this.adapter.commit();
+  }
+
+  async rollback(): Promise<void> {
+    await this.adapter.rollback();
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.adapter.transaction(fn);
+  }
+
+  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
+    return this.adapter.createUser(this.scoped(userData));
+  }
+
+  async getUserById(id: string, options?: IncludeOptions): Promise<User | null> {
+    const user = await this.adapter.getUserById(id, options);
+    return user && this.owns(user) ? user : null;
+  }
+
+  async getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }> {
+    return this.adapter.getUsers(this.scopeQuery(options));
+  }
+
+  async updateUser(id: string, userData: Partial<User>, options?: VersionOptions): Promise<User | null> {
+    return (await this.getUserById(id)) ? this.adapter.updateUser(id, userData, options) : null;
+  }
+
+  async deleteUser(id: string, options?: VersionOptions): Promise<boolean> {
+    return (await this.getUserById(id)) ? this.adapter.deleteUser(id, options) : false;
+  }
+
+  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role> {
+    return this.adapter.createRole(this.scoped(roleData));
+  }
+
+  async getRoleById(id: string, options?: IncludeOptions): Promise<Role | null> {
+    const role = await this.adapter.getRoleById(id, options);
+    return role && this.owns(role) ? role : null;
+  }
+
+  async getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }> {
+    return this.adapter.getRoles(this.scopeQuery(options));
+  }
+
+  async updateRole(id: string, roleData: Partial<Role>, options?: VersionOptions): Promise<Role | null> {
+    return (await this.getRoleById(id)) ? this.adapter.updateRole(id, roleData, options) : null;
+  }
+
+  async deleteRole(id: string, options?: VersionOptions): Promise<boolean> {
+    return (await this.getRoleById(id)) ? this.adapter.deleteRole(id, options) : false;
+  }
+
+  async assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole> {
+    if (!(await this.getUserById(userId))) {
+      throw new NotFoundError('user', userId);
+    }
+
+    if (!(await this.getRoleById(roleId))) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    return this.adapter.assignRole(userId, roleId, options);
+  }
+
+  async removeRole(userId: string, roleId: string): Promise<boolean> {
+    return (await this.getUserById(userId)) ? this.adapter.removeRole(userId, roleId) : false;
+  }
+
+  // Expired assignments are already invisible to every tenant, so purging them all exposes nothing;
+  // only this tenant's are reported
+  async purgeExpiredAssignments(): Promise<UserRole[]> {
+    const expired = await this.adapter.purgeExpiredAssignments();
+    return expired.filter(userRole => this.owns(userRole));
+  }
+
+  async getAssignments(query: AssignmentQuery): Promise<UserRole[]> {
+    const assignments = await this.adapter.getAssignments(query);
+    return assignments.filter(userRole => this.owns(userRole));
+  }
+
+  async getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]> {
+    return (await this.getUserById(userId)) ? this.adapter.getUserRoles(userId, options) : [];
+  }
+
+  async getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]> {
+    return (await this.getRoleById(roleId)) ? this.adapter.getRoleUsers(roleId, options) : [];
+  }
+
+  async createGroup(groupData: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group> {
+    return this.adapter.createGroup(this.scoped(groupData));
+  }
+
+  async getGroupById(id: string): Promise<Group | null> {
+    const group = await this.adapter.getGroupById(id);
+    return group && this.owns(group) ? group : null;
+  }
+
+  async getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }> {
+    return this.adapter.getGroups(this.scopeQuery(options));
+  }
+
+  async updateGroup(id: string, groupData: Partial<Group>): Promise<Group | null> {
+    return (await this.getGroupById(id)) ? this.adapter.updateGroup(id, groupData) : null;
+  }
+
+  async deleteGroup(id: string): Promise<boolean> {
+    return (await this.getGroupById(id)) ? this.adapter.deleteGroup(id) : false;
+  }
+
+  async addGroupMember(groupId: string, userId: string): Promise<GroupMember> {
+    if (!(await this.getGroupById(groupId))) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!(await this.getUserById(userId))) {
+      throw new NotFoundError('user', userId);
+    }
+
+    return this.adapter.addGroupMember(groupId, userId);
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    return (await this.getGroupById(groupId)) ? this.adapter.removeGroupMember(groupId, userId) : false;
+  }
+
+  async getGroupMembers(groupId: string): Promise<User[]> {
+    return (await this.getGroupById(groupId)) ? this.adapter.getGroupMembers(groupId) : [];
+  }
+
+  async getUserGroups(userId: string): Promise<Group[]> {
+    return (await this.getUserById(userId)) ? this.adapter.getUserGroups(userId) : [];
+  }
+
+  async assignGroupRole(groupId: string, roleId: string): Promise<GroupRole> {
+    if (!(await this.getGroupById(groupId))) {
+      throw new NotFoundError('group', groupId);
+    }
+
+    if (!(await this.getRoleById(roleId))) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    return this.adapter.assignGroupRole(groupId, roleId);
+  }
+
+  async removeGroupRole(groupId: string, roleId: string): Promise<boolean> {
+    return (await this.getGroupById(groupId)) ? this.adapter.removeGroupRole(groupId, roleId) : false;
+  }
+
+  async getGroupRoles(groupId: string): Promise<Role[]> {
+    return (await this.getGroupById(groupId)) ? this.adapter.getGroupRoles(groupId) : [];
+  }
+
+  // Permissions describe actions on resources and are shared by all tenants
+  async createPermission(permissionData: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission> {
+    return this.adapter.createPermission(permissionData);
+  }
+
+  async getPermissionById(id: string): Promise<Permission | null> {
+    return this.adapter.getPermissionById(id);
+  }
+
+  async getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }> {
+    return this.adapter.getPermissions(options);
+  }
+
+  async updatePermission(id: string, permissionData: Partial<Permission>): Promise<Permission | null> {
+    return this.adapter.updatePermission(id, permissionData);
+  }
+
+  async deletePermission(id: string): Promise<boolean> {
+    return this.adapter.deletePermission(id);
+  }
+
+  async grantPermission(roleId: string, permissionId: string): Promise<RolePermission> {
+    if (!(await this.getRoleById(roleId))) {
+      throw new NotFoundError('role', roleId);
+    }
+
+    return this.adapter.grantPermission(roleId, permissionId);
+  }
+
+  async revokePermission(roleId: string, permissionId: string): Promise<boolean> {
+    return (await this.getRoleById(roleId)) ? this.adapter.revokePermission(roleId, permissionId) : false;
+  }
+
+  async getRolePermissions(roleId: string): Promise<Permission[]> {
+    return (await this.getRoleById(roleId)) ? this.adapter.getRolePermissions(roleId) : [];
+  }
+
+  async getTagKeys(target?: TagTarget): Promise<string[]> {
+    const entities = await this.getTaggedEntities(target);
+    return TagUtils.keys(entities.map(entity => entity.tags));
+  }
+
+  async getTagValues(key: string, target?: TagTarget): Promise<TagValue[]> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const entities = await this.getTaggedEntities(target);
+    return TagUtils.values(entities.map(entity => entity.tags), key);
+  }
+
+  async renameTagKey(from: string, to: string, target?: TagTarget): Promise<number> {
+    const fromError = Validator.validateTagKey(from, 'from');
+    const toError = Validator.validateTagKey(to, 'to');
+    if (fromError || toError) {
+      throw new ValidationFailedError([fromError, toError]);
+    }
+
+    const entities = await this.getTaggedEntities(target);
+    const renameError = TagUtils.validateRename(entities.map(entity => entity.tags), from, to);
+    if (renameError) {
+      throw new ValidationFailedError([renameError]);
+    }
+
+    return this.updateTags(target, tags => TagUtils.rename(tags, from, to));
+  }
+
+  async removeTagKey(key: string, target?: TagTarget): Promise<number> {
+    const validationError = Validator.validateTagKey(key);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    return this.updateTags(target, tags => TagUtils.remove(tags, key));
+  }
+
+  async createAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    return this.adapter.createAuditEntry(this.scoped(entry));
+  }
+
+  async getAuditEntries(query?: AuditQuery): Promise<AuditEntry[]> {
+    const entries = await this.adapter.getAuditEntries(query);
+    return entries.filter(entry => this.owns(entry));
+  }
+
+  async deleteAuditEntries(before: Date, tenantId?: string): Promise<number> {
+    return this.adapter.deleteAuditEntries(before, this.scoped({ tenantId }).tenantId);
+  }
+
+  async readRecords<C extends DataCollection>(
+    collection: C,
+    page?: RecordPage
+  ): Promise<{ items: Array<DataRecords[C]>; total: number }> {
+    return this.adapter.readRecords(collection, this.scoped({ ...page }));
+  }
+
+  async writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void> {
+    const scoped: Array<DataRecords[C]> = [];
+    for (const record of records) {
+      scoped.push(await this.scopedRecord(collection, record));
+    }
+    await this.adapter.writeRecords(collection, scoped);
+  }
+
+  private owns(entity: { tenantId?: string }): boolean {
+    return entity.tenantId === this.tenantId;
+  }
+
+  private scoped<T extends { tenantId?: string }>(data: T): T {
+    if (data.tenantId !== undefined && data.tenantId !== this.tenantId) {
+      throw new ValidationFailedError([{ field: 'tenantId', message: 'Tenant ID does not match the tenant scope' }]);
+    }
+
+    return { ...data, tenantId: this.tenantId };
+  }
+
+  private async scopedRecord<C extends DataCollection>(collection: C, record: DataRecords[C]): Promise<DataRecords[C]> {
+    switch (collection) {
+      case 'permissions':
+        return record;
+      case 'groupMembers':
+      case 'groupRoles': {
+        const { groupId } = record as GroupMember;
+        if (!(await this.getGroupById(groupId))) {
+          throw new NotFoundError('group', groupId);
+        }
+        return record;
+      }
+      case 'rolePermissions': {
+        const { roleId } = record as RolePermission;
+        if (!(await this.getRoleById(roleId))) {
+          throw new NotFoundError('role', roleId);
+        }
+        return record;
+      }
+      default:
+        return this.scoped(record as { tenantId?: string }) as DataRecords[C];
+    }
+  }
+
+  private scopeQuery(options?: QueryOptions): QueryOptions {
+    const tenantFilter = { tenantId: this.tenantId };
+    return { ...options, filter: options?.filter ? { $and: [tenantFilter, options.filter] } : tenantFilter };
+  }
+
+  private async getTaggedEntities(target?: TagTarget): Promise<Array<User | Role>> {
+    return [
+      ...(target !== 'roles' ? (await this.getUsers()).items : []),
+      ...(target !== 'users' ? (await this.getRoles()).items : []),
+    ];
+  }
+
+  // Entities are rewritten one at a time, so a conflict found part way undoes the ones before it
+  private async updateTags(
+    target: TagTarget | undefined,
+    update: (tags: Tag | undefined) => Tag | null
+  ): Promise<number> {
+    return this.adapter.transaction(async () => {
+      let updated = 0;
+
+      for (const user of target !== 'roles' ? (await this.getUsers()).items : []) {
+        const tags = update(user.tags);
+        if (tags) {
+          await this.adapter.updateUser(user.id, { tags });
+          updated++;
+        }
+      }
+
+      for (const role of target !== 'users' ? (await this.getRoles()).items : []) {
+        const tags = update(role.tags);
+        if (tags) {
+          await this.adapter.updateRole(role.id, { tags });
+          updated++;
+        }
+      }
+
+      return updated;
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import { randomBytes, scrypt, timingSafeEqual, ScryptOptions } from 'crypto';
+import { PasswordHashOptions } from '../types';
+
+const ALGORITHM = 'scrypt';
+const FORMAT_VERSION = 1;
+
+interface ParsedHash {
+  version: number;
+  cost: number;
+  blockSize: number;
+  parallelization: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+// Hashes look like $scrypt$v=1$N=16384,r=8,p=1$<salt>$<hash>, with base64 salt and hash
+export class PasswordHasher {
+  private options: Required<PasswordHashOptions>;
+
+  constructor(options: PasswordHashOptions = {}) {
+    this.options = {
+      cost: 16384,
+      blockSize: 8,
+      parallelization: 1,
+      keyLength: 64,
+      saltLength: 16,
+      ...options,
+    };
+  }
+
+  async hash(password: string): Promise<string> {
+    const { cost, blockSize, parallelization, keyLength, saltLength } = this.options;
+    const salt = randomBytes(saltLength);
+    const hash = await this.derive(password, salt, keyLength, { N: cost, r: blockSize, p: parallelization });
+
+    return [
+      '',
+      ALGORITHM,
+      `v=${FORMAT_VERSION}`,
+      `N=${cost},r=${blockSize},p=${parallelization}`,
+      salt.toString('base64'),
+      hash.toString('base64'),
+    ].join('$');
+  }
+
+  async verify(password: string, passwordHash: string): Promise<boolean> {
+    const parsed = this.parse(passwordHash);
+    if (!parsed) {
+      return false;
+    }
+
+    const hash = await this.derive(password, parsed.salt, parsed.hash.length, {
+      N: parsed.cost,
+      r: parsed.blockSize,
+      p: parsed.parallelization,
+    });
+    return timingSafeEqual(hash, parsed.hash);
+  }
+
+  needsRehash(passwordHash: string): boolean {
+    const parsed = this.parse(passwordHash);
+    return (
+      !parsed ||
+      parsed.version !== FORMAT_VERSION ||
+      parsed.cost !== this.options.cost ||
+      parsed.blockSize !== this.options.blockSize ||
+      parsed.parallelization !== this.options.parallelization ||
+      parsed.hash.length !== this.options.keyLength ||
+      parsed.salt.length !== this.options.saltLength
+    );
+  }
+
+  private parse(passwordHash: string): ParsedHash | null {
+    const [empty, algorithm, version, params, salt, hash] = passwordHash.split('$');
+    if (empty !== '' || algorithm !== ALGORITHM || !version || !params || !salt || !hash) {
+      return null;
+    }
+
+    const versionMatch = /^v=(\d+)$/.exec(version);
+    const paramsMatch = /^N=(\d+),r=(\d+),p=(\d+)$/.exec(params);
+    if (!versionMatch || !paramsMatch) {
+      return null;
+    }
+
+    const decodedSalt = Buffer.from(salt, 'base64');
+    const decodedHash = Buffer.from(hash, 'base64');
+    if (decodedSalt.length === 0 || decodedHash.length === 0) {
+      return null;
+    }
+
+    return {
+      version: Number(versionMatch[1]),
+      cost: Number(paramsMatch[1]),
+      blockSize: Number(paramsMatch[2]),
+      parallelization: Number(paramsMatch[3]),
+      salt: decodedSalt,
+      hash: decodedHash,
+    };
+  }
+
+  private derive(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+    // Leave headroom above the 32 MiB default so larger costs are usable
+    const maxmem = Math.max(32 * 1024 * 1024, 256 * options.N! * options.r!);
+
+    return new Promise((resolve, reject) => {
+      scrypt(password.normalize('NFKC'), salt, keyLength, { ...options, maxmem }, (error, derivedKey) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(derivedKey);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { PasswordPolicyOptions, ValidationError } from '../types';
+
+export class PasswordPolicy {
+  private options: Required<PasswordPolicyOptions>;
+
+  constructor(options: PasswordPolicyOptions = {}) {
+    this.options = {
+      minLength: 8,
+      maxLength: 256,
+      requireLowercase: false,
+      requireUppercase: false,
+      requireDigit: false,
+      requireSymbol: false,
+      bannedPasswords: [],
+      ...options,
+    };
+  }
+
+  validate(password: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const { minLength, maxLength } = this.options;
+
+    if (typeof password !== 'string' || password.length === 0) {
+      errors.push({ field: 'password', message: 'Password is required' });
+      return errors;
+    }
+
+    if (password.length < minLength) {
+      errors.push({ field: 'password', message: `Password must be at least ${minLength} characters long` });
+    }
+
+    if (password.length > maxLength) {
+      errors.push({ field: 'password', message: `Password must be at most ${maxLength} characters long` });
+    }
+
+    if (this.options.requireLowercase && !/[a-z]/.test(password)) {
+      errors.push({ field: 'password', message: 'Password must contain a lowercase letter' });
+    }
+
+    if (this.options.requireUppercase && !/[A-Z]/.test(password)) {
+      errors.push({ field: 'password', message: 'Password must contain an uppercase letter' });
+    }
+
+    if (this.options.requireDigit && !/[0-9]/.test(password)) {
+      errors.push({ field: 'password', message: 'Password must contain a digit' });
+    }
+
+    if (this.options.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      errors.push({ field: 'password', message: 'Password must contain a symbol' });
+    }
+
+    const lowered = password.toLowerCase();
+    if (this.options.bannedPasswords.some(banned => banned.toLowerCase() === lowered)) {
+      errors.push({ field: 'password', message: 'Password is too common' });
+    }
+
+    return errors;
+  }
+}
@@ -0,0 +1,22 @@
+import { User, Role } from '../types';
+
+export class CredentialRedactor {
+  static redactUser<T extends User>(user: T): T {
+    if (!('passwordHash' in user)) {
+      return user;
+    }
+
+    const redacted = { ...user };
+    delete redacted.passwordHash;
+    return redacted;
+  }
+
+  static redactRole<T extends Role>(role: T): T {
+    const users = (role as T & { users?: User[] }).users;
+    if (!users) {
+      return role;
+    }
+
+    return { ...role, users: users.map(user => this.redactUser(user)) };
+  }
+}
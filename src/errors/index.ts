@@ -0,0 +1,199 @@
+import { ValidationError } from '../types';
+
+export type ErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'VERSION_CONFLICT'
+  | 'TRANSACTION_ERROR'
+  | 'TRANSACTION_CONFLICT'
+  | 'PLUGIN_ERROR'
+  | 'NOT_INITIALIZED'
+  | 'HOOK_ERROR'
+  | 'OPERATION_VETOED'
+  | 'STORAGE_LOCKED'
+  | 'CORRUPT_DATA'
+  | 'MIGRATION_FAILED'
+  | 'TRANSFER_FAILED';
+
+// Base class of every error thrown by the library; match on code rather than on message
+export abstract class UserManagementError extends Error {
+  abstract readonly code: ErrorCode;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Thrown when input data is rejected; errors lists every problem found
+export class ValidationFailedError extends UserManagementError {
+  readonly code = 'VALIDATION_FAILED';
+  readonly errors: ValidationError[];
+
+  // Nulls are skipped, so the results of several single-field checks can be passed as they are
+  constructor(errors: Array<ValidationError | null>) {
+    const found = errors.filter((error): error is ValidationError => error !== null);
+    super(`Validation failed: ${found.map(error => error.message).join(', ')}`);
+    this.errors = found;
+  }
+}
+
+// Thrown when an operation refers to an entity that does not exist, e.g. assigning a missing role
+export class NotFoundError extends UserManagementError {
+  readonly code = 'NOT_FOUND';
+
+  constructor(
+    public readonly entity: string,
+    public readonly id: string
+  ) {
+    super(`${capitalize(entity)} ${id} not found`);
+  }
+}
+
+// Thrown when a write would break a uniqueness constraint, e.g. a second user with the same email
+export class ConflictError extends UserManagementError {
+  readonly code = 'CONFLICT';
+
+  constructor(
+    public readonly entity: string,
+    public readonly field: string,
+    public readonly value: unknown
+  ) {
+    super(`${capitalize(entity)} with ${field} "${String(value)}" already exists`);
+  }
+}
+
+// Thrown when an update or delete names an expectedVersion that no longer matches the stored entity
+export class VersionConflictError extends UserManagementError {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    public readonly entity: string,
+    public readonly id: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`${capitalize(entity)} ${id} is at version ${actualVersion}, expected ${expectedVersion}`);
+  }
+}
+
+// Thrown when transaction calls are out of order, e.g. commit without beginTransaction
+export class TransactionError extends UserManagementError {
+  readonly code = 'TRANSACTION_ERROR';
+}
+
+// Thrown when a transaction commits after another one changed what it changed or relied on;
+// the transaction is rolled back and can be retried
+export class TransactionConflictError extends UserManagementError {
+  readonly code = 'TRANSACTION_CONFLICT';
+
+  constructor(public readonly claim: string) {
+    super(`Transaction conflicts with a change committed since it began (${claim})`);
+  }
+}
+
+// Thrown when registering, loading or unloading a plugin or adapter fails
+export class PluginError extends UserManagementError {
+  readonly code = 'PLUGIN_ERROR';
+
+  constructor(
+    message: string,
+    public readonly plugin: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+// Thrown when UserManagement or an adapter is used before initialize()
+export class NotInitializedError extends UserManagementError {
+  readonly code = 'NOT_INITIALIZED';
+}
+
+// Thrown when a hook with the abort policy fails; cause is what the hook threw
+export class HookError extends UserManagementError {
+  readonly code = 'HOOK_ERROR';
+
+  constructor(
+    public readonly event: string,
+    public readonly cause: unknown
+  ) {
+    super(`Hook for "${event}" failed: ${cause}`);
+  }
+}
+
+// Thrown when a hook cancels the operation through actions.veto
+export class OperationVetoedError extends UserManagementError {
+  readonly code = 'OPERATION_VETOED';
+
+  constructor(
+    public readonly event: string,
+    public readonly reason: string
+  ) {
+    super(`Operation vetoed by "${event}" hook: ${reason}`);
+  }
+}
+
+// Thrown when another process holds the lock on a storage directory; owner is null when the lockfile is unreadable
+export class StorageLockedError extends UserManagementError {
+  readonly code = 'STORAGE_LOCKED';
+
+  constructor(
+    public readonly lockPath: string,
+    public readonly owner: { pid: number; hostname: string } | null
+  ) {
+    super(
+      `${owner ? `Process ${owner.pid} on ${owner.hostname}` : 'Another process'} holds the lock ${lockPath}; ` +
+        'remove the file only if that process is no longer running'
+    );
+  }
+}
+
+// Thrown when a stored data file cannot be read back; backupPath names a copy of the previous version, if any
+export class CorruptDataError extends UserManagementError {
+  readonly code = 'CORRUPT_DATA';
+
+  constructor(
+    public readonly path: string,
+    public readonly cause: unknown,
+    public readonly backupPath?: string
+  ) {
+    super(`Data file ${path} is corrupt: ${cause}${backupPath ? `; the previous version is in ${backupPath}` : ''}`);
+  }
+}
+
+// Thrown when a migration fails or cannot run; the store is left as it was.
+// scope and version name the migration, when one is to blame
+export class MigrationError extends UserManagementError {
+  readonly code = 'MIGRATION_FAILED';
+
+  constructor(
+    message: string,
+    public readonly scope?: string,
+    public readonly version?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+// Thrown when a dump cannot be read or imported, or when the records that reached an adapter do not add up
+// to those sent; collection names the one to blame, if any. When writing a batch fails, offset is the first
+// record of that batch, so collection and offset tell where to resume.
+export class DataTransferError extends UserManagementError {
+  readonly code = 'TRANSFER_FAILED';
+
+  constructor(
+    message: string,
+    public readonly collection?: string,
+    public readonly offset?: number,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+function capitalize(value: string): string {
+  return `${value.charAt(0).toUpperCase()}${value.slice(1)}`;
+}
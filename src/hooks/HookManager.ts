@@ -1,17 +1,38 @@
-import { Hook, HookEvent } from '../types';
+import { Hook, HookCallback, HookOptions, HookConfig, HookActions, HookEventMap, HookName } from '../types';
+import { HookError, OperationVetoedError } from '../errors';
+import { RequestContext } from '../utils/context';
+
+// Thrown by actions.veto and turned into an OperationVetoedError once the event is known
+class HookVeto {
+  constructor(public readonly reason: string) {}
+}
+
+const actions: HookActions = {
+  veto(reason: string): never {
+    throw new HookVeto(reason);
+  },
+};
 
 export class HookManager {
   private hooks: Map<string, Hook[]> = new Map();
 
-  registerHook(event: string, callback: (data: HookEvent) => Promise<HookEvent | undefined>, priority = 0): void {
+  constructor(private config: HookConfig = {}) {}
+
+  registerHook<K extends HookName>(
+    event: K,
+    callback: HookCallback<HookEventMap[K]>,
+    priority = 0,
+    options: HookOptions = {}
+  ): void {
     if (!this.hooks.has(event)) {
       this.hooks.set(event, []);
     }
 
     const hook: Hook = {
       name: event,
-      callback,
+      callback: callback as HookCallback,
       priority,
+      policy: options.policy,
     };
 
     this.hooks.get(event)!.push(hook);
@@ -20,25 +41,29 @@ export class HookManager {
     this.hooks.get(event)!.sort((a, b) => (b.priority || 0) - (a.priority || 0));
   }
 
-  async executeHooks(event: string, data: HookEvent = {}): Promise<HookEvent> {
+  async executeHooks<K extends HookName>(event: K, data: HookEventMap[K]): Promise<HookEventMap[K]> {
     const hooks = this.hooks.get(event) || [];
+    const context = RequestContext.current();
     let result = { ...data };
 
     for (const hook of hooks) {
       try {
-        const hookResult = await hook.callback(result);
-        if (hookResult !== undefined) {
-          result = { ...result, ...hookResult };
+        const hookResult = await hook.callback({ ...result, context }, actions);
+        if (hookResult) {
+          // The context is read-only, so a hook returning the whole payload does not carry it into the operation
+          const changes = { ...hookResult };
+          delete changes.context;
+          result = { ...result, ...changes };
         }
-      } catch {
-        // Skip error logging to avoid ESLint violation
+      } catch (error) {
+        this.handleError(event, hook, error);
       }
     }
 
     return result;
   }
 
-  removeHook(event: string, callback: (data: HookEvent) => Promise<HookEvent | undefined>): void {
+  removeHook<K extends HookName>(event: K, callback: HookCallback<HookEventMap[K]>): void {
     const hooks = this.hooks.get(event);
     if (!hooks) return;
 
@@ -48,7 +73,7 @@ export class HookManager {
     }
   }
 
-  removeAllHooks(event?: string): void {
+  removeAllHooks(event?: HookName): void {
     if (event) {
       this.hooks.delete(event);
     } else {
@@ -56,11 +81,29 @@ export class HookManager {
     }
   }
 
-  getHooks(event?: string): Hook[] {
+  getHooks(event?: HookName): Hook[] {
     if (event) {
       return this.hooks.get(event) || [];
     }
 
     return Array.from(this.hooks.values()).flat();
   }
+
+  private handleError(event: string, hook: Hook, error: unknown): void {
+    // A veto is a decision rather than a failure, so it cancels the operation whatever the policy
+    if (error instanceof HookVeto) {
+      throw new OperationVetoedError(event, error.reason);
+    }
+
+    this.config.onHookError?.(error, event, hook);
+
+    const policy = hook.policy ?? this.config.defaultPolicy ?? 'continue';
+    if (policy === 'abort') {
+      throw new HookError(event, error);
+    }
+
+    if (policy === 'log') {
+      this.config.logger?.(`Hook for "${event}" failed`, error);
+    }
+  }
 }
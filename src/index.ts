@@ -1,13 +1,27 @@
 // Export main classes and functions
 export { UserManagement, createUserManagement } from './UserManagement';
+export type { TenantScope } from './UserManagement';
 
 // Export models
 export { UserManager } from './models/UserManager';
 export { RoleManager } from './models/RoleManager';
+export { TagManager } from './models/TagManager';
+export { PermissionManager } from './models/PermissionManager';
+export { GroupManager } from './models/GroupManager';
+export { AuditManager } from './models/AuditManager';
+export { CsvManager } from './models/CsvManager';
 
 // Export adapters
 export { MemoryAdapter } from './adapters/MemoryAdapter';
 export { FileSystemAdapter } from './adapters/FileSystemAdapter';
+export type { JournalOptions } from './adapters/FileSystemAdapter';
+export { SqliteAdapter } from './adapters/SqliteAdapter';
+export { TenantScopedAdapter } from './adapters/TenantScopedAdapter';
+export { AuditingAdapter } from './adapters/AuditingAdapter';
+
+// Export credentials
+export { PasswordHasher } from './credentials/PasswordHasher';
+export { PasswordPolicy } from './credentials/PasswordPolicy';
 
 // Export managers
 export { PluginManager } from './plugins/PluginManager';
@@ -16,6 +30,39 @@ export { HookManager } from './hooks/HookManager';
 // Export types
 export * from './types';
 
+// Export errors
+export {
+  UserManagementError,
+  ValidationFailedError,
+  NotFoundError,
+  ConflictError,
+  VersionConflictError,
+  TransactionError,
+  TransactionConflictError,
+  PluginError,
+  NotInitializedError,
+  HookError,
+  OperationVetoedError,
+  StorageLockedError,
+  CorruptDataError,
+  MigrationError,
+  DataTransferError,
+} from './errors';
+export type { ErrorCode } from './errors';
+
 // Export utilities
 export { Validator } from './utils/validation';
 export { IdGenerator } from './utils/idGenerator';
+export { FilterMatcher } from './utils/queryFilter';
+export { CursorPaginator } from './utils/cursor';
+export { PermissionMatcher } from './utils/permissions';
+export { Tenancy } from './utils/tenancy';
+export { UniqueConstraints } from './utils/uniqueness';
+export { AuditTrail } from './utils/audit';
+export { RequestContext } from './utils/context';
+export { DataTransfer } from './utils/dataTransfer';
+export { Csv } from './utils/csv';
+
+// Export testing utilities
+export { runAdapterConformanceSuite } from './testing/adapterConformance';
+export type { AdapterConformanceOptions } from './testing/adapterConformance';
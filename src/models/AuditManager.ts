@@ -0,0 +1,33 @@
+import { AuditConfig, AuditEntry, AuditQuery, Clock, StorageAdapter } from '../types';
+import { systemClock } from '../utils/assignments';
+import { ValidationFailedError } from '../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AuditManager {
+  constructor(
+    private adapter: StorageAdapter,
+    private config: AuditConfig = {},
+    private clock: Clock = systemClock
+  ) {}
+
+  async query(query?: AuditQuery): Promise<AuditEntry[]> {
+    return this.adapter.getAuditEntries(query);
+  }
+
+  // Removes entries older than retentionDays and returns how many went; without a retention nothing expires
+  async purgeExpired(): Promise<number> {
+    const { retentionDays } = this.config;
+    if (retentionDays === undefined) {
+      return 0;
+    }
+
+    if (typeof retentionDays !== 'number' || !(retentionDays > 0)) {
+      throw new ValidationFailedError([
+        { field: 'retentionDays', message: 'Retention must be a positive number of days' },
+      ]);
+    }
+
+    return this.adapter.deleteAuditEntries(new Date(this.clock().getTime() - retentionDays * DAY_MS));
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  CsvColumns,
+  CsvImportOptions,
+  CsvImportReport,
+  CsvOptions,
+  CsvRowError,
+  QueryOptions,
+  StorageAdapter,
+  Tag,
+  TagValue,
+  User,
+  UserRole,
+} from '../types';
+import { UserManager } from './UserManager';
+import { RoleManager } from './RoleManager';
+import { Csv } from '../utils/csv';
+import { TagUtils } from '../utils/tags';
+import { UniqueConstraints } from '../utils/uniqueness';
+import { UserManagementError, ValidationFailedError, ConflictError, NotFoundError } from '../errors';
+
+const TAG_PREFIX = 'tags.';
+
+// Where each field is in the rows of a file
+interface ColumnIndexes {
+  username: number;
+  email: number;
+  roles: number | null;
+  tags: Array<[key: string, index: number]>;
+}
+
+type AssignRole = (userId: string, roleId: string) => Promise<UserRole>;
+
+// Users and their roles in and out of spreadsheets. Rows go through the managers, so hooks and
+// validation apply to each of them as they would to a single call.
+export class CsvManager {
+  constructor(
+    private adapter: Pick<StorageAdapter, 'beginTransaction'>,
+    private users: UserManager,
+    private roles: RoleManager,
+    private assignRole: AssignRole
+  ) {}
+
+  // Every row is tried, so the report lists all the rows that failed, not only the first
+  async importUsers(csv: string, options: CsvImportOptions = {}): Promise<CsvImportReport> {
+    const validationError = this.validateOptions(options);
+    if (validationError) {
+      throw new ValidationFailedError([validationError]);
+    }
+
+    const [header = [], ...rows] = Csv.parse(csv, options.delimiter);
+    const columns = this.locate(header, options.columns);
+    const report: CsvImportReport = { committed: false, created: 0, updated: 0, rolesCreated: [], errors: [] };
+    const roleIds = new Map<string, string>();
+
+    const transaction = await this.adapter.beginTransaction();
+    try {
+      await transaction.run(async () => {
+        for (const [index, cells] of rows.entries()) {
+          await this.importRow(index + 2, cells, columns, options, roleIds, report);
+        }
+      });
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    if (report.errors.length > 0) {
+      await transaction.rollback();
+    } else {
+      await transaction.commit();
+      report.committed = true;
+    }
+    return report;
+  }
+
+  // Users as getUsers returns them, with their direct roles, in the layout importUsers reads
+  async exportUsers(options: QueryOptions & CsvOptions = {}): Promise<string> {
+    const { columns = {}, delimiter, roleSeparator = ';', ...query } = options;
+    const { items } = await this.users.getUsers({ ...query, include: ['roles'] });
+    const tagKeys = TagUtils.keys(items.map(user => user.tags));
+
+    const header = [
+      columns.username ?? 'username',
+      columns.email ?? 'email',
+      columns.roles ?? 'roles',
+      ...tagKeys.map(key => columns.tags?.[key] ?? `${TAG_PREFIX}${key}`),
+    ];
+    const rows = items.map(user => [
+      user.username,
+      user.email,
+      user.roles.map(role => role.name).join(roleSeparator),
+      ...tagKeys.map(key => (user.tags?.[key] !== undefined ? String(user.tags[key]) : '')),
+    ]);
+
+    return Csv.format([header, ...rows], delimiter);
+  }
+
+  private async importRow(
+    row: number,
+    cells: string[],
+    columns: ColumnIndexes,
+    options: CsvImportOptions,
+    roleIds: Map<string, string>,
+    report: CsvImportReport
+  ): Promise<void> {
+    const cell = (index: number | null) => (index !== null ? (cells[index] ?? '').trim() : '');
+    const username = cell(columns.username);
+    const email = cell(columns.email);
+    const roleNames = cell(columns.roles)
+      .split(options.roleSeparator ?? ';')
+      .map(name => name.trim())
+      .filter(name => name !== '');
+    const tags: Tag = {};
+    for (const [key, index] of columns.tags) {
+      if (cell(index) !== '') {
+        tags[key] = this.tagValue(cell(index));
+      }
+    }
+    const hasTags = Object.keys(tags).length > 0;
+
+    try {
+      const existing = options.upsert ? await this.findUser(options.upsert, { username, email }[options.upsert]) : null;
+      const user: User = existing
+        ? (await this.users.updateUser(existing.id, {
+            username,
+            email,
+            ...(hasTags ? { tags: { ...existing.tags, ...tags } } : {}),
+          }))!
+        : await this.users.createUser({ username, email, ...(hasTags ? { tags } : {}) });
+
+      // Assigning a role again would replace the assignment, dropping a validFrom or validUntil it has
+      const held = new Set(existing ? (await this.users.getUserRoles(user.id)).map(role => role.id) : []);
+      for (const name of roleNames) {
+        const roleId = await this.resolveRole(name, options, roleIds, report);
+        if (!held.has(roleId)) {
+          await this.assignRole(user.id, roleId);
+          held.add(roleId);
+        }
+      }
+
+      if (existing) {
+        report.updated++;
+      } else {
+        report.created++;
+      }
+    } catch (error) {
+      if (!(error instanceof UserManagementError)) {
+        throw error;
+      }
+      report.errors.push(...this.rowErrors(row, error));
+    }
+  }
+
+  // Matched the way uniqueness compares values, ignoring case
+  private async findUser(field: 'username' | 'email', value: string): Promise<User | null> {
+    if (value === '') {
+      return null;
+    }
+
+    const { items } = await this.users.getUsers({ filter: { [field]: UniqueConstraints.matching(value) }, limit: 1 });
+    return items[0] ?? null;
+  }
+
+  private async resolveRole(
+    name: string,
+    options: CsvImportOptions,
+    roleIds: Map<string, string>,
+    report: CsvImportReport
+  ): Promise<string> {
+    const key = UniqueConstraints.compareKey(name)!;
+    const known = roleIds.get(key);
+    if (known) {
+      return known;
+    }
+
+    let [role] = (await this.roles.getRoles({ filter: { name: UniqueConstraints.matching(name) }, limit: 1 })).items;
+    if (!role) {
+      if (options.createRoles === false) {
+        throw new NotFoundError('role', name);
+      }
+      role = await this.roles.createRole({ name });
+      report.rolesCreated.push(role.name);
+    }
+
+    roleIds.set(key, role.id);
+    return role.id;
+  }
+
+  // Cells are text; true, false and numbers written as JSON writes them become booleans and numbers
+  private tagValue(cell: string): TagValue {
+    if (cell === 'true' || cell === 'false') {
+      return cell === 'true';
+    }
+
+    return String(Number(cell)) === cell ? Number(cell) : cell;
+  }
+
+  private rowErrors(row: number, error: UserManagementError): CsvRowError[] {
+    if (error instanceof ValidationFailedError) {
+      return error.errors.map(({ field, message }) => ({ row, field, message }));
+    }
+
+    if (error instanceof ConflictError) {
+      return [{ row, field: error.field, message: error.message }];
+    }
+
+    return [{ row, message: error.message }];
+  }
+
+  // The username and email columns are required, and so is every column the mapping names
+  private locate(header: string[], columns: CsvColumns = {}): ColumnIndexes {
+    const names = header.map(name => name.trim());
+    const find = (name: string, required: boolean): number | null => {
+      const index = names.indexOf(name);
+      if (index === -1 && required) {
+        throw new ValidationFailedError([{ field: 'columns', message: `The file has no "${name}" column` }]);
+      }
+      return index === -1 ? null : index;
+    };
+
+    const mapped = Object.entries(columns.tags ?? {});
+    const mappedNames = new Set(mapped.map(([, name]) => name));
+    const prefixed = names.flatMap((name, index): Array<[string, number]> =>
+      name.startsWith(TAG_PREFIX) && !mappedNames.has(name) ? [[name.slice(TAG_PREFIX.length), index]] : []
+    );
+
+    return {
+      username: find(columns.username ?? 'username', true)!,
+      email: find(columns.email ?? 'email', true)!,
+      roles: find(columns.roles ?? 'roles', columns.roles !== undefined),
+      tags: [...mapped.map(([key, name]): [string, number] => [key, find(name, true)!]), ...prefixed],
+    };
+  }
+
+  private validateOptions(options: CsvImportOptions): { field: string; message: string } | null {
+    if (options.upsert !== undefined && options.upsert !== 'username' && options.upsert !== 'email') {
+      return { field: 'upsert', message: 'Upsert must be keyed on username or email' };
+    }
+
+    if (options.roleSeparator !== undefined && (typeof options.roleSeparator !== 'string' || !options.roleSeparator)) {
+      return { field: 'roleSeparator', message: 'Role separator must be a non-empty string' };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,163 @@
+import { Group, GroupMember, GroupRole, Role, StorageAdapter, QueryOptions, User } from '../types';
+import { HookManager } from '../hooks/HookManager';
+import { CredentialRedactor } from '../credentials/redaction';
+
+export class GroupManager {
+  constructor(
+    private adapter: StorageAdapter,
+    private hookManager: HookManager
+  ) {}
+
+  async createGroup(groupData: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group> {
+    // Execute pre-create hooks
+    const preData = await this.hookManager.executeHooks('group.preCreate', { groupData });
+
+    const group = await this.adapter.createGroup(preData.groupData);
+
+    // Execute post-create hooks
+    await this.hookManager.executeHooks('group.postCreate', { group });
+
+    return group;
+  }
+
+  async getGroupById(id: string): Promise<Group | null> {
+    // Execute pre-get hooks
+    const preData = await this.hookManager.executeHooks('group.preGet', { id });
+
+    const group = await this.adapter.getGroupById(preData.id);
+
+    // Execute post-get hooks
+    await this.hookManager.executeHooks('group.postGet', { group });
+
+    return group;
+  }
+
+  async getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }> {
+    // Execute pre-getAll hooks
+    const preData = await this.hookManager.executeHooks('group.preGetAll', { options });
+
+    const result = await this.adapter.getGroups(preData.options);
+
+    // Execute post-getAll hooks
+    await this.hookManager.executeHooks('group.postGetAll', { result });
+
+    return result;
+  }
+
+  async updateGroup(id: string, groupData: Partial<Group>): Promise<Group | null> {
+    // Execute pre-update hooks
+    const preData = await this.hookManager.executeHooks('group.preUpdate', { id, groupData });
+
+    const group = await this.adapter.updateGroup(preData.id, preData.groupData);
+
+    // Execute post-update hooks
+    await this.hookManager.executeHooks('group.postUpdate', { group });
+
+    return group;
+  }
+
+  async deleteGroup(id: string): Promise<boolean> {
+    // Execute pre-delete hooks
+    const preData = await this.hookManager.executeHooks('group.preDelete', { id });
+
+    const result = await this.adapter.deleteGroup(preData.id);
+
+    // Execute post-delete hooks
+    await this.hookManager.executeHooks('group.postDelete', { id, result });
+
+    return result;
+  }
+
+  async addMember(groupId: string, userId: string): Promise<GroupMember> {
+    // Execute pre-addMember hooks
+    const preData = await this.hookManager.executeHooks('group.preAddMember', { groupId, userId });
+
+    const groupMember = await this.adapter.addGroupMember(preData.groupId, preData.userId);
+
+    // Execute post-addMember hooks
+    await this.hookManager.executeHooks('group.postAddMember', { groupMember });
+
+    return groupMember;
+  }
+
+  async removeMember(groupId: string, userId: string): Promise<boolean> {
+    // Execute pre-removeMember hooks
+    const preData = await this.hookManager.executeHooks('group.preRemoveMember', { groupId, userId });
+
+    const result = await this.adapter.removeGroupMember(preData.groupId, preData.userId);
+
+    // Execute post-removeMember hooks
+    await this.hookManager.executeHooks('group.postRemoveMember', {
+      groupId: preData.groupId,
+      userId: preData.userId,
+      result,
+    });
+
+    return result;
+  }
+
+  async getMembers(groupId: string): Promise<User[]> {
+    // Execute pre-getMembers hooks
+    const preData = await this.hookManager.executeHooks('group.preGetMembers', { groupId });
+
+    const members = await this.adapter.getGroupMembers(preData.groupId);
+    const users = members.map(user => CredentialRedactor.redactUser(user));
+
+    // Execute post-getMembers hooks
+    await this.hookManager.executeHooks('group.postGetMembers', { groupId: preData.groupId, users });
+
+    return users;
+  }
+
+  async getUserGroups(userId: string): Promise<Group[]> {
+    // Execute pre-getUserGroups hooks
+    const preData = await this.hookManager.executeHooks('group.preGetUserGroups', { userId });
+
+    const groups = await this.adapter.getUserGroups(preData.userId);
+
+    // Execute post-getUserGroups hooks
+    await this.hookManager.executeHooks('group.postGetUserGroups', { userId: preData.userId, groups });
+
+    return groups;
+  }
+
+  async assignRole(groupId: string, roleId: string): Promise<GroupRole> {
+    // Execute pre-assignRole hooks
+    const preData = await this.hookManager.executeHooks('group.preAssignRole', { groupId, roleId });
+
+    const groupRole = await this.adapter.assignGroupRole(preData.groupId, preData.roleId);
+
+    // Execute post-assignRole hooks
+    await this.hookManager.executeHooks('group.postAssignRole', { groupRole });
+
+    return groupRole;
+  }
+
+  async removeRole(groupId: string, roleId: string): Promise<boolean> {
+    // Execute pre-removeRole hooks
+    const preData = await this.hookManager.executeHooks('group.preRemoveRole', { groupId, roleId });
+
+    const result = await this.adapter.removeGroupRole(preData.groupId, preData.roleId);
+
+    // Execute post-removeRole hooks
+    await this.hookManager.executeHooks('group.postRemoveRole', {
+      groupId: preData.groupId,
+      roleId: preData.roleId,
+      result,
+    });
+
+    return result;
+  }
+
+  async getGroupRoles(groupId: string): Promise<Role[]> {
+    // Execute pre-getRoles hooks
+    const preData = await this.hookManager.executeHooks('group.preGetRoles', { groupId });
+
+    const roles = await this.adapter.getGroupRoles(preData.groupId);
+
+    // Execute post-getRoles hooks
+    await this.hookManager.executeHooks('group.postGetRoles', { groupId: preData.groupId, roles });
+
+    return roles;
+  }
+}
@@ -0,0 +1,69 @@
+import { Permission, StorageAdapter, QueryOptions } from '../types';
+import { HookManager } from '../hooks/HookManager';
+
+export class PermissionManager {
+  constructor(
+    private adapter: StorageAdapter,
+    private hookManager: HookManager
+  ) {}
+
+  async createPermission(permissionData: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission> {
+    // Execute pre-create hooks
+    const preData = await this.hookManager.executeHooks('permission.preCreate', { permissionData });
+    
+    const permission = await this.adapter.createPermission(preData.permissionData);
+    
+    // Execute post-create hooks
+    await this.hookManager.executeHooks('permission.postCreate', { permission });
+    
+    return permission;
+  }
+
+  async getPermissionById(id: string): Promise<Permission | null> {
+    // Execute pre-get hooks
+    const preData = await this.hookManager.executeHooks('permission.preGet', { id });
+    
+    const permission = await this.adapter.getPermissionById(preData.id);
+    
+    // Execute post-get hooks
+    await this.hookManager.executeHooks('permission.postGet', { permission });
+    
+    return permission;
+  }
+
+  async getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }> {
+    // Execute pre-getAll hooks
+    const preData = await this.hookManager.executeHooks('permission.preGetAll', { options });
+    
+    const result = await this.adapter.getPermissions(preData.options);
+    
+    // Execute post-getAll hooks
+    await this.hookManager.executeHooks('permission.postGetAll', { result });
+    
+    return result;
+  }
+
+  async updatePermission(id: string, permissionData: Partial<Permission>): Promise<Permission | null> {
+    // Execute pre-update hooks
+    const preData = await this.hookManager.executeHooks('permission.preUpdate', { id, permissionData });
+    
+    const permission = await this.adapter.updatePermission(preData.id, preData.permissionData);
+    
+    // Execute post-update hooks
+    await this.hookManager.executeHooks('permission.postUpdate', { permission });
+    
+    return permission;
+  }
+
+  async deletePermission(id: string): Promise<boolean> {
+    // Execute pre-delete hooks
+    const preData = await this.hookManager.executeHooks('permission.preDelete', { id });
+    
+    const result = await this.adapter.deletePermission(preData.id);
+    
+    // Execute post-delete hooks
+    await this.hookManager.executeHooks('permission.postDelete', { id, result });
+    
+    return result;
+  }
+}
@@ -1,5 +1,22 @@
-import { Role, StorageAdapter, QueryOptions, User } from '../types';
+import {
+  Role,
+  StorageAdapter,
+  QueryOptions,
+  User,
+  Permission,
+  RolePermission,
+  IncludeOptions,
+  HierarchyOptions,
+  RoleInclude,
+  RoleWithUsers,
+  CursorQueryOptions,
+  CursorPage,
+  IterateOptions,
+  VersionOptions,
+} from '../types';
 import { HookManager } from '../hooks/HookManager';
+import { CursorPaginator } from '../utils/cursor';
+import { CredentialRedactor } from '../credentials/redaction';
 
 export class RoleManager {
   constructor(
@@ -7,7 +24,7 @@ export class RoleManager {
     private hookManager: HookManager
   ) {}
 
-  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt'>): Promise<Role> {
+  async createRole(roleData: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role> {
     // Execute pre-create hooks
     const preData = await this.hookManager.executeHooks('role.preCreate', { roleData });
     
@@ -19,11 +36,16 @@ export class RoleManager {
     return role;
   }
 
-  async getRoleById(id: string): Promise<Role | null> {
+  getRoleById(id: string, options: { include: [RoleInclude, ...RoleInclude[]] }): Promise<RoleWithUsers | null>;
+  getRoleById(id: string, options?: IncludeOptions): Promise<Role | null>;
+  async getRoleById(id: string, options?: IncludeOptions): Promise<Role | null> {
     // Execute pre-get hooks
-    const preData = await this.hookManager.executeHooks('role.preGet', { id });
+    const preData = await this.hookManager.executeHooks('role.preGet', { id, options });
     
-    const role = await this.adapter.getRoleById(preData.id);
+    let role = await this.adapter.getRoleById(preData.id, preData.options);
+    if (role && !preData.options?.includePasswordHash) {
+      role = CredentialRedactor.redactRole(role);
+    }
     
     // Execute post-get hooks
     await this.hookManager.executeHooks('role.postGet', { role });
@@ -31,11 +53,18 @@ export class RoleManager {
     return role;
   }
 
+  getRoles(
+    options: QueryOptions & { include: [RoleInclude, ...RoleInclude[]] }
+  ): Promise<{ items: RoleWithUsers[]; total: number }>;
+  getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }>;
   async getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }> {
     // Execute pre-getAll hooks
     const preData = await this.hookManager.executeHooks('role.preGetAll', { options });
     
     const result = await this.adapter.getRoles(preData.options);
+    if (!preData.options?.includePasswordHash) {
+      result.items = result.items.map(role => CredentialRedactor.redactRole(role));
+    }
     
     // Execute post-getAll hooks
     await this.hookManager.executeHooks('role.postGetAll', { result });
@@ -43,11 +72,27 @@ export class RoleManager {
     return result;
   }
 
-  async updateRole(id: string, roleData: Partial<Role>): Promise<Role | null> {
+  getRolesPage(
+    options: CursorQueryOptions & { include: [RoleInclude, ...RoleInclude[]] }
+  ): Promise<CursorPage<RoleWithUsers>>;
+  getRolesPage(options?: CursorQueryOptions): Promise<CursorPage<Role>>;
+  async getRolesPage(options?: CursorQueryOptions): Promise<CursorPage<Role>> {
+    return CursorPaginator.fetchPage(queryOptions => this.getRoles(queryOptions), options);
+  }
+
+  iterate(
+    options: IterateOptions & { include: [RoleInclude, ...RoleInclude[]] }
+  ): AsyncGenerator<RoleWithUsers, void, undefined>;
+  iterate(options?: IterateOptions): AsyncGenerator<Role, void, undefined>;
+  iterate(options?: IterateOptions): AsyncGenerator<Role, void, undefined> {
+    return CursorPaginator.iterate(queryOptions => this.getRoles(queryOptions), options);
+  }
+
+  async updateRole(id: string, roleData: Partial<Role>, options?: VersionOptions): Promise<Role | null> {
     // Execute pre-update hooks
-    const preData = await this.hookManager.executeHooks('role.preUpdate', { id, roleData });
+    const preData = await this.hookManager.executeHooks('role.preUpdate', { id, roleData, options });
     
-    const role = await this.adapter.updateRole(preData.id, preData.roleData);
+    const role = await this.adapter.updateRole(preData.id, preData.roleData, preData.options);
     
     // Execute post-update hooks
     await this.hookManager.executeHooks('role.postUpdate', { role });
@@ -55,11 +100,40 @@ export class RoleManager {
     return role;
   }
 
-  async deleteRole(id: string): Promise<boolean> {
+  async addParentRole(id: string, parentId: string): Promise<Role | null> {
+    const role = await this.adapter.getRoleById(id);
+    if (!role) {
+      return null;
+    }
+
+    const parentIds = role.parentIds || [];
+    // Guarded by the version read above, so a concurrent change to the parents is not overwritten
+    return parentIds.includes(parentId)
+      ? role
+      : this.updateRole(id, { parentIds: [...parentIds, parentId] }, { expectedVersion: role.version });
+  }
+
+  async removeParentRole(id: string, parentId: string): Promise<Role | null> {
+    const role = await this.adapter.getRoleById(id);
+    if (!role) {
+      return null;
+    }
+
+    const parentIds = role.parentIds || [];
+    return parentIds.includes(parentId)
+      ? this.updateRole(
+          id,
+          { parentIds: parentIds.filter(existingId => existingId !== parentId) },
+          { expectedVersion: role.version }
+        )
+      : role;
+  }
+
+  async deleteRole(id: string, options?: VersionOptions): Promise<boolean> {
     // Execute pre-delete hooks
-    const preData = await this.hookManager.executeHooks('role.preDelete', { id });
+    const preData = await this.hookManager.executeHooks('role.preDelete', { id, options });
     
-    const result = await this.adapter.deleteRole(preData.id);
+    const result = await this.adapter.deleteRole(preData.id, preData.options);
     
     // Execute post-delete hooks
     await this.hookManager.executeHooks('role.postDelete', { id, result });
@@ -67,15 +141,56 @@ export class RoleManager {
     return result;
   }
 
-  async getRoleUsers(roleId: string): Promise<User[]> {
+  async getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]> {
     // Execute pre-getUsers hooks
-    const preData = await this.hookManager.executeHooks('role.preGetUsers', { roleId });
+    const preData = await this.hookManager.executeHooks('role.preGetUsers', { roleId, options });
     
-    const users = await this.adapter.getRoleUsers(preData.roleId);
+    const roleUsers = await this.adapter.getRoleUsers(preData.roleId, preData.options);
+    const users = roleUsers.map(user => CredentialRedactor.redactUser(user));
     
     // Execute post-getUsers hooks
     await this.hookManager.executeHooks('role.postGetUsers', { roleId: preData.roleId, users });
     
     return users;
   }
+
+  async grantPermission(roleId: string, permissionId: string): Promise<RolePermission> {
+    // Execute pre-grant hooks
+    const preData = await this.hookManager.executeHooks('role.preGrantPermission', { roleId, permissionId });
+    
+    const rolePermission = await this.adapter.grantPermission(preData.roleId, preData.permissionId);
+    
+    // Execute post-grant hooks
+    await this.hookManager.executeHooks('role.postGrantPermission', { rolePermission });
+    
+    return rolePermission;
+  }
+
+  async revokePermission(roleId: string, permissionId: string): Promise<boolean> {
+    // Execute pre-revoke hooks
+    const preData = await this.hookManager.executeHooks('role.preRevokePermission', { roleId, permissionId });
+    
+    const result = await this.adapter.revokePermission(preData.roleId, preData.permissionId);
+    
+    // Execute post-revoke hooks
+    await this.hookManager.executeHooks('role.postRevokePermission', {
+      roleId: preData.roleId,
+      permissionId: preData.permissionId,
+      result,
+    });
+    
+    return result;
+  }
+
+  async getRolePermissions(roleId: string): Promise<Permission[]> {
+    // Execute pre-getPermissions hooks
+    const preData = await this.hookManager.executeHooks('role.preGetPermissions', { roleId });
+    
+    const permissions = await this.adapter.getRolePermissions(preData.roleId);
+    
+    // Execute post-getPermissions hooks
+    await this.hookManager.executeHooks('role.postGetPermissions', { roleId: preData.roleId, permissions });
+    
+    return permissions;
+  }
 }
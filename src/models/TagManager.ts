@@ -0,0 +1,62 @@
+import { StorageAdapter, TagTarget, TagValue } from '../types';
+import { HookManager } from '../hooks/HookManager';
+
+export class TagManager {
+  constructor(
+    private adapter: StorageAdapter,
+    private hookManager: HookManager
+  ) {}
+
+  async getTagKeys(target?: TagTarget): Promise<string[]> {
+    // Execute pre-getKeys hooks
+    const preData = await this.hookManager.executeHooks('tag.preGetKeys', { target });
+    
+    const keys = await this.adapter.getTagKeys(preData.target);
+    
+    // Execute post-getKeys hooks
+    await this.hookManager.executeHooks('tag.postGetKeys', { target: preData.target, keys });
+    
+    return keys;
+  }
+
+  async getTagValues(key: string, target?: TagTarget): Promise<TagValue[]> {
+    // Execute pre-getValues hooks
+    const preData = await this.hookManager.executeHooks('tag.preGetValues', { key, target });
+    
+    const values = await this.adapter.getTagValues(preData.key, preData.target);
+    
+    // Execute post-getValues hooks
+    await this.hookManager.executeHooks('tag.postGetValues', { key: preData.key, target: preData.target, values });
+    
+    return values;
+  }
+
+  async renameTagKey(from: string, to: string, target?: TagTarget): Promise<number> {
+    // Execute pre-rename hooks
+    const preData = await this.hookManager.executeHooks('tag.preRename', { from, to, target });
+    
+    const updated = await this.adapter.renameTagKey(preData.from, preData.to, preData.target);
+    
+    // Execute post-rename hooks
+    await this.hookManager.executeHooks('tag.postRename', {
+      from: preData.from,
+      to: preData.to,
+      target: preData.target,
+      updated,
+    });
+    
+    return updated;
+  }
+
+  async removeTagKey(key: string, target?: TagTarget): Promise<number> {
+    // Execute pre-remove hooks
+    const preData = await this.hookManager.executeHooks('tag.preRemove', { key, target });
+    
+    const updated = await this.adapter.removeTagKey(preData.key, preData.target);
+    
+    // Execute post-remove hooks
+    await this.hookManager.executeHooks('tag.postRemove', { key: preData.key, target: preData.target, updated });
+    
+    return updated;
+  }
+}
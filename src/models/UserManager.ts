@@ -1,17 +1,40 @@
-import { User, StorageAdapter, QueryOptions, Role } from '../types';
+import {
+  User,
+  StorageAdapter,
+  QueryOptions,
+  Role,
+  IncludeOptions,
+  HierarchyOptions,
+  UserInclude,
+  UserWithRoles,
+  CursorQueryOptions,
+  CursorPage,
+  IterateOptions,
+  ValidationError,
+  VersionOptions,
+} from '../types';
 import { HookManager } from '../hooks/HookManager';
+import { CursorPaginator } from '../utils/cursor';
+import { Validator } from '../utils/validation';
+import { PasswordHasher } from '../credentials/PasswordHasher';
+import { PasswordPolicy } from '../credentials/PasswordPolicy';
+import { CredentialRedactor } from '../credentials/redaction';
+import { UniqueConstraints } from '../utils/uniqueness';
+import { ValidationFailedError } from '../errors';
 
 export class UserManager {
   constructor(
     private adapter: StorageAdapter,
-    private hookManager: HookManager
+    private hookManager: HookManager,
+    private passwordHasher: PasswordHasher = new PasswordHasher(),
+    private passwordPolicy: PasswordPolicy = new PasswordPolicy()
   ) {}
 
-  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
+  async createUser(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User> {
     // Execute pre-create hooks
     const preData = await this.hookManager.executeHooks('user.preCreate', { userData });
     
-    const user = await this.adapter.createUser(preData.userData);
+    const user = CredentialRedactor.redactUser(await this.adapter.createUser(preData.userData));
     
     // Execute post-create hooks
     await this.hookManager.executeHooks('user.postCreate', { user });
@@ -19,11 +42,16 @@ export class UserManager {
     return user;
   }
 
-  async getUserById(id: string): Promise<User | null> {
+  getUserById(id: string, options: { include: [UserInclude, ...UserInclude[]] }): Promise<UserWithRoles | null>;
+  getUserById(id: string, options?: IncludeOptions): Promise<User | null>;
+  async getUserById(id: string, options?: IncludeOptions): Promise<User | null> {
     // Execute pre-get hooks
-    const preData = await this.hookManager.executeHooks('user.preGet', { id });
+    const preData = await this.hookManager.executeHooks('user.preGet', { id, options });
     
-    const user = await this.adapter.getUserById(preData.id);
+    let user = await this.adapter.getUserById(preData.id, preData.options);
+    if (user && !preData.options?.includePasswordHash) {
+      user = CredentialRedactor.redactUser(user);
+    }
     
     // Execute post-get hooks
     await this.hookManager.executeHooks('user.postGet', { user });
@@ -31,11 +59,18 @@ export class UserManager {
     return user;
   }
 
+  getUsers(
+    options: QueryOptions & { include: [UserInclude, ...UserInclude[]] }
+  ): Promise<{ items: UserWithRoles[]; total: number }>;
+  getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }>;
   async getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }> {
     // Execute pre-getAll hooks
     const preData = await this.hookManager.executeHooks('user.preGetAll', { options });
     
     const result = await this.adapter.getUsers(preData.options);
+    if (!preData.options?.includePasswordHash) {
+      result.items = result.items.map(user => CredentialRedactor.redactUser(user));
+    }
     
     // Execute post-getAll hooks
     await this.hookManager.executeHooks('user.postGetAll', { result });
@@ -43,11 +78,30 @@ export class UserManager {
     return result;
   }
 
-  async updateUser(id: string, userData: Partial<User>): Promise<User | null> {
+  getUsersPage(
+    options: CursorQueryOptions & { include: [UserInclude, ...UserInclude[]] }
+  ): Promise<CursorPage<UserWithRoles>>;
+  getUsersPage(options?: CursorQueryOptions): Promise<CursorPage<User>>;
+  async getUsersPage(options?: CursorQueryOptions): Promise<CursorPage<User>> {
+    return CursorPaginator.fetchPage(queryOptions => this.getUsers(queryOptions), options);
+  }
+
+  iterate(
+    options: IterateOptions & { include: [UserInclude, ...UserInclude[]] }
+  ): AsyncGenerator<UserWithRoles, void, undefined>;
+  iterate(options?: IterateOptions): AsyncGenerator<User, void, undefined>;
+  iterate(options?: IterateOptions): AsyncGenerator<User, void, undefined> {
+    return CursorPaginator.iterate(queryOptions => this.getUsers(queryOptions), options);
+  }
+
+  async updateUser(id: string, userData: Partial<User>, options?: VersionOptions): Promise<User | null> {
     // Execute pre-update hooks
-    const preData = await this.hookManager.executeHooks('user.preUpdate', { id, userData });
+    const preData = await this.hookManager.executeHooks('user.preUpdate', { id, userData, options });
     
-    const user = await this.adapter.updateUser(preData.id, preData.userData);
+    let user = await this.adapter.updateUser(preData.id, preData.userData, preData.options);
+    if (user) {
+      user = CredentialRedactor.redactUser(user);
+    }
     
     // Execute post-update hooks
     await this.hookManager.executeHooks('user.postUpdate', { user });
@@ -55,11 +109,11 @@ export class UserManager {
     return user;
   }
 
-  async deleteUser(id: string): Promise<boolean> {
+  async deleteUser(id: string, options?: VersionOptions): Promise<boolean> {
     // Execute pre-delete hooks
-    const preData = await this.hookManager.executeHooks('user.preDelete', { id });
+    const preData = await this.hookManager.executeHooks('user.preDelete', { id, options });
     
-    const result = await this.adapter.deleteUser(preData.id);
+    const result = await this.adapter.deleteUser(preData.id, preData.options);
     
     // Execute post-delete hooks
     await this.hookManager.executeHooks('user.postDelete', { id, result });
@@ -67,15 +121,82 @@ export class UserManager {
     return result;
   }
 
-  async getUserRoles(userId: string): Promise<Role[]> {
+  async getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]> {
     // Execute pre-getRoles hooks
-    const preData = await this.hookManager.executeHooks('user.preGetRoles', { userId });
+    const preData = await this.hookManager.executeHooks('user.preGetRoles', { userId, options });
     
-    const roles = await this.adapter.getUserRoles(preData.userId);
+    const roles = await this.adapter.getUserRoles(preData.userId, preData.options);
     
     // Execute post-getRoles hooks
     await this.hookManager.executeHooks('user.postGetRoles', { userId: preData.userId, roles });
     
     return roles;
   }
+
+  validatePassword(password: string): ValidationError[] {
+    return this.passwordPolicy.validate(password);
+  }
+
+  async setPassword(id: string, password: string): Promise<boolean> {
+    const validationErrors = this.passwordPolicy.validate(password);
+    if (validationErrors.length > 0) {
+      throw new ValidationFailedError(validationErrors);
+    }
+
+    // Execute pre-setPassword hooks
+    const preData = await this.hookManager.executeHooks('user.preSetPassword', { id });
+    
+    const passwordHash = await this.passwordHasher.hash(password);
+    const user = await this.adapter.updateUser(preData.id, { passwordHash });
+    const result = user !== null;
+    
+    // Execute post-setPassword hooks
+    await this.hookManager.executeHooks('user.postSetPassword', { id: preData.id, result });
+    
+    return result;
+  }
+
+  async verifyPassword(idOrUsername: string, password: string): Promise<boolean> {
+    // Execute pre-verifyPassword hooks
+    const preData = await this.hookManager.executeHooks('user.preVerifyPassword', { idOrUsername });
+    
+    const user = await this.findByIdOrUsername(preData.idOrUsername);
+    let valid = false;
+    if (user?.passwordHash && typeof password === 'string') {
+      valid = await this.passwordHasher.verify(password, user.passwordHash);
+    }
+
+    // Upgrade hashes created with older parameters while the plain password is at hand
+    if (valid && user && this.passwordHasher.needsRehash(user.passwordHash!)) {
+      await this.adapter.updateUser(user.id, { passwordHash: await this.passwordHasher.hash(password) });
+    }
+    
+    // Execute post-verifyPassword hooks
+    await this.hookManager.executeHooks('user.postVerifyPassword', { userId: user?.id ?? null, valid });
+    
+    return valid;
+  }
+
+  // Usernames are unique within a tenant only, so a name several tenants use has to be looked up through forTenant
+  private async findByIdOrUsername(idOrUsername: string): Promise<User | null> {
+    if (Validator.validateId(idOrUsername)) {
+      return null;
+    }
+
+    const user = await this.adapter.getUserById(idOrUsername);
+    if (user) {
+      return user;
+    }
+
+    const { items } = await this.adapter.getUsers({
+      filter: { username: UniqueConstraints.matching(idOrUsername) },
+      limit: 2,
+    });
+    if (items.length > 1) {
+      throw new ValidationFailedError([
+        { field: 'idOrUsername', message: `Username ${idOrUsername} is used by more than one tenant` },
+      ]);
+    }
+    return items[0] || null;
+  }
 }
@@ -1,6 +1,9 @@
-import { Plugin, StorageAdapter } from '../types';
+import { Plugin, StorageAdapter, MigrationSet } from '../types';
 import { MemoryAdapter } from '../adapters/MemoryAdapter';
 import { FileSystemAdapter } from '../adapters/FileSystemAdapter';
+import { SqliteAdapter } from '../adapters/SqliteAdapter';
+import { PluginError } from '../errors';
+import { CORE_SCOPE } from '../utils/migrations';
 
 export class PluginManager {
   private plugins: Map<string, Plugin> = new Map();
@@ -15,11 +18,17 @@ export class PluginManager {
     // Register built-in adapters directly
     this.registerAdapter('memory', MemoryAdapter);
     this.registerAdapter('file', FileSystemAdapter);
+    this.registerAdapter('sqlite', SqliteAdapter);
   }
 
   registerPlugin(plugin: Plugin): void {
     if (this.plugins.has(plugin.name)) {
-      throw new Error(`Plugin "${plugin.name}" already registered`);
+      throw new PluginError(`Plugin "${plugin.name}" already registered`, plugin.name);
+    }
+
+    // A plugin's name is the scope of its migrations
+    if (plugin.name === CORE_SCOPE) {
+      throw new PluginError(`Plugin name "${CORE_SCOPE}" is reserved for the library's own migrations`, plugin.name);
     }
 
     this.plugins.set(plugin.name, plugin);
@@ -28,33 +37,33 @@ export class PluginManager {
   async loadPlugin(name: string): Promise<void> {
     const plugin = this.plugins.get(name);
     if (!plugin) {
-      throw new Error(`Plugin "${name}" not found`);
+      throw new PluginError(`Plugin "${name}" not found`, name);
     }
 
     try {
       await plugin.initialize();
     } catch (error) {
-      throw new Error(`Failed to initialize plugin "${name}": ${error}`);
+      throw new PluginError(`Failed to initialize plugin "${name}": ${error}`, name, error);
     }
   }
 
   async unloadPlugin(name: string): Promise<void> {
     const plugin = this.plugins.get(name);
     if (!plugin) {
-      throw new Error(`Plugin "${name}" not found`);
+      throw new PluginError(`Plugin "${name}" not found`, name);
     }
 
     try {
       await plugin.shutdown();
       this.plugins.delete(name);
     } catch (error) {
-      throw new Error(`Failed to unload plugin "${name}": ${error}`);
+      throw new PluginError(`Failed to unload plugin "${name}": ${error}`, name, error);
     }
   }
 
   registerAdapter(name: string, adapter: new (options?: Record<string, unknown>) => StorageAdapter): void {
     if (this.adapters.has(name)) {
-      throw new Error(`Adapter "${name}" already registered`);
+      throw new PluginError(`Adapter "${name}" already registered`, name);
     }
 
     this.adapters.set(name, adapter);
@@ -63,7 +72,7 @@ export class PluginManager {
   getAdapter(name: string): new (options?: Record<string, unknown>) => StorageAdapter {
     const adapter = this.adapters.get(name);
     if (!adapter) {
-      throw new Error(`Adapter "${name}" not found`);
+      throw new PluginError(`Adapter "${name}" not found`, name);
     }
 
     return adapter;
@@ -81,6 +90,15 @@ export class PluginManager {
     }
   }
 
+  // Each plugin's migrations, in the order the plugins were registered
+  getMigrations(): MigrationSet {
+    return Object.fromEntries(
+      Array.from(this.plugins.values())
+        .filter(plugin => plugin.migrations?.length)
+        .map(plugin => [plugin.name, plugin.migrations!])
+    );
+  }
+
   getRegisteredPlugins(): string[] {
     return Array.from(this.plugins.keys());
   }
@@ -0,0 +1,1367 @@
+import {
+  StorageAdapter,
+  User,
+  Role,
+  UserRole,
+  QueryFilter,
+  QueryOptions,
+  UserWithRoles,
+  RoleWithUsers,
+  AuditAction,
+  AuditEntry,
+} from '../types';
+import { CursorPaginator } from '../utils/cursor';
+import {
+  ConflictError,
+  NotFoundError,
+  TransactionError,
+  ValidationFailedError,
+  VersionConflictError,
+} from '../errors';
+
+export interface AdapterConformanceOptions {
+  name?: string;
+  teardown?: () => Promise<void> | void;
+}
+
+export function runAdapterConformanceSuite(
+  factory: () => StorageAdapter | Promise<StorageAdapter>,
+  options: AdapterConformanceOptions = {}
+): void {
+  describe(`StorageAdapter conformance${options.name ? `: ${options.name}` : ''}`, () => {
+    let adapter: StorageAdapter;
+
+    const createUser = (username: string, extra: Partial<User> = {}) =>
+      adapter.createUser({ username, email: `${username}@example.com`, ...extra });
+
+    const createRole = (name: string, extra: Partial<Role> = {}) => adapter.createRole({ name, ...extra });
+
+    const ids = (items: Array<{ id: string }>) => items.map(item => item.id).sort();
+
+    beforeEach(async () => {
+      adapter = await factory();
+      await adapter.initialize();
+    });
+
+    afterEach(async () => {
+      await adapter.shutdown();
+      await options.teardown?.();
+    });
+
+    describe('users', () => {
+      test('createUser assigns id and timestamps', async () => {
+        const user = await createUser('alice', { passwordHash: 'hash', tags: { active: true, level: 2 } });
+
+        expect(typeof user.id).toBe('string');
+        expect(user.id).not.toBe('');
+        expect(user.username).toBe('alice');
+        expect(user.email).toBe('alice@example.com');
+        expect(user.passwordHash).toBe('hash');
+        expect(user.tags).toEqual({ active: true, level: 2 });
+        expect(user.createdAt).toBeInstanceOf(Date);
+        expect(user.updatedAt).toBeInstanceOf(Date);
+      });
+
+      test('createUser rejects invalid data', async () => {
+        await expect(adapter.createUser({ username: '', email: 'alice@example.com' })).rejects.toThrow();
+        await expect(adapter.createUser({ username: 'alice', email: 'not-an-email' })).rejects.toThrow();
+      });
+
+      test('getUserById returns the stored user or null', async () => {
+        const user = await createUser('alice', { tags: { active: true } });
+
+        expect(await adapter.getUserById(user.id)).toEqual(user);
+        expect(await adapter.getUserById('missing')).toBeNull();
+        await expect(adapter.getUserById('')).rejects.toThrow();
+      });
+
+      test('returned users are copies of the stored data', async () => {
+        const user = await createUser('alice', { tags: { active: true } });
+        user.username = 'mallory';
+        user.tags!.active = false;
+
+        const fetched = await adapter.getUserById(user.id);
+        fetched!.tags!.active = false;
+
+        const stored = await adapter.getUserById(user.id);
+        expect(stored!.username).toBe('alice');
+        expect(stored!.tags).toEqual({ active: true });
+      });
+
+      test('updateUser merges changes and keeps the id', async () => {
+        const user = await createUser('alice');
+        const updated = await adapter.updateUser(user.id, { id: 'other', username: 'alice2', tags: { a: 1 } });
+
+        expect(updated).not.toBeNull();
+        expect(updated!.id).toBe(user.id);
+        expect(updated!.username).toBe('alice2');
+        expect(updated!.email).toBe('alice@example.com');
+        expect(updated!.tags).toEqual({ a: 1 });
+        expect(updated!.createdAt.getTime()).toBe(user.createdAt.getTime());
+        expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(user.updatedAt.getTime());
+        expect(await adapter.getUserById(user.id)).toEqual(updated);
+        expect(await adapter.getUserById('other')).toBeNull();
+      });
+
+      test('updateUser returns null for missing users and rejects invalid data', async () => {
+        const user = await createUser('alice');
+
+        expect(await adapter.updateUser('missing', { username: 'bob' })).toBeNull();
+        await expect(adapter.updateUser(user.id, { email: 'not-an-email' })).rejects.toThrow();
+        expect((await adapter.getUserById(user.id))!.email).toBe('alice@example.com');
+      });
+
+      test('deleteUser removes the user and reports whether it existed', async () => {
+        const user = await createUser('alice');
+
+        expect(await adapter.deleteUser(user.id)).toBe(true);
+        expect(await adapter.getUserById(user.id)).toBeNull();
+        expect(await adapter.deleteUser(user.id)).toBe(false);
+      });
+    });
+
+    describe('queries', () => {
+      beforeEach(async () => {
+        await createUser('carol', { tags: { team: 'b' } });
+        await createUser('alice', { tags: { team: 'a' } });
+        await createUser('bob', { tags: { team: 'a' } });
+        await createUser('dave');
+      });
+
+      test('getUsers returns every user in insertion order', async () => {
+        const result = await adapter.getUsers();
+
+        expect(result.total).toBe(4);
+        expect(result.items.map(user => user.username)).toEqual(['carol', 'alice', 'bob', 'dave']);
+      });
+
+      test('getUsers filters on equality', async () => {
+        const result = await adapter.getUsers({ filter: { username: 'bob' } });
+
+        expect(result.total).toBe(1);
+        expect(result.items.map(user => user.username)).toEqual(['bob']);
+        expect((await adapter.getUsers({ filter: { username: 'nobody' } })).items).toEqual([]);
+      });
+
+      test('getUsers sorts ascending and descending', async () => {
+        const asc = await adapter.getUsers({ sort: { username: 'asc' } });
+        const desc = await adapter.getUsers({ sort: { username: 'desc' } });
+
+        expect(asc.items.map(user => user.username)).toEqual(['alice', 'bob', 'carol', 'dave']);
+        expect(desc.items.map(user => user.username)).toEqual(['dave', 'carol', 'bob', 'alice']);
+      });
+
+      test('getUsers paginates after filtering and sorting', async () => {
+        const page = await adapter.getUsers({ sort: { username: 'asc' }, limit: 2, offset: 1 });
+        expect(page.total).toBe(4);
+        expect(page.items.map(user => user.username)).toEqual(['bob', 'carol']);
+
+        const lastPage = await adapter.getUsers({ sort: { username: 'asc' }, limit: 2, offset: 3 });
+        expect(lastPage.items.map(user => user.username)).toEqual(['dave']);
+      });
+
+      test('getUsers rejects invalid options', async () => {
+        await expect(adapter.getUsers('invalid' as never)).rejects.toThrow();
+      });
+
+      test('getUsers supports comparison and set operators', async () => {
+        const names = async (filter: QueryFilter) =>
+          (await adapter.getUsers({ filter, sort: { username: 'asc' } })).items.map(user => user.username);
+
+        expect(await names({ username: { $eq: 'bob' } })).toEqual(['bob']);
+        expect(await names({ username: { $ne: 'bob' } })).toEqual(['alice', 'carol', 'dave']);
+        expect(await names({ username: { $in: ['bob', 'dave', 'nobody'] } })).toEqual(['bob', 'dave']);
+        expect(await names({ username: { $nin: ['bob', 'dave'] } })).toEqual(['alice', 'carol']);
+        expect(await names({ username: { $gt: 'bob' } })).toEqual(['carol', 'dave']);
+        expect(await names({ username: { $gte: 'bob', $lt: 'dave' } })).toEqual(['bob', 'carol']);
+        expect(await names({ username: { $lte: 'alice' } })).toEqual(['alice']);
+        expect(await names({ username: { $gt: 1 } })).toEqual([]);
+        expect(await names({ username: { $in: [] } })).toEqual([]);
+      });
+
+      test('getUsers supports string and existence operators', async () => {
+        const names = async (filter: QueryFilter) =>
+          (await adapter.getUsers({ filter, sort: { username: 'asc' } })).items.map(user => user.username);
+
+        await adapter.updateUser((await adapter.getUsers({ filter: { username: 'bob' } })).items[0].id, {
+          email: 'bob@corp.com',
+          passwordHash: 'hash',
+        });
+
+        expect(await names({ email: { $regex: '@corp\\.com$' } })).toEqual(['bob']);
+        expect(await names({ email: { $regex: /^(ALICE|CAROL)@/i } })).toEqual(['alice', 'carol']);
+        expect(await names({ username: { $contains: 'a' } })).toEqual(['alice', 'carol', 'dave']);
+        expect(await names({ passwordHash: { $exists: true } })).toEqual(['bob']);
+        expect(await names({ passwordHash: { $exists: false } })).toEqual(['alice', 'carol', 'dave']);
+        expect(await names({ passwordHash: null })).toEqual(['alice', 'carol', 'dave']);
+        expect(await names({ passwordHash: { $ne: 'hash' } })).toEqual(['alice', 'carol', 'dave']);
+        expect(await names({ unknownField: { $exists: false } })).toEqual(['alice', 'bob', 'carol', 'dave']);
+        expect(await names({ unknownField: 'value' })).toEqual([]);
+      });
+
+      test('getUsers supports Date comparisons', async () => {
+        const { items } = await adapter.getUsers();
+        const oldest = items.reduce((a, b) => (a.createdAt <= b.createdAt ? a : b)).createdAt;
+        const newest = items.reduce((a, b) => (a.createdAt >= b.createdAt ? a : b)).createdAt;
+
+        expect((await adapter.getUsers({ filter: { createdAt: { $gte: oldest } } })).total).toBe(4);
+        expect((await adapter.getUsers({ filter: { createdAt: { $gt: newest } } })).total).toBe(0);
+        expect((await adapter.getUsers({ filter: { createdAt: { $lt: oldest } } })).total).toBe(0);
+        expect((await adapter.getUsers({ filter: { createdAt: { $lte: new Date(newest) } } })).total).toBe(4);
+        expect((await adapter.getUsers({ filter: { createdAt: { $gt: 'yesterday' } } })).total).toBe(0);
+      });
+
+      test('getUsers supports logical operators', async () => {
+        const names = async (filter: QueryFilter) =>
+          (await adapter.getUsers({ filter, sort: { username: 'asc' } })).items.map(user => user.username);
+
+        expect(await names({ $or: [{ username: 'alice' }, { username: { $gte: 'd' } }] })).toEqual(['alice', 'dave']);
+        expect(await names({ $and: [{ username: { $gt: 'a' } }, { username: { $lt: 'c' } }] })).toEqual([
+          'alice',
+          'bob',
+        ]);
+        expect(await names({ $not: { username: { $in: ['alice', 'bob'] } } })).toEqual(['carol', 'dave']);
+        expect(await names({ $not: { passwordHash: 'hash' } })).toEqual(['alice', 'bob', 'carol', 'dave']);
+        expect(await names({ $or: [] })).toEqual([]);
+        expect(await names({ $and: [] })).toEqual(['alice', 'bob', 'carol', 'dave']);
+        expect(
+          await names({
+            $or: [{ $not: { username: { $regex: '^[ab]' } } }, { username: 'alice' }],
+            email: { $contains: '@example.' },
+          })
+        ).toEqual(['alice', 'carol', 'dave']);
+      });
+
+      test('getUsers rejects invalid filters', async () => {
+        await expect(adapter.getUsers({ filter: { username: { $like: 'a%' } } as never })).rejects.toThrow();
+        await expect(adapter.getUsers({ filter: { username: { $in: 'bob' } } as never })).rejects.toThrow();
+        await expect(adapter.getUsers({ filter: { username: { $regex: '(' } } })).rejects.toThrow();
+        await expect(adapter.getUsers({ filter: { $or: { username: 'bob' } } as never })).rejects.toThrow();
+      });
+
+      test('getUsers filters and sorts on tag values', async () => {
+        const bob = (await adapter.getUsers({ filter: { username: 'bob' } })).items[0];
+        await adapter.updateUser(bob.id, { tags: { team: 'a', level: 3, admin: true } });
+        const alice = (await adapter.getUsers({ filter: { username: 'alice' } })).items[0];
+        await adapter.updateUser(alice.id, { tags: { team: 'a', level: 10, admin: false } });
+
+        const names = async (options: QueryOptions) =>
+          (await adapter.getUsers(options)).items.map(user => user.username);
+
+        expect(await names({ filter: { 'tags.team': 'a' }, sort: { username: 'asc' } })).toEqual(['alice', 'bob']);
+        expect(await names({ filter: { 'tags.team': { $ne: 'a' } }, sort: { username: 'asc' } })).toEqual([
+          'carol',
+          'dave',
+        ]);
+        expect(await names({ filter: { 'tags.level': { $gte: 5 } } })).toEqual(['alice']);
+        expect(await names({ filter: { 'tags.level': { $gte: '5' } } })).toEqual([]);
+        expect(await names({ filter: { 'tags.admin': true } })).toEqual(['bob']);
+        expect(await names({ filter: { 'tags.admin': 1 } })).toEqual([]);
+        expect(await names({ filter: { 'tags.team': { $exists: false } } })).toEqual(['dave']);
+        expect(await names({ filter: { 'tags.team': { $in: ['b', 'c'] } } })).toEqual(['carol']);
+
+        expect(await names({ sort: { 'tags.level': 'desc' } })).toEqual(['alice', 'bob', 'carol', 'dave']);
+        expect(await names({ sort: { 'tags.level': 'asc' } })).toEqual(['bob', 'alice', 'carol', 'dave']);
+        expect(await names({ sort: { 'tags.team': 'desc', username: 'desc' } })).toEqual([
+          'carol',
+          'bob',
+          'alice',
+          'dave',
+        ]);
+      });
+
+      test('getUsers supports the keyset queries used for cursor pagination', async () => {
+        const fetch = (queryOptions: QueryOptions) => adapter.getUsers(queryOptions);
+        const expected = (await adapter.getUsers({ sort: { createdAt: 'asc', id: 'asc' } })).items;
+
+        const first = await CursorPaginator.fetchPage(fetch, { limit: 3 });
+        expect(first.items).toEqual(expected.slice(0, 3));
+        expect(first.nextCursor).not.toBeNull();
+
+        const second = await CursorPaginator.fetchPage(fetch, { limit: 3, cursor: first.nextCursor });
+        expect(second.items).toEqual(expected.slice(3));
+        expect(second.nextCursor).toBeNull();
+
+        const filtered = await CursorPaginator.fetchPage(fetch, { limit: 1, filter: { 'tags.team': 'a' } });
+        const rest = await CursorPaginator.fetchPage(fetch, {
+          limit: 1,
+          filter: { 'tags.team': 'a' },
+          cursor: filtered.nextCursor,
+        });
+        expect([...filtered.items, ...rest.items].map(user => user.username).sort()).toEqual(['alice', 'bob']);
+        expect(rest.nextCursor).toBeNull();
+      });
+
+      test('getRoles filters, sorts and paginates', async () => {
+        for (const name of ['viewer', 'admin', 'editor']) {
+          await createRole(name);
+        }
+
+        const all = await adapter.getRoles();
+        expect(all.total).toBe(3);
+        expect(all.items.map(role => role.name)).toEqual(['viewer', 'admin', 'editor']);
+
+        const filtered = await adapter.getRoles({ filter: { name: 'admin' } });
+        expect(filtered.total).toBe(1);
+        expect(filtered.items.map(role => role.name)).toEqual(['admin']);
+
+        const page = await adapter.getRoles({ sort: { name: 'desc' }, limit: 2 });
+        expect(page.total).toBe(3);
+        expect(page.items.map(role => role.name)).toEqual(['viewer', 'editor']);
+      });
+    });
+
+    describe('roles', () => {
+      test('createRole, getRoleById, updateRole and deleteRole', async () => {
+        const role = await createRole('admin', { description: 'Administrators', tags: { level: 1 } });
+        expect(role.name).toBe('admin');
+        expect(role.description).toBe('Administrators');
+        expect(role.createdAt).toBeInstanceOf(Date);
+        expect(await adapter.getRoleById(role.id)).toEqual(role);
+
+        const updated = await adapter.updateRole(role.id, { id: 'other', description: 'Admins' });
+        expect(updated!.id).toBe(role.id);
+        expect(updated!.name).toBe('admin');
+        expect(updated!.description).toBe('Admins');
+        expect(await adapter.getRoleById(role.id)).toEqual(updated);
+
+        expect(await adapter.deleteRole(role.id)).toBe(true);
+        expect(await adapter.getRoleById(role.id)).toBeNull();
+        expect(await adapter.deleteRole(role.id)).toBe(false);
+      });
+
+      test('role operations reject invalid data and report missing roles', async () => {
+        await expect(adapter.createRole({ name: '' })).rejects.toThrow();
+        expect(await adapter.getRoleById('missing')).toBeNull();
+        expect(await adapter.updateRole('missing', { name: 'x' })).toBeNull();
+
+        const role = await createRole('admin');
+        await expect(adapter.updateRole(role.id, { name: '' })).rejects.toThrow();
+      });
+    });
+
+    describe('user-role assignments', () => {
+      let alice: User;
+      let bob: User;
+      let admin: Role;
+      let editor: Role;
+
+      beforeEach(async () => {
+        alice = await createUser('alice');
+        bob = await createUser('bob');
+        admin = await createRole('admin');
+        editor = await createRole('editor');
+      });
+
+      test('assignRole links users and roles in both directions', async () => {
+        const userRole = await adapter.assignRole(alice.id, admin.id);
+        await adapter.assignRole(alice.id, editor.id);
+        await adapter.assignRole(bob.id, admin.id);
+
+        expect(userRole.userId).toBe(alice.id);
+        expect(userRole.roleId).toBe(admin.id);
+        expect(userRole.createdAt).toBeInstanceOf(Date);
+        expect(ids(await adapter.getUserRoles(alice.id))).toEqual(ids([admin, editor]));
+        expect(ids(await adapter.getRoleUsers(admin.id))).toEqual(ids([alice, bob]));
+        expect(await adapter.getUserRoles('missing')).toEqual([]);
+      });
+
+      test('assignRole is idempotent', async () => {
+        const first = await adapter.assignRole(alice.id, admin.id);
+        const second = await adapter.assignRole(alice.id, admin.id);
+
+        expect(second).toEqual(first);
+        expect(await adapter.getUserRoles(alice.id)).toHaveLength(1);
+        expect(await adapter.getRoleUsers(admin.id)).toHaveLength(1);
+      });
+
+      test('getAssignments lists the assignments of a user or a role, in effect or not', async () => {
+        const validFrom = new Date(Date.now() + 60_000);
+        await adapter.assignRole(alice.id, admin.id);
+        await adapter.assignRole(alice.id, editor.id, { validFrom });
+        await adapter.assignRole(bob.id, admin.id);
+
+        expect(await adapter.getAssignments({ userId: alice.id })).toMatchObject([
+          { userId: alice.id, roleId: admin.id },
+          { userId: alice.id, roleId: editor.id, validFrom },
+        ]);
+        expect((await adapter.getAssignments({ roleId: admin.id })).map(userRole => userRole.userId)).toEqual([
+          alice.id,
+          bob.id,
+        ]);
+        expect(await adapter.getAssignments({ userId: bob.id, roleId: editor.id })).toEqual([]);
+        await expect(adapter.getAssignments({})).rejects.toThrow(ValidationFailedError);
+      });
+
+      test('assignRole rejects unknown users and roles', async () => {
+        await expect(adapter.assignRole('missing', admin.id)).rejects.toThrow(NotFoundError);
+        await expect(adapter.assignRole(alice.id, 'missing')).rejects.toMatchObject({
+          code: 'NOT_FOUND',
+          entity: 'role',
+          id: 'missing',
+        });
+        await expect(adapter.assignRole('', admin.id)).rejects.toThrow(ValidationFailedError);
+      });
+
+      test('include attaches related entities', async () => {
+        await adapter.assignRole(alice.id, admin.id);
+        await adapter.assignRole(alice.id, editor.id);
+        await adapter.assignRole(bob.id, admin.id);
+
+        const { items } = await adapter.getUsers({ include: ['roles'], sort: { username: 'asc' } });
+        const users = items as UserWithRoles[];
+        expect(users.map(user => user.username)).toEqual(['alice', 'bob']);
+        expect(ids(users[0].roles)).toEqual(ids([admin, editor]));
+        expect(users[0].roles.find(role => role.id === admin.id)).toEqual(admin);
+        expect(ids(users[1].roles)).toEqual([admin.id]);
+
+        const user = (await adapter.getUserById(bob.id, { include: ['roles'] })) as UserWithRoles;
+        expect(ids(user.roles)).toEqual([admin.id]);
+
+        const roles = (await adapter.getRoles({ include: ['users'], filter: { name: { $in: ['admin', 'editor'] } } }))
+          .items as RoleWithUsers[];
+        const byName = Object.fromEntries(roles.map(role => [role.name, role]));
+        expect(ids(byName.admin.users)).toEqual(ids([alice, bob]));
+        expect(byName.admin.users.find(u => u.id === alice.id)).toEqual(alice);
+        expect(ids(byName.editor.users)).toEqual([alice.id]);
+
+        const role = (await adapter.getRoleById(editor.id, { include: ['users'] })) as RoleWithUsers;
+        expect(ids(role.users)).toEqual([alice.id]);
+      });
+
+      test('include returns empty relations and leaves other results untouched', async () => {
+        const users = (await adapter.getUsers({ include: ['roles'] })).items as UserWithRoles[];
+        expect(users.map(user => user.roles)).toEqual([[], []]);
+
+        const plain = await adapter.getUserById(alice.id);
+        expect(plain).not.toHaveProperty('roles');
+        expect(await adapter.getUserById('missing', { include: ['roles'] })).toBeNull();
+      });
+
+      test('include rejects unknown relations', async () => {
+        await expect(adapter.getUsers({ include: ['users'] })).rejects.toThrow();
+        await expect(adapter.getRoles({ include: ['roles'] })).rejects.toThrow();
+        await expect(adapter.getUserById(alice.id, { include: ['groups'] })).rejects.toThrow();
+      });
+
+      test('removeRole reports whether an assignment was removed', async () => {
+        await adapter.assignRole(alice.id, admin.id);
+
+        expect(await adapter.removeRole(alice.id, admin.id)).toBe(true);
+        expect(await adapter.removeRole(alice.id, admin.id)).toBe(false);
+        expect(await adapter.getUserRoles(alice.id)).toEqual([]);
+      });
+
+      test('deleteUser cascades to assignments', async () => {
+        await adapter.assignRole(alice.id, admin.id);
+        await adapter.assignRole(bob.id, admin.id);
+        await adapter.deleteUser(alice.id);
+
+        expect(ids(await adapter.getRoleUsers(admin.id))).toEqual([bob.id]);
+        expect(await adapter.getUserRoles(alice.id)).toEqual([]);
+      });
+
+      test('deleteRole cascades to assignments', async () => {
+        await adapter.assignRole(alice.id, admin.id);
+        await adapter.assignRole(alice.id, editor.id);
+        await adapter.deleteRole(admin.id);
+
+        expect(ids(await adapter.getUserRoles(alice.id))).toEqual([editor.id]);
+        expect(await adapter.getRoleUsers(admin.id)).toEqual([]);
+      });
+    });
+
+    describe('time-bound assignments', () => {
+      const hour = 60 * 60 * 1000;
+      let alice: User;
+      let admin: Role;
+      let editor: Role;
+
+      beforeEach(async () => {
+        alice = await createUser('alice');
+        admin = await createRole('admin');
+        editor = await createRole('editor');
+      });
+
+      test('assignRole stores the validity window', async () => {
+        const validFrom = new Date(Date.now() - hour);
+        const validUntil = new Date(Date.now() + hour);
+        const userRole = await adapter.assignRole(alice.id, admin.id, { validFrom, validUntil });
+
+        expect(userRole.validFrom).toEqual(validFrom);
+        expect(userRole.validUntil).toEqual(validUntil);
+        expect(ids(await adapter.getUserRoles(alice.id))).toEqual([admin.id]);
+      });
+
+      test('assignRole rejects invalid windows', async () => {
+        const now = new Date();
+        await expect(adapter.assignRole(alice.id, admin.id, { validFrom: now, validUntil: now })).rejects.toThrow(
+          'Validation failed'
+        );
+        await expect(adapter.assignRole(alice.id, admin.id, { validUntil: new Date('invalid') })).rejects.toThrow(
+          'Validation failed'
+        );
+      });
+
+      test('expired and future assignments are excluded from reads', async () => {
+        const bob = await createUser('bob');
+        await adapter.assignRole(alice.id, admin.id, { validUntil: new Date(Date.now() - hour) });
+        await adapter.assignRole(alice.id, editor.id, { validFrom: new Date(Date.now() + hour) });
+        await adapter.assignRole(bob.id, admin.id, { validUntil: new Date(Date.now() + hour) });
+
+        expect(await adapter.getUserRoles(alice.id)).toEqual([]);
+        expect(await adapter.getRoleUsers(editor.id)).toEqual([]);
+        expect(ids(await adapter.getRoleUsers(admin.id))).toEqual([bob.id]);
+
+        const { items } = await adapter.getUsers({ include: ['roles'], sort: { username: 'asc' } });
+        const users = items as UserWithRoles[];
+        expect(users.map(user => ids(user.roles))).toEqual([[], [admin.id]]);
+        const role = (await adapter.getRoleById(admin.id, { include: ['users'] })) as RoleWithUsers;
+        expect(ids(role.users)).toEqual([bob.id]);
+      });
+
+      test('re-assigning replaces the window and keeps createdAt', async () => {
+        const expired = await adapter.assignRole(alice.id, admin.id, { validUntil: new Date(Date.now() - hour) });
+        const renewed = await adapter.assignRole(alice.id, admin.id);
+
+        expect(renewed.createdAt).toEqual(expired.createdAt);
+        expect(renewed.validUntil).toBeUndefined();
+        expect(ids(await adapter.getUserRoles(alice.id))).toEqual([admin.id]);
+      });
+
+      test('purgeExpiredAssignments removes only expired assignments', async () => {
+        const validUntil = new Date(Date.now() - hour);
+        await adapter.assignRole(alice.id, admin.id, { validUntil });
+        await adapter.assignRole(alice.id, editor.id, { validFrom: new Date(Date.now() + hour) });
+
+        const expired = await adapter.purgeExpiredAssignments();
+        expect(expired).toHaveLength(1);
+        expect(expired[0]).toMatchObject({ userId: alice.id, roleId: admin.id, validUntil });
+        expect(await adapter.purgeExpiredAssignments()).toEqual([]);
+        expect(await adapter.removeRole(alice.id, admin.id)).toBe(false);
+        expect(await adapter.removeRole(alice.id, editor.id)).toBe(true);
+      });
+    });
+
+    describe('role hierarchy', () => {
+      let viewer: Role;
+      let editor: Role;
+      let admin: Role;
+
+      beforeEach(async () => {
+        viewer = await createRole('viewer');
+        editor = await createRole('editor', { parentIds: [viewer.id] });
+        admin = await createRole('admin', { parentIds: [editor.id] });
+      });
+
+      test('createRole stores parent roles and rejects unknown parents', async () => {
+        expect(editor.parentIds).toEqual([viewer.id]);
+        expect(await adapter.getRoleById(admin.id)).toEqual(admin);
+        await expect(createRole('other', { parentIds: ['missing'] })).rejects.toThrow('Validation failed');
+        await expect(createRole('other', { parentIds: [''] })).rejects.toThrow('Validation failed');
+      });
+
+      test('updateRole rejects cycles', async () => {
+        await expect(adapter.updateRole(viewer.id, { parentIds: [admin.id] })).rejects.toThrow('cycles');
+        await expect(adapter.updateRole(viewer.id, { parentIds: [viewer.id] })).rejects.toThrow('cycles');
+        expect(await adapter.getRoleById(viewer.id)).toEqual(viewer);
+
+        const auditor = await createRole('auditor');
+        const updated = await adapter.updateRole(admin.id, { parentIds: [editor.id, auditor.id] });
+        expect(updated!.parentIds).toEqual([editor.id, auditor.id]);
+      });
+
+      test('getUserRoles resolves inherited roles when effective', async () => {
+        const alice = await createUser('alice');
+        await adapter.assignRole(alice.id, admin.id);
+
+        expect(ids(await adapter.getUserRoles(alice.id))).toEqual([admin.id]);
+        expect(ids(await adapter.getUserRoles(alice.id, { effective: true }))).toEqual(ids([viewer, editor, admin]));
+      });
+
+      test('getRoleUsers includes indirect members when effective', async () => {
+        const alice = await createUser('alice');
+        const bob = await createUser('bob');
+        const carol = await createUser('carol');
+        await adapter.assignRole(alice.id, admin.id);
+        await adapter.assignRole(bob.id, editor.id);
+        await adapter.assignRole(carol.id, viewer.id);
+        await adapter.assignRole(carol.id, admin.id);
+
+        expect(ids(await adapter.getRoleUsers(viewer.id))).toEqual([carol.id]);
+        expect(ids(await adapter.getRoleUsers(viewer.id, { effective: true }))).toEqual(ids([alice, bob, carol]));
+        expect(ids(await adapter.getRoleUsers(editor.id, { effective: true }))).toEqual(ids([alice, bob, carol]));
+        expect(ids(await adapter.getRoleUsers(admin.id, { effective: true }))).toEqual(ids([alice, carol]));
+      });
+
+      test('deleteRole hands the parents of the deleted role to its children', async () => {
+        const alice = await createUser('alice');
+        await adapter.assignRole(alice.id, admin.id);
+
+        expect(await adapter.deleteRole(editor.id)).toBe(true);
+        expect((await adapter.getRoleById(admin.id))!.parentIds).toEqual([viewer.id]);
+        expect(ids(await adapter.getUserRoles(alice.id, { effective: true }))).toEqual(ids([viewer, admin]));
+
+        await adapter.deleteRole(viewer.id);
+        expect((await adapter.getRoleById(admin.id))!.parentIds).toEqual([]);
+      });
+    });
+
+    describe('permissions', () => {
+      let admin: Role;
+      let editor: Role;
+
+      beforeEach(async () => {
+        admin = await createRole('admin');
+        editor = await createRole('editor');
+      });
+
+      test('createPermission, getPermissionById, updatePermission and deletePermission', async () => {
+        const permission = await adapter.createPermission({ action: '*', resource: 'posts', description: 'All posts' });
+        expect(permission.id).toBeTruthy();
+        expect(permission.createdAt).toBeInstanceOf(Date);
+        expect(await adapter.getPermissionById(permission.id)).toEqual(permission);
+
+        const updated = await adapter.updatePermission(permission.id, { id: 'other', action: 'read' });
+        expect(updated!.id).toBe(permission.id);
+        expect(updated!.action).toBe('read');
+        expect(updated!.resource).toBe('posts');
+        expect(await adapter.getPermissionById(permission.id)).toEqual(updated);
+
+        expect(await adapter.deletePermission(permission.id)).toBe(true);
+        expect(await adapter.getPermissionById(permission.id)).toBeNull();
+        expect(await adapter.deletePermission(permission.id)).toBe(false);
+      });
+
+      test('permission operations reject invalid data and report missing permissions', async () => {
+        await expect(adapter.createPermission({ action: '', resource: 'posts' })).rejects.toThrow();
+        await expect(adapter.createPermission({ action: 'read', resource: '' })).rejects.toThrow();
+        await expect(adapter.createPermission({ action: 'read:all', resource: 'posts' })).rejects.toThrow();
+        expect(await adapter.getPermissionById('missing')).toBeNull();
+        expect(await adapter.updatePermission('missing', { action: 'read' })).toBeNull();
+      });
+
+      test('getPermissions filters, sorts and paginates', async () => {
+        await adapter.createPermission({ action: 'read', resource: 'posts' });
+        await adapter.createPermission({ action: 'write', resource: 'posts' });
+        await adapter.createPermission({ action: 'read', resource: 'comments' });
+
+        const { items, total } = await adapter.getPermissions({
+          filter: { action: 'read' },
+          sort: { resource: 'asc' },
+          limit: 1,
+        });
+        expect(total).toBe(2);
+        expect(items.map(permission => permission.resource)).toEqual(['comments']);
+        await expect(adapter.getPermissions({ include: ['roles'] })).rejects.toThrow();
+      });
+
+      test('grantPermission links permissions to roles and is idempotent', async () => {
+        const read = await adapter.createPermission({ action: 'read', resource: 'posts' });
+        const write = await adapter.createPermission({ action: 'write', resource: 'posts' });
+
+        const rolePermission = await adapter.grantPermission(admin.id, read.id);
+        expect(rolePermission.roleId).toBe(admin.id);
+        expect(rolePermission.permissionId).toBe(read.id);
+        expect(rolePermission.createdAt).toBeInstanceOf(Date);
+        expect(await adapter.grantPermission(admin.id, read.id)).toEqual(rolePermission);
+
+        await adapter.grantPermission(admin.id, write.id);
+        await adapter.grantPermission(editor.id, read.id);
+        expect(ids(await adapter.getRolePermissions(admin.id))).toEqual(ids([read, write]));
+        expect(await adapter.getRolePermissions(editor.id)).toEqual([read]);
+        expect(await adapter.getRolePermissions('missing')).toEqual([]);
+      });
+
+      test('grantPermission rejects unknown roles and permissions', async () => {
+        const read = await adapter.createPermission({ action: 'read', resource: 'posts' });
+
+        await expect(adapter.grantPermission('missing', read.id)).rejects.toThrow();
+        await expect(adapter.grantPermission(admin.id, 'missing')).rejects.toThrow();
+        await expect(adapter.grantPermission(admin.id, '')).rejects.toThrow();
+      });
+
+      test('revokePermission reports whether a grant was removed', async () => {
+        const read = await adapter.createPermission({ action: 'read', resource: 'posts' });
+        await adapter.grantPermission(admin.id, read.id);
+
+        expect(await adapter.revokePermission(admin.id, read.id)).toBe(true);
+        expect(await adapter.revokePermission(admin.id, read.id)).toBe(false);
+        expect(await adapter.getRolePermissions(admin.id)).toEqual([]);
+      });
+
+      test('deleteRole and deletePermission cascade to grants', async () => {
+        const read = await adapter.createPermission({ action: 'read', resource: 'posts' });
+        const write = await adapter.createPermission({ action: 'write', resource: 'posts' });
+        await adapter.grantPermission(admin.id, read.id);
+        await adapter.grantPermission(admin.id, write.id);
+        await adapter.grantPermission(editor.id, read.id);
+
+        await adapter.deletePermission(read.id);
+        expect(await adapter.getRolePermissions(admin.id)).toEqual([write]);
+        expect(await adapter.getRolePermissions(editor.id)).toEqual([]);
+
+        await adapter.deleteRole(admin.id);
+        expect(await adapter.getRolePermissions(admin.id)).toEqual([]);
+        expect(await adapter.getPermissionById(write.id)).toEqual(write);
+      });
+
+      test('permission changes are rolled back with the transaction', async () => {
+        const read = await adapter.createPermission({ action: 'read', resource: 'posts' });
+        await adapter.grantPermission(admin.id, read.id);
+
+        await adapter.beginTransaction();
+        const write = await adapter.createPermission({ action: 'write', resource: 'posts' });
+        await adapter.grantPermission(admin.id, write.id);
+        await adapter.revokePermission(admin.id, read.id);
+        await adapter.rollback();
+
+        expect(await adapter.getPermissionById(write.id)).toBeNull();
+        expect(await adapter.getRolePermissions(admin.id)).toEqual([read]);
+      });
+    });
+
+    describe('groups', () => {
+      let alice: User;
+      let bob: User;
+      let viewer: Role;
+      let editor: Role;
+
+      beforeEach(async () => {
+        alice = await createUser('alice');
+        bob = await createUser('bob');
+        viewer = await createRole('viewer');
+        editor = await createRole('editor', { parentIds: [viewer.id] });
+      });
+
+      test('createGroup, getGroupById, updateGroup and deleteGroup', async () => {
+        const group = await adapter.createGroup({ name: 'engineering', description: 'Builders' });
+        expect(group.id).toBeTruthy();
+        expect(group.createdAt).toBeInstanceOf(Date);
+        expect(await adapter.getGroupById(group.id)).toEqual(group);
+
+        const updated = await adapter.updateGroup(group.id, { id: 'other', name: 'platform' });
+        expect(updated!.id).toBe(group.id);
+        expect(updated!.name).toBe('platform');
+        expect(updated!.description).toBe('Builders');
+        expect(await adapter.getGroupById(group.id)).toEqual(updated);
+
+        expect(await adapter.deleteGroup(group.id)).toBe(true);
+        expect(await adapter.getGroupById(group.id)).toBeNull();
+        expect(await adapter.deleteGroup(group.id)).toBe(false);
+        expect(await adapter.updateGroup(group.id, { name: 'gone' })).toBeNull();
+        await expect(adapter.createGroup({ name: '' })).rejects.toThrow('Validation failed');
+        await expect(adapter.createGroup({ name: '' })).rejects.toMatchObject({
+          code: 'VALIDATION_FAILED',
+          errors: [{ field: 'name', message: expect.any(String) }],
+        });
+      });
+
+      test('getGroups filters, sorts and paginates', async () => {
+        await adapter.createGroup({ name: 'sales' });
+        await adapter.createGroup({ name: 'engineering' });
+        await adapter.createGroup({ name: 'support' });
+
+        const { items, total } = await adapter.getGroups({ sort: { name: 'asc' }, offset: 1, limit: 1 });
+        expect(total).toBe(3);
+        expect(items.map(group => group.name)).toEqual(['sales']);
+        expect((await adapter.getGroups({ filter: { name: { $in: ['sales', 'support'] } } })).total).toBe(2);
+        await expect(adapter.getGroups({ include: ['roles'] })).rejects.toThrow();
+      });
+
+      test('addGroupMember and removeGroupMember manage membership', async () => {
+        const group = await adapter.createGroup({ name: 'engineering' });
+
+        const member = await adapter.addGroupMember(group.id, alice.id);
+        expect(member.groupId).toBe(group.id);
+        expect(member.userId).toBe(alice.id);
+        expect(member.createdAt).toBeInstanceOf(Date);
+        expect(await adapter.addGroupMember(group.id, alice.id)).toEqual(member);
+        await adapter.addGroupMember(group.id, bob.id);
+
+        expect(ids(await adapter.getGroupMembers(group.id))).toEqual(ids([alice, bob]));
+        expect(await adapter.getUserGroups(alice.id)).toEqual([group]);
+
+        expect(await adapter.removeGroupMember(group.id, alice.id)).toBe(true);
+        expect(await adapter.removeGroupMember(group.id, alice.id)).toBe(false);
+        expect(await adapter.getGroupMembers(group.id)).toEqual([bob]);
+        expect(await adapter.getUserGroups(alice.id)).toEqual([]);
+
+        await expect(adapter.addGroupMember('missing', alice.id)).rejects.toThrow();
+        await expect(adapter.addGroupMember(group.id, 'missing')).rejects.toThrow();
+      });
+
+      test('assignGroupRole and removeGroupRole manage group roles', async () => {
+        const group = await adapter.createGroup({ name: 'engineering' });
+
+        const groupRole = await adapter.assignGroupRole(group.id, editor.id);
+        expect(groupRole.groupId).toBe(group.id);
+        expect(groupRole.roleId).toBe(editor.id);
+        expect(await adapter.assignGroupRole(group.id, editor.id)).toEqual(groupRole);
+        expect(await adapter.getGroupRoles(group.id)).toEqual([editor]);
+
+        expect(await adapter.removeGroupRole(group.id, editor.id)).toBe(true);
+        expect(await adapter.removeGroupRole(group.id, editor.id)).toBe(false);
+        expect(await adapter.getGroupRoles(group.id)).toEqual([]);
+
+        await expect(adapter.assignGroupRole('missing', editor.id)).rejects.toThrow();
+        await expect(adapter.assignGroupRole(group.id, 'missing')).rejects.toThrow();
+      });
+
+      test('effective roles and role users include roles held through groups', async () => {
+        const group = await adapter.createGroup({ name: 'engineering' });
+        await adapter.addGroupMember(group.id, alice.id);
+        await adapter.assignGroupRole(group.id, editor.id);
+
+        expect(await adapter.getUserRoles(alice.id)).toEqual([]);
+        expect(ids(await adapter.getUserRoles(alice.id, { effective: true }))).toEqual(ids([viewer, editor]));
+        expect(await adapter.getRoleUsers(viewer.id)).toEqual([]);
+        expect(ids(await adapter.getRoleUsers(viewer.id, { effective: true }))).toEqual([alice.id]);
+        expect(ids(await adapter.getRoleUsers(editor.id, { effective: true }))).toEqual([alice.id]);
+      });
+
+      test('deleting users, roles and groups cascades to memberships and group roles', async () => {
+        const group = await adapter.createGroup({ name: 'engineering' });
+        await adapter.addGroupMember(group.id, alice.id);
+        await adapter.addGroupMember(group.id, bob.id);
+        await adapter.assignGroupRole(group.id, viewer.id);
+        await adapter.assignGroupRole(group.id, editor.id);
+
+        await adapter.deleteUser(alice.id);
+        expect(await adapter.getGroupMembers(group.id)).toEqual([bob]);
+
+        await adapter.deleteRole(viewer.id);
+        expect(ids(await adapter.getGroupRoles(group.id))).toEqual([editor.id]);
+
+        await adapter.deleteGroup(group.id);
+        expect(await adapter.getUserGroups(bob.id)).toEqual([]);
+        expect(await adapter.getUserRoles(bob.id, { effective: true })).toEqual([]);
+      });
+
+      test('group changes are rolled back with the transaction', async () => {
+        const group = await adapter.createGroup({ name: 'engineering' });
+        await adapter.addGroupMember(group.id, alice.id);
+
+        await adapter.beginTransaction();
+        const other = await adapter.createGroup({ name: 'sales' });
+        await adapter.addGroupMember(group.id, bob.id);
+        await adapter.assignGroupRole(group.id, editor.id);
+        await adapter.removeGroupMember(group.id, alice.id);
+        await adapter.rollback();
+
+        expect(await adapter.getGroupById(other.id)).toBeNull();
+        expect(await adapter.getGroupMembers(group.id)).toEqual([alice]);
+        expect(await adapter.getGroupRoles(group.id)).toEqual([]);
+      });
+    });
+
+    describe('unique constraints', () => {
+      test('usernames and emails are unique regardless of case', async () => {
+        const alice = await createUser('alice');
+
+        await expect(createUser('ALICE')).rejects.toThrow(ConflictError);
+        await expect(adapter.createUser({ username: 'other', email: 'Alice@Example.com' })).rejects.toThrow(
+          ConflictError
+        );
+
+        const bob = await createUser('bob');
+        const conflict = await adapter.updateUser(bob.id, { username: 'Alice' }).catch(error => error);
+        expect(conflict).toBeInstanceOf(ConflictError);
+        expect(conflict).toMatchObject({ entity: 'user', field: 'username', value: 'Alice' });
+        expect(await adapter.updateUser(alice.id, { username: 'Alice' })).toMatchObject({ username: 'Alice' });
+      });
+
+      test('emails are trimmed and their domain lowercased', async () => {
+        const user = await adapter.createUser({ username: 'alice', email: '  Alice.Smith@Example.COM ' });
+        expect(user.email).toBe('Alice.Smith@example.com');
+        expect((await adapter.getUserById(user.id))!.email).toBe('Alice.Smith@example.com');
+
+        const updated = await adapter.updateUser(user.id, { email: 'Alice@Example.Org' });
+        expect(updated!.email).toBe('Alice@example.org');
+        expect((await adapter.getUsers({ filter: { email: 'Alice@example.org' } })).total).toBe(1);
+      });
+
+      test('role names are unique regardless of case', async () => {
+        await createRole('admin');
+        const editor = await createRole('editor');
+
+        await expect(createRole('Admin')).rejects.toThrow(ConflictError);
+        await expect(adapter.updateRole(editor.id, { name: 'ADMIN' })).rejects.toThrow(ConflictError);
+        expect(await adapter.updateRole(editor.id, { name: 'Editor' })).toMatchObject({ name: 'Editor' });
+      });
+    });
+
+    describe('versions', () => {
+      test('users and roles start at version 1 and go up by one on every update', async () => {
+        const user = await createUser('alice');
+        const role = await createRole('admin', { tags: { level: 1 } });
+        expect(user.version).toBe(1);
+        expect(role.version).toBe(1);
+
+        expect(await adapter.updateUser(user.id, { email: 'alice@example.org', version: 10 })).toMatchObject({
+          version: 2,
+        });
+        expect((await adapter.updateRole(role.id, { description: 'Admins' }))!.version).toBe(2);
+        expect((await adapter.getUserById(user.id))!.version).toBe(2);
+
+        await adapter.renameTagKey('level', 'rank');
+        expect((await adapter.getRoleById(role.id))!.version).toBe(3);
+      });
+
+      test('updates and deletes with a stale expectedVersion are rejected', async () => {
+        const user = await createUser('alice');
+        await adapter.updateUser(user.id, { email: 'alice@example.org' }, { expectedVersion: 1 });
+
+        const conflict = await adapter
+          .updateUser(user.id, { email: 'alice@example.net' }, { expectedVersion: 1 })
+          .catch(error => error);
+        expect(conflict).toBeInstanceOf(VersionConflictError);
+        expect(conflict).toMatchObject({ entity: 'user', id: user.id, expectedVersion: 1, actualVersion: 2 });
+        expect((await adapter.getUserById(user.id))!.email).toBe('alice@example.org');
+
+        await expect(adapter.deleteUser(user.id, { expectedVersion: 1 })).rejects.toThrow(VersionConflictError);
+        expect(await adapter.deleteUser(user.id, { expectedVersion: 2 })).toBe(true);
+        expect(await adapter.deleteUser(user.id, { expectedVersion: 2 })).toBe(false);
+        expect(await adapter.updateUser(user.id, { email: 'x@example.com' }, { expectedVersion: 2 })).toBeNull();
+
+        const role = await createRole('admin');
+        await expect(adapter.updateRole(role.id, { name: 'root' }, { expectedVersion: 2 })).rejects.toThrow(
+          VersionConflictError
+        );
+        await expect(adapter.deleteRole(role.id, { expectedVersion: 2 })).rejects.toThrow(VersionConflictError);
+        expect(await adapter.getRoleById(role.id)).toMatchObject({ name: 'admin', version: 1 });
+        expect(await adapter.deleteRole(role.id, { expectedVersion: 1 })).toBe(true);
+      });
+
+      test('expectedVersion must be a positive integer', async () => {
+        const user = await createUser('alice');
+        await expect(adapter.updateUser(user.id, {}, { expectedVersion: 0 })).rejects.toThrow(ValidationFailedError);
+        await expect(adapter.deleteRole(user.id, { expectedVersion: 1.5 })).rejects.toThrow(ValidationFailedError);
+      });
+    });
+
+    describe('tenants', () => {
+      test('usernames and emails are unique within a tenant', async () => {
+        const alice = await createUser('alice');
+        await expect(createUser('alice')).rejects.toThrow('already exists');
+        await expect(adapter.createUser({ username: 'other', email: 'alice@example.com' })).rejects.toThrow(
+          'already exists'
+        );
+
+        const acmeAlice = await createUser('alice', { tenantId: 'acme' });
+        expect(acmeAlice.tenantId).toBe('acme');
+        expect(await adapter.getUserById(acmeAlice.id)).toEqual(acmeAlice);
+        await expect(createUser('alice', { tenantId: 'acme' })).rejects.toThrow('already exists');
+
+        const bob = await createUser('bob', { tenantId: 'acme' });
+        await expect(adapter.updateUser(bob.id, { username: 'alice' })).rejects.toThrow('already exists');
+        expect(await adapter.updateUser(alice.id, { email: 'alice@example.org' })).toBeTruthy();
+        expect(await adapter.updateUser(bob.id, { email: 'alice@example.org' })).toBeTruthy();
+      });
+
+      test('tenantId can be filtered on and cannot be changed', async () => {
+        const alice = await createUser('alice', { tenantId: 'acme' });
+        await createUser('bob', { tenantId: 'globex' });
+        await createUser('carol');
+        const role = await createRole('admin', { tenantId: 'acme' });
+
+        expect(ids((await adapter.getUsers({ filter: { tenantId: 'acme' } })).items)).toEqual([alice.id]);
+        expect((await adapter.getRoles({ filter: { tenantId: 'acme' } })).items).toEqual([role]);
+        await expect(adapter.updateUser(alice.id, { tenantId: 'globex' })).rejects.toThrow('Validation failed');
+        await expect(adapter.updateRole(role.id, { tenantId: 'globex' })).rejects.toThrow('Validation failed');
+        await expect(createUser('dave', { tenantId: '' })).rejects.toThrow('Validation failed');
+        expect((await adapter.getUserById(alice.id))!.tenantId).toBe('acme');
+      });
+
+      test('assignments, memberships and parent roles cannot cross tenants', async () => {
+        const alice = await createUser('alice', { tenantId: 'acme' });
+        const acmeAdmin = await createRole('admin', { tenantId: 'acme' });
+        const globexAdmin = await createRole('admin', { tenantId: 'globex' });
+        const defaultAdmin = await createRole('admin');
+
+        const userRole = await adapter.assignRole(alice.id, acmeAdmin.id);
+        expect(userRole.tenantId).toBe('acme');
+        await expect(adapter.assignRole(alice.id, globexAdmin.id)).rejects.toThrow('different tenants');
+        await expect(adapter.assignRole(alice.id, defaultAdmin.id)).rejects.toThrow('different tenants');
+        expect(await adapter.getUserRoles(alice.id)).toEqual([acmeAdmin]);
+
+        const group = await adapter.createGroup({ name: 'staff', tenantId: 'globex' });
+        await expect(adapter.addGroupMember(group.id, alice.id)).rejects.toThrow('different tenants');
+        await expect(adapter.assignGroupRole(group.id, acmeAdmin.id)).rejects.toThrow('different tenants');
+        expect(await adapter.assignGroupRole(group.id, globexAdmin.id)).toBeTruthy();
+
+        await expect(createRole('editor', { tenantId: 'globex', parentIds: [acmeAdmin.id] })).rejects.toThrow(
+          'different tenant'
+        );
+        const editor = await createRole('editor', { tenantId: 'acme', parentIds: [acmeAdmin.id] });
+        await expect(adapter.updateRole(editor.id, { parentIds: [globexAdmin.id] })).rejects.toThrow(
+          'different tenant'
+        );
+      });
+    });
+
+    describe('tags', () => {
+      let alice: User;
+      let admin: Role;
+
+      beforeEach(async () => {
+        alice = await createUser('alice', { tags: { department: 'eng', level: 2, active: true } });
+        await createUser('bob', { tags: { department: 'sales', level: '2' } });
+        await createUser('carol');
+        admin = await createRole('admin', { tags: { department: 'eng', scope: 'global' } });
+      });
+
+      test('getTagKeys lists the distinct keys in use', async () => {
+        expect(await adapter.getTagKeys()).toEqual(['active', 'department', 'level', 'scope']);
+        expect(await adapter.getTagKeys('users')).toEqual(['active', 'department', 'level']);
+        expect(await adapter.getTagKeys('roles')).toEqual(['department', 'scope']);
+      });
+
+      test('getTagValues lists the distinct values of a key', async () => {
+        expect(await adapter.getTagValues('department')).toEqual(['eng', 'sales']);
+        expect(await adapter.getTagValues('department', 'roles')).toEqual(['eng']);
+        expect(await adapter.getTagValues('level')).toEqual([2, '2']);
+        expect(await adapter.getTagValues('active')).toEqual([true]);
+        expect(await adapter.getTagValues('missing')).toEqual([]);
+        await expect(adapter.getTagValues('')).rejects.toThrow();
+      });
+
+      test('renameTagKey renames a key on users and roles', async () => {
+        expect(await adapter.renameTagKey('department', 'team')).toBe(3);
+
+        expect((await adapter.getUserById(alice.id))!.tags).toEqual({ team: 'eng', level: 2, active: true });
+        expect((await adapter.getRoleById(admin.id))!.tags).toEqual({ team: 'eng', scope: 'global' });
+        expect(await adapter.getTagKeys()).toEqual(['active', 'level', 'scope', 'team']);
+        expect((await adapter.getUserById(alice.id))!.updatedAt.getTime()).toBeGreaterThanOrEqual(
+          alice.updatedAt.getTime()
+        );
+      });
+
+      test('renameTagKey can be limited to users or roles', async () => {
+        expect(await adapter.renameTagKey('department', 'team', 'roles')).toBe(1);
+
+        expect((await adapter.getUserById(alice.id))!.tags!.department).toBe('eng');
+        expect((await adapter.getRoleById(admin.id))!.tags).toEqual({ team: 'eng', scope: 'global' });
+        expect(await adapter.renameTagKey('missing', 'other')).toBe(0);
+        await expect(adapter.renameTagKey('department', '')).rejects.toThrow();
+      });
+
+      test('renameTagKey refuses to overwrite a key an entity already has', async () => {
+        await expect(adapter.renameTagKey('department', 'level')).rejects.toThrow(ValidationFailedError);
+        await expect(adapter.renameTagKey('department', 'scope', 'roles')).rejects.toThrow(ValidationFailedError);
+
+        expect((await adapter.getUserById(alice.id))!.tags).toEqual(alice.tags);
+        expect((await adapter.getRoleById(admin.id))!.tags).toEqual(admin.tags);
+        expect(await adapter.renameTagKey('department', 'level', 'roles')).toBe(1);
+        expect((await adapter.getRoleById(admin.id))!.tags).toEqual({ level: 'eng', scope: 'global' });
+      });
+
+      test('removeTagKey removes a key everywhere', async () => {
+        expect(await adapter.removeTagKey('department')).toBe(3);
+
+        expect((await adapter.getUserById(alice.id))!.tags).toEqual({ level: 2, active: true });
+        expect((await adapter.getRoleById(admin.id))!.tags).toEqual({ scope: 'global' });
+        expect(await adapter.getTagValues('department')).toEqual([]);
+        expect(await adapter.removeTagKey('department')).toBe(0);
+      });
+
+      test('tag changes are rolled back with the transaction', async () => {
+        await adapter.beginTransaction();
+        await adapter.removeTagKey('department');
+        await adapter.rollback();
+
+        expect((await adapter.getUserById(alice.id))!.tags).toEqual(alice.tags);
+        expect(await adapter.getTagValues('department')).toEqual(['eng', 'sales']);
+      });
+    });
+
+    describe('audit entries', () => {
+      const createEntry = (action: AuditAction, target: string, timestamp: string, extra: Partial<AuditEntry> = {}) =>
+        adapter.createAuditEntry({
+          actor: 'admin',
+          action,
+          target,
+          before: null,
+          after: { name: target },
+          correlationId: 'request-1',
+          timestamp: new Date(timestamp),
+          ...extra,
+        });
+
+      test('createAuditEntry stores entries that come back oldest first', async () => {
+        const later = await createEntry('role.create', 'editor', '2024-01-02T00:00:00Z');
+        const earlier = await createEntry('user.update', 'alice', '2024-01-01T00:00:00Z', {
+          tenantId: 'acme',
+          before: { tags: { level: 1 } },
+          after: { tags: { level: 2 } },
+        });
+
+        expect(typeof later.id).toBe('string');
+        expect(later.id).not.toBe(earlier.id);
+        expect(await adapter.getAuditEntries()).toEqual([earlier, later]);
+        expect((await adapter.getAuditEntries())[0].timestamp).toBeInstanceOf(Date);
+      });
+
+      test('getAuditEntries filters by actor, target, action and time range', async () => {
+        const first = await createEntry('user.create', 'alice', '2024-01-01T00:00:00Z');
+        const second = await createEntry('userRole.assign', 'alice', '2024-01-02T00:00:00Z', { actor: 'bob' });
+        const third = await createEntry('user.create', 'carol', '2024-01-03T00:00:00Z', { actor: null });
+
+        expect(await adapter.getAuditEntries({ actor: 'admin' })).toEqual([first]);
+        expect(await adapter.getAuditEntries({ target: 'alice' })).toEqual([first, second]);
+        expect(await adapter.getAuditEntries({ action: 'user.create' })).toEqual([first, third]);
+        const range = { from: new Date('2024-01-02T00:00:00Z'), to: new Date('2024-01-03T00:00:00Z') };
+        expect(await adapter.getAuditEntries(range)).toEqual([second]);
+        expect(await adapter.getAuditEntries({ target: 'alice', action: 'user.create' })).toEqual([first]);
+      });
+
+      test('getAuditEntries rejects invalid queries', async () => {
+        await expect(adapter.getAuditEntries({ from: new Date('invalid') })).rejects.toThrow('Validation failed');
+        await expect(adapter.getAuditEntries({ actor: 1 } as never)).rejects.toThrow('Validation failed');
+        await expect(adapter.deleteAuditEntries('2024-01-01' as never)).rejects.toThrow('Validation failed');
+      });
+
+      test('deleteAuditEntries removes entries older than the given date', async () => {
+        await createEntry('user.create', 'alice', '2024-01-01T00:00:00Z');
+        const kept = await createEntry('user.create', 'bob', '2024-01-02T00:00:00Z');
+
+        expect(await adapter.deleteAuditEntries(new Date('2024-01-02T00:00:00Z'))).toBe(1);
+        expect(await adapter.getAuditEntries()).toEqual([kept]);
+        expect(await adapter.deleteAuditEntries(new Date('2024-01-01T00:00:00Z'))).toBe(0);
+      });
+
+      test('deleteAuditEntries can be confined to one tenant', async () => {
+        await createEntry('user.create', 'alice', '2024-01-01T00:00:00Z', { tenantId: 'acme' });
+        const globex = await createEntry('user.create', 'bob', '2024-01-01T00:00:00Z', { tenantId: 'globex' });
+        const untenanted = await createEntry('user.create', 'carol', '2024-01-01T00:00:00Z');
+
+        expect(await adapter.deleteAuditEntries(new Date('2024-01-02T00:00:00Z'), 'acme')).toBe(1);
+        expect(await adapter.getAuditEntries()).toEqual([globex, untenanted]);
+        await expect(adapter.deleteAuditEntries(new Date('2024-01-02T00:00:00Z'), '')).rejects.toThrow(
+          'Validation failed'
+        );
+      });
+
+      test('entries follow the transaction they were written in', async () => {
+        await adapter.beginTransaction();
+        await createEntry('user.create', 'alice', '2024-01-01T00:00:00Z');
+        await adapter.rollback();
+        expect(await adapter.getAuditEntries()).toEqual([]);
+
+        await adapter.beginTransaction();
+        const committed = await createEntry('user.create', 'bob', '2024-01-01T00:00:00Z');
+        await adapter.commit();
+        expect(await adapter.getAuditEntries()).toEqual([committed]);
+      });
+    });
+
+    describe('bulk records', () => {
+      test('readRecords pages through records as stored, password hashes included', async () => {
+        const alice = await createUser('alice', { passwordHash: 'hash', tags: { level: 1 } });
+        const bob = await createUser('bob');
+        const carol = await createUser('carol');
+
+        expect(await adapter.readRecords('users')).toEqual({ items: [alice, bob, carol], total: 3 });
+        expect(await adapter.readRecords('users', { offset: 1, limit: 1 })).toEqual({ items: [bob], total: 3 });
+        expect(await adapter.readRecords('users', { offset: 3 })).toEqual({ items: [], total: 3 });
+        expect(await adapter.readRecords('groups', { limit: 0 })).toEqual({ items: [], total: 0 });
+        await expect(adapter.readRecords('users', { limit: -1 })).rejects.toThrow('Validation failed');
+        await expect(adapter.readRecords('sessions' as never)).rejects.toThrow('Validation failed');
+      });
+
+      test('readRecords can be confined to the records of one tenant', async () => {
+        const alice = await createUser('alice', { tenantId: 'acme' });
+        await createUser('bob', { tenantId: 'globex' });
+        await createUser('carol');
+        const acmeStaff = await adapter.createGroup({ name: 'staff', tenantId: 'acme' });
+        const globexStaff = await adapter.createGroup({ name: 'staff', tenantId: 'globex' });
+        const member = await adapter.addGroupMember(acmeStaff.id, alice.id);
+        await adapter.addGroupMember(globexStaff.id, (await createUser('dave', { tenantId: 'globex' })).id);
+        const permission = await adapter.createPermission({ action: 'read', resource: 'reports' });
+
+        const acme = { tenantId: 'acme' };
+        expect(await adapter.readRecords('users', acme)).toEqual({ items: [alice], total: 1 });
+        expect(await adapter.readRecords('groupMembers', { ...acme, limit: 0 })).toEqual({ items: [], total: 1 });
+        expect((await adapter.readRecords('groupMembers', acme)).items).toEqual([member]);
+        expect((await adapter.readRecords('permissions', acme)).items).toEqual([permission]);
+        expect((await adapter.readRecords('users', { tenantId: 'initech' })).total).toBe(0);
+        await expect(adapter.readRecords('users', { tenantId: '' })).rejects.toThrow('Validation failed');
+      });
+
+      test('writeRecords keeps ids, versions, timestamps and links, replacing records with the same key', async () => {
+        const createdAt = new Date('2024-01-01T00:00:00Z');
+        const user: User = {
+          id: 'user-1',
+          username: 'alice',
+          email: 'alice@example.com',
+          passwordHash: 'hash',
+          tags: { level: 1 },
+          version: 3,
+          createdAt,
+          updatedAt: new Date('2024-01-02T00:00:00Z'),
+        };
+        const role: Role = { id: 'role-1', name: 'admin', version: 1, createdAt, updatedAt: createdAt };
+        const userRole: UserRole = { userId: 'user-1', roleId: 'role-1', createdAt };
+
+        await adapter.writeRecords('users', [user]);
+        await adapter.writeRecords('roles', [role]);
+        await adapter.writeRecords('userRoles', [userRole]);
+
+        expect((await adapter.readRecords('users')).items).toEqual([user]);
+        expect((await adapter.readRecords('userRoles')).items).toEqual([userRole]);
+        expect(ids(await adapter.getUserRoles('user-1'))).toEqual(['role-1']);
+        expect(await createUser('alice').catch(error => error)).toBeInstanceOf(ConflictError);
+
+        const renamed = { ...user, username: 'alicia', version: 4 };
+        await adapter.writeRecords('users', [renamed]);
+        expect(await adapter.readRecords('users')).toEqual({ items: [renamed], total: 1 });
+      });
+
+      test('writeRecords follows the transaction it was made in', async () => {
+        const createdAt = new Date('2024-01-01T00:00:00Z');
+        await adapter.beginTransaction();
+        await adapter.writeRecords('groups', [{ id: 'group-1', name: 'staff', createdAt, updatedAt: createdAt }]);
+        await adapter.rollback();
+
+        expect(await adapter.readRecords('groups')).toEqual({ items: [], total: 0 });
+      });
+    });
+
+    describe('transactions', () => {
+      test('changes are visible inside the transaction and kept on commit', async () => {
+        await adapter.beginTransaction();
+        const user = await createUser('alice');
+        expect(await adapter.getUserById(user.id)).toEqual(user);
+        await adapter.commit();
+
+        expect(await adapter.getUserById(user.id)).toEqual(user);
+      });
+
+      test('rollback restores the previous state', async () => {
+        const alice = await createUser('alice', { tags: { active: true } });
+        const admin = await createRole('admin');
+        await adapter.assignRole(alice.id, admin.id);
+
+        await adapter.beginTransaction();
+        const bob = await createUser('bob');
+        await adapter.updateUser(alice.id, { username: 'alice2' });
+        await adapter.removeRole(alice.id, admin.id);
+        await adapter.deleteRole(admin.id);
+        await adapter.rollback();
+
+        expect(await adapter.getUserById(bob.id)).toBeNull();
+        expect(await adapter.getUserById(alice.id)).toEqual(alice);
+        expect(await adapter.getRoleById(admin.id)).toEqual(admin);
+        expect(ids(await adapter.getUserRoles(alice.id))).toEqual([admin.id]);
+        expect((await adapter.getUsers()).total).toBe(1);
+      });
+
+      test('assignRole sees deletions made inside the transaction', async () => {
+        const alice = await createUser('alice');
+        const admin = await createRole('admin');
+
+        await adapter.beginTransaction();
+        await adapter.deleteUser(alice.id);
+        await expect(adapter.assignRole(alice.id, admin.id)).rejects.toThrow();
+        await adapter.rollback();
+
+        expect(await adapter.getUserById(alice.id)).toEqual(alice);
+      });
+
+      test('rejects commit or rollback without a transaction', async () => {
+        await expect(adapter.commit()).rejects.toThrow(TransactionError);
+        await expect(adapter.rollback()).rejects.toThrow(TransactionError);
+
+        await adapter.beginTransaction();
+        await adapter.commit();
+        await expect(adapter.commit()).rejects.toThrow(TransactionError);
+      });
+
+      test('nested transactions commit into and roll back to their parent', async () => {
+        const outer = await adapter.beginTransaction();
+        const alice = await createUser('alice');
+
+        const [bob, carol] = await outer.run(async () => {
+          const discarded = await adapter.beginTransaction();
+          const bob = await createUser('bob');
+          await discarded.rollback();
+
+          await adapter.beginTransaction();
+          const carol = await createUser('carol');
+          await adapter.commit();
+          return [bob, carol];
+        });
+
+        expect(await adapter.getUserById(bob.id)).toBeNull();
+        expect(await adapter.getUserById(carol.id)).toEqual(carol);
+        await outer.commit();
+
+        expect(ids((await adapter.getUsers()).items)).toEqual(ids([alice, carol]));
+      });
+
+      test('a handle ends its own transaction once, after the ones nested in it', async () => {
+        const outer = await adapter.beginTransaction();
+        const inner = await outer.run(() => adapter.beginTransaction());
+        await expect(outer.commit()).rejects.toThrow(TransactionError);
+
+        await inner.commit();
+        await outer.commit();
+        await expect(outer.commit()).rejects.toThrow(TransactionError);
+        await expect(outer.run(() => createUser('alice'))).rejects.toThrow(TransactionError);
+      });
+
+      test('concurrent transactions each commit their own changes', async () => {
+        const [alice, bob] = await Promise.all(
+          ['alice', 'bob'].map(username =>
+            adapter.transaction(async () => {
+              const user = await createUser(username);
+              await new Promise(resolve => setTimeout(resolve, 5));
+              return adapter.updateUser(user.id, { tags: { username } });
+            })
+          )
+        );
+
+        expect(await adapter.getUserById(alice!.id)).toEqual(alice);
+        expect(await adapter.getUserById(bob!.id)).toEqual(bob);
+      });
+
+      test('writes made outside a transaction while it runs survive its rollback', async () => {
+        const failure = new Error('failed');
+        let begun!: () => void;
+        const started = new Promise<void>(resolve => (begun = resolve));
+        const rolledBack = adapter.transaction(async () => {
+          await createUser('alice');
+          begun();
+          await new Promise(resolve => setTimeout(resolve, 5));
+          throw failure;
+        });
+
+        await started;
+        const bob = await createUser('bob');
+        await expect(rolledBack).rejects.toBe(failure);
+
+        expect(await adapter.getUserById(bob.id)).toEqual(bob);
+        expect((await adapter.getUsers()).total).toBe(1);
+      });
+
+      test('transaction commits when the callback resolves and rolls back when it throws', async () => {
+        const alice = await adapter.transaction(() => createUser('alice'));
+        expect(await adapter.getUserById(alice.id)).toEqual(alice);
+
+        const failure = new Error('failed');
+        let bob: User | null = null;
+        await expect(
+          adapter.transaction(async () => {
+            bob = await createUser('bob');
+            await adapter.transaction(() => createUser('carol'));
+            throw failure;
+          })
+        ).rejects.toBe(failure);
+
+        expect(await adapter.getUserById(bob!.id)).toBeNull();
+        expect((await adapter.getUsers()).total).toBe(1);
+        await expect(adapter.commit()).rejects.toThrow(TransactionError);
+      });
+    });
+  });
+}
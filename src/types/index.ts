@@ -1,34 +1,168 @@
+export type TagValue = string | number | boolean;
+
 export interface Tag {
-  [key: string]: string | number | boolean;
+  [key: string]: TagValue;
 }
 
+export type TagTarget = 'users' | 'roles';
+
+// Entities without a tenantId belong to the default tenant
 export interface User {
   id: string;
+  tenantId?: string;
   username: string;
   email: string;
   passwordHash?: string;
   tags?: Tag;
+  // Starts at 1 and goes up by one on every update
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface Role {
   id: string;
+  tenantId?: string;
   name: string;
   description?: string;
+  // Roles this role inherits from, e.g. "admin" lists "editor"
+  parentIds?: string[];
   tags?: Tag;
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Group {
+  id: string;
+  tenantId?: string;
+  name: string;
+  description?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// action and resource may use "*" wildcards, e.g. action "*" on resource "posts" is written "posts:*"
+export interface Permission {
+  id: string;
+  action: string;
+  resource: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UserWithRoles extends User {
+  roles: Role[];
+}
+
+export interface RoleWithUsers extends Role {
+  users: User[];
+}
+
+export type UserInclude = 'roles';
+
+export type RoleInclude = 'users';
+
+// An assignment is active from validFrom (inclusive) until validUntil (exclusive); either bound is optional
 export interface UserRole {
   userId: string;
   roleId: string;
+  tenantId?: string;
+  validFrom?: Date;
+  validUntil?: Date;
   createdAt: Date;
 }
 
+export type AssignRoleOptions = Pick<UserRole, 'validFrom' | 'validUntil'>;
+
+// Assignments of a user, of a role or of both, whether or not they are in effect
+export interface AssignmentQuery {
+  userId?: string;
+  roleId?: string;
+}
+
+export type Clock = () => Date;
+
+export interface GroupMember {
+  groupId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface GroupRole {
+  groupId: string;
+  roleId: string;
+  createdAt: Date;
+}
+
+export interface RolePermission {
+  roleId: string;
+  permissionId: string;
+  createdAt: Date;
+}
+
+export type AuditAction =
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'role.create'
+  | 'role.update'
+  | 'role.delete'
+  | 'userRole.assign'
+  | 'userRole.update'
+  | 'userRole.remove'
+  | 'userRole.expire';
+
+// One recorded mutation. before and after hold only the fields that changed: a create has no before and a
+// delete no after. target is the user or role id; assignments are recorded against the user.
+export interface AuditEntry {
+  id: string;
+  actor: string | null;
+  action: AuditAction;
+  target: string;
+  tenantId?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  // The requestId of the operation context, else shared by all entries written in one transaction
+  correlationId: string;
+  timestamp: Date;
+}
+
+// from is inclusive and to exclusive
+export interface AuditQuery {
+  actor?: string;
+  target?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+}
+
+export type FilterValue = string | number | boolean | Date | null | undefined;
+
+export type ComparableValue = string | number | Date;
+
+export interface FilterOperators {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $gt?: ComparableValue;
+  $gte?: ComparableValue;
+  $lt?: ComparableValue;
+  $lte?: ComparableValue;
+  $regex?: string | RegExp;
+  $contains?: string;
+  $exists?: boolean;
+}
+
+export type FilterCondition = FilterValue | FilterOperators;
+
 export interface QueryFilter {
-  [key: string]: any;
+  $and?: QueryFilter[];
+  $or?: QueryFilter[];
+  $not?: QueryFilter;
+  [field: string]: FilterCondition | QueryFilter | QueryFilter[];
 }
 
 export interface QueryOptions {
@@ -37,37 +171,131 @@ export interface QueryOptions {
   limit?: number;
   offset?: number;
   include?: string[];
+  includePasswordHash?: boolean;
+}
+
+// effective: true adds roles held through groups and the role hierarchy to the direct assignments
+export interface HierarchyOptions {
+  effective?: boolean;
+}
+
+export type IncludeOptions = Pick<QueryOptions, 'include' | 'includePasswordHash'>;
+
+export interface CursorQueryOptions {
+  filter?: QueryFilter;
+  limit?: number;
+  cursor?: string | null;
+  include?: string[];
+  includePasswordHash?: boolean;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface IterateOptions extends Omit<CursorQueryOptions, 'cursor' | 'limit'> {
+  batchSize?: number;
+}
+
+// expectedVersion makes an update or delete fail with VersionConflictError unless the entity is still at that version
+export interface VersionOptions {
+  expectedVersion?: number;
+}
+
+// A transaction begun with beginTransaction. Calls made by fn in run, and only those, are in it,
+// so concurrent callers can each hold one
+export interface TransactionHandle {
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
 }
 
 export interface StorageAdapter {
-  // User operations
-  createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User>;
-  getUserById(id: string): Promise<User | null>;
+  // User operations (include: ['roles'] returns UserWithRoles)
+  createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<User>;
+  getUserById(id: string, options?: IncludeOptions): Promise<User | null>;
   getUsers(options?: QueryOptions): Promise<{ items: User[]; total: number }>;
-  updateUser(id: string, user: Partial<User>): Promise<User | null>;
-  deleteUser(id: string): Promise<boolean>;
+  updateUser(id: string, user: Partial<User>, options?: VersionOptions): Promise<User | null>;
+  deleteUser(id: string, options?: VersionOptions): Promise<boolean>;
 
-  // Role operations
-  createRole(role: Omit<Role, 'id' | 'createdAt' | 'updatedAt'>): Promise<Role>;
-  getRoleById(id: string): Promise<Role | null>;
+  // Role operations (include: ['users'] returns RoleWithUsers)
+  createRole(role: Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<Role>;
+  getRoleById(id: string, options?: IncludeOptions): Promise<Role | null>;
   getRoles(options?: QueryOptions): Promise<{ items: Role[]; total: number }>;
-  updateRole(id: string, role: Partial<Role>): Promise<Role | null>;
-  deleteRole(id: string): Promise<boolean>;
+  updateRole(id: string, role: Partial<Role>, options?: VersionOptions): Promise<Role | null>;
+  deleteRole(id: string, options?: VersionOptions): Promise<boolean>;
 
   // User-Role operations
-  assignRole(userId: string, roleId: string): Promise<UserRole>;
+  assignRole(userId: string, roleId: string, options?: AssignRoleOptions): Promise<UserRole>;
   removeRole(userId: string, roleId: string): Promise<boolean>;
-  getUserRoles(userId: string): Promise<Role[]>;
-  getRoleUsers(roleId: string): Promise<User[]>;
+  purgeExpiredAssignments(): Promise<UserRole[]>;
+  getAssignments(query: AssignmentQuery): Promise<UserRole[]>;
+  getUserRoles(userId: string, options?: HierarchyOptions): Promise<Role[]>;
+  getRoleUsers(roleId: string, options?: HierarchyOptions): Promise<User[]>;
 
-  // Transaction operations
-  beginTransaction(): Promise<void>;
+  // Group operations
+  createGroup(group: Omit<Group, 'id' | 'createdAt' | 'updatedAt'>): Promise<Group>;
+  getGroupById(id: string): Promise<Group | null>;
+  getGroups(options?: QueryOptions): Promise<{ items: Group[]; total: number }>;
+  updateGroup(id: string, group: Partial<Group>): Promise<Group | null>;
+  deleteGroup(id: string): Promise<boolean>;
+
+  // Group membership and Group-Role operations
+  addGroupMember(groupId: string, userId: string): Promise<GroupMember>;
+  removeGroupMember(groupId: string, userId: string): Promise<boolean>;
+  getGroupMembers(groupId: string): Promise<User[]>;
+  getUserGroups(userId: string): Promise<Group[]>;
+  assignGroupRole(groupId: string, roleId: string): Promise<GroupRole>;
+  removeGroupRole(groupId: string, roleId: string): Promise<boolean>;
+  getGroupRoles(groupId: string): Promise<Role[]>;
+
+  // Permission operations
+  createPermission(permission: Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>): Promise<Permission>;
+  getPermissionById(id: string): Promise<Permission | null>;
+  getPermissions(options?: QueryOptions): Promise<{ items: Permission[]; total: number }>;
+  updatePermission(id: string, permission: Partial<Permission>): Promise<Permission | null>;
+  deletePermission(id: string): Promise<boolean>;
+
+  // Role-Permission operations
+  grantPermission(roleId: string, permissionId: string): Promise<RolePermission>;
+  revokePermission(roleId: string, permissionId: string): Promise<boolean>;
+  getRolePermissions(roleId: string): Promise<Permission[]>;
+
+  // Tag operations
+  getTagKeys(target?: TagTarget): Promise<string[]>;
+  getTagValues(key: string, target?: TagTarget): Promise<TagValue[]>;
+  renameTagKey(from: string, to: string, target?: TagTarget): Promise<number>;
+  removeTagKey(key: string, target?: TagTarget): Promise<number>;
+
+  // Audit operations; entries come back oldest first
+  createAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry>;
+  getAuditEntries(query?: AuditQuery): Promise<AuditEntry[]>;
+  // Given a tenant, only that tenant's entries go
+  deleteAuditEntries(before: Date, tenantId?: string): Promise<number>;
+
+  // Transaction operations; a transaction begun inside another one's run nests in it. Calls made outside
+  // any run use the first transaction begun outside one, and commit and rollback end the caller's innermost.
+  beginTransaction(): Promise<TransactionHandle>;
   commit(): Promise<void>;
   rollback(): Promise<void>;
+  // Runs fn in a transaction that commits when it resolves and rolls back when it throws
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
 
   // Lifecycle methods
   initialize(options?: any): Promise<void>;
   shutdown(): Promise<void>;
+  // Adapters that persist a document run pending migrations on initialize; this runs them beforehand
+  migrate?(migrations: MigrationSet, options?: MigrationOptions): Promise<MigrationReport>;
+
+  // Bulk access for moving data between adapters, see DataTransfer. Records are read as stored, password hashes
+  // included, in the order they were stored. They are written as given, keeping their ids, versions and
+  // timestamps, without validation; a record replaces any stored one with the same key.
+  readRecords<C extends DataCollection>(
+    collection: C,
+    page?: RecordPage
+  ): Promise<{ items: Array<DataRecords[C]>; total: number }>;
+  writeRecords<C extends DataCollection>(collection: C, records: Array<DataRecords[C]>): Promise<void>;
 }
 
 export interface Plugin {
@@ -75,24 +303,316 @@ export interface Plugin {
   version: string;
   initialize(): Promise<void>;
   shutdown(): Promise<void>;
+  // Run on the stored data before the plugin's version of it is used, see Migration
+  migrations?: Migration[];
+}
+
+// One step in the shape of the stored data. A store records the version each scope reached, so every
+// migration runs once, in version order; the library's own are in scope 'core', a plugin's in its name.
+export interface Migration {
+  version: number;
+  description: string;
+  // Changes the stored document in place: every collection as an array of plain JSON objects
+  up(data: Record<string, unknown>): void | Promise<void>;
+}
+
+// Migrations by scope
+export type MigrationSet = Record<string, Migration[]>;
+
+export interface MigrationOptions {
+  // Runs the migrations on a copy and reports them, leaving the store as it is
+  dryRun?: boolean;
+}
+
+export interface MigrationReport {
+  // The version of each scope before and after
+  from: Record<string, number>;
+  to: Record<string, number>;
+  applied: Array<{ scope: string; version: number; description: string }>;
+  // Where the store was copied before it changed
+  backupPath?: string;
+  dryRun: boolean;
+}
+
+// The records of each collection an adapter stores
+export interface DataRecords {
+  users: User;
+  roles: Role;
+  userRoles: UserRole;
+  groups: Group;
+  groupMembers: GroupMember;
+  groupRoles: GroupRole;
+  permissions: Permission;
+  rolePermissions: RolePermission;
+  auditEntries: AuditEntry;
+}
+
+export type DataCollection = keyof DataRecords;
+
+// Without a limit the page runs to the last record. With a tenant only its records are read: permissions
+// are shared by all tenants, and links without a tenant of their own go with their group or role.
+export interface RecordPage {
+  offset?: number;
+  limit?: number;
+  tenantId?: string;
+}
+
+// Everything an adapter stores, as written by DataTransfer.exportData; version is that of the dump format
+export interface DataDump {
+  format: 'user-management-dump';
+  version: number;
+  exportedAt: Date;
+  counts: { [C in DataCollection]: number };
+  collections: { [C in DataCollection]: Array<DataRecords[C]> };
+}
+
+export interface TransferOptions {
+  // Records read, and written in one transaction, at a time
+  batchSize?: number;
+  // Where a transfer that failed stopped, as its DataTransferError tells; the copy carries on from there
+  // into the target it left partly filled
+  resumeFrom?: ResumePoint;
+}
+
+// The batches before it, in its collection and in those copied earlier, reached the target
+export interface ResumePoint {
+  collection: DataCollection;
+  offset: number;
+}
+
+// The records of each collection now in the target
+export interface TransferReport {
+  counts: { [C in DataCollection]: number };
+}
+
+// The CSV header of each user field; by default the field's own name, and tags.<key> for a tag
+export interface CsvColumns {
+  username?: string;
+  email?: string;
+  roles?: string;
+  tags?: Record<string, string>;
+}
+
+export interface CsvOptions {
+  columns?: CsvColumns;
+  // Between cells, ',' by default
+  delimiter?: string;
+  // Between the role names of a cell, ';' by default
+  roleSeparator?: string;
+}
+
+export interface CsvImportOptions extends CsvOptions {
+  // Rows matching a stored user on this field update it instead of failing with a conflict
+  upsert?: 'username' | 'email';
+  // Roles named in the file that do not exist yet are created, unless this is false
+  createRoles?: boolean;
+}
+
+// row is the row's number in the spreadsheet, the header being row 1
+export interface CsvRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+// The import runs in one transaction. When a row fails it is rolled back and committed is false;
+// created and updated still count the rows that went through.
+export interface CsvImportReport {
+  committed: boolean;
+  created: number;
+  updated: number;
+  rolesCreated: string[];
+  errors: CsvRowError[];
+}
+
+// Who performs an operation and on whose behalf, see UserManagement.withContext
+export interface OperationContext {
+  actorId?: string;
+  requestId?: string;
+  ip?: string;
+  [key: string]: unknown;
+}
+
+// What happens when a hook throws: abort rethrows it, continue skips the hook and log also reports it to the logger
+export type HookErrorPolicy = 'abort' | 'continue' | 'log';
+
+export interface HookActions {
+  // Cancels the operation; the caller receives an OperationVetoedError carrying the reason
+  veto(reason: string): never;
+}
+
+// Every payload carries the context of the operation. Pre-hooks may return a partial payload, which is merged
+// into the data the operation continues with.
+export type HookCallback<T = HookEvent> = (
+  data: T & { context: OperationContext },
+  actions: HookActions
+) => Promise<Partial<T> | undefined | void>;
+
+export interface HookOptions {
+  policy?: HookErrorPolicy;
 }
 
 export interface Hook {
   name: string;
-  callback: (data: HookEvent) => Promise<HookEvent | undefined>;
+  callback: HookCallback;
   priority?: number;
+  policy?: HookErrorPolicy;
+}
+
+export interface HookConfig {
+  defaultPolicy?: HookErrorPolicy;
+  // Called for every hook failure whatever its policy; vetoes are not failures
+  onHookError?: (error: unknown, event: string, hook: Hook) => void;
+  // Receives failures of hooks with the log policy; nothing is written without one
+  logger?: (message: string, error: unknown) => void;
 }
 
 export interface HookEvent {
   [key: string]: any;
 }
 
+type NewUser = Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'version'>;
+type NewRole = Omit<Role, 'id' | 'createdAt' | 'updatedAt' | 'version'>;
+type NewGroup = Omit<Group, 'id' | 'createdAt' | 'updatedAt'>;
+type NewPermission = Omit<Permission, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Payload of every event emitted by the managers. Plugins add their own events through declaration merging:
+// declare module 'user-management-models' { interface HookEventMap { 'audit.postWrite': { entry: AuditEntry } } }
+export interface HookEventMap {
+  'user.preCreate': { userData: NewUser };
+  'user.postCreate': { user: User };
+  'user.preGet': { id: string; options?: IncludeOptions };
+  'user.postGet': { user: User | null };
+  'user.preGetAll': { options?: QueryOptions };
+  'user.postGetAll': { result: { items: User[]; total: number } };
+  'user.preUpdate': { id: string; userData: Partial<User>; options?: VersionOptions };
+  'user.postUpdate': { user: User | null };
+  'user.preDelete': { id: string; options?: VersionOptions };
+  'user.postDelete': { id: string; result: boolean };
+  'user.preGetRoles': { userId: string; options?: HierarchyOptions };
+  'user.postGetRoles': { userId: string; roles: Role[] };
+  'user.preSetPassword': { id: string };
+  'user.postSetPassword': { id: string; result: boolean };
+  'user.preVerifyPassword': { idOrUsername: string };
+  'user.postVerifyPassword': { userId: string | null; valid: boolean };
+
+  'role.preCreate': { roleData: NewRole };
+  'role.postCreate': { role: Role };
+  'role.preGet': { id: string; options?: IncludeOptions };
+  'role.postGet': { role: Role | null };
+  'role.preGetAll': { options?: QueryOptions };
+  'role.postGetAll': { result: { items: Role[]; total: number } };
+  'role.preUpdate': { id: string; roleData: Partial<Role>; options?: VersionOptions };
+  'role.postUpdate': { role: Role | null };
+  'role.preDelete': { id: string; options?: VersionOptions };
+  'role.postDelete': { id: string; result: boolean };
+  'role.preGetUsers': { roleId: string; options?: HierarchyOptions };
+  'role.postGetUsers': { roleId: string; users: User[] };
+  'role.preGrantPermission': { roleId: string; permissionId: string };
+  'role.postGrantPermission': { rolePermission: RolePermission };
+  'role.preRevokePermission': { roleId: string; permissionId: string };
+  'role.postRevokePermission': { roleId: string; permissionId: string; result: boolean };
+  'role.preGetPermissions': { roleId: string };
+  'role.postGetPermissions': { roleId: string; permissions: Permission[] };
+
+  'userRole.preAssign': { userId: string; roleId: string; options?: AssignRoleOptions };
+  'userRole.postAssign': { userRole: UserRole };
+  'userRole.preRemove': { userId: string; roleId: string };
+  'userRole.postRemove': { userId: string; roleId: string; result: boolean };
+  'userRole.postExpire': { userRole: UserRole };
+
+  'group.preCreate': { groupData: NewGroup };
+  'group.postCreate': { group: Group };
+  'group.preGet': { id: string };
+  'group.postGet': { group: Group | null };
+  'group.preGetAll': { options?: QueryOptions };
+  'group.postGetAll': { result: { items: Group[]; total: number } };
+  'group.preUpdate': { id: string; groupData: Partial<Group> };
+  'group.postUpdate': { group: Group | null };
+  'group.preDelete': { id: string };
+  'group.postDelete': { id: string; result: boolean };
+  'group.preAddMember': { groupId: string; userId: string };
+  'group.postAddMember': { groupMember: GroupMember };
+  'group.preRemoveMember': { groupId: string; userId: string };
+  'group.postRemoveMember': { groupId: string; userId: string; result: boolean };
+  'group.preGetMembers': { groupId: string };
+  'group.postGetMembers': { groupId: string; users: User[] };
+  'group.preGetUserGroups': { userId: string };
+  'group.postGetUserGroups': { userId: string; groups: Group[] };
+  'group.preAssignRole': { groupId: string; roleId: string };
+  'group.postAssignRole': { groupRole: GroupRole };
+  'group.preRemoveRole': { groupId: string; roleId: string };
+  'group.postRemoveRole': { groupId: string; roleId: string; result: boolean };
+  'group.preGetRoles': { groupId: string };
+  'group.postGetRoles': { groupId: string; roles: Role[] };
+
+  'permission.preCreate': { permissionData: NewPermission };
+  'permission.postCreate': { permission: Permission };
+  'permission.preGet': { id: string };
+  'permission.postGet': { permission: Permission | null };
+  'permission.preGetAll': { options?: QueryOptions };
+  'permission.postGetAll': { result: { items: Permission[]; total: number } };
+  'permission.preUpdate': { id: string; permissionData: Partial<Permission> };
+  'permission.postUpdate': { permission: Permission | null };
+  'permission.preDelete': { id: string };
+  'permission.postDelete': { id: string; result: boolean };
+
+  'tag.preGetKeys': { target?: TagTarget };
+  'tag.postGetKeys': { target?: TagTarget; keys: string[] };
+  'tag.preGetValues': { key: string; target?: TagTarget };
+  'tag.postGetValues': { key: string; target?: TagTarget; values: TagValue[] };
+  'tag.preRename': { from: string; to: string; target?: TagTarget };
+  'tag.postRename': { from: string; to: string; target?: TagTarget; updated: number };
+  'tag.preRemove': { key: string; target?: TagTarget };
+  'tag.postRemove': { key: string; target?: TagTarget; updated: number };
+}
+
+export type HookName = keyof HookEventMap;
+
 export interface ValidationError {
   field: string;
   message: string;
 }
 
+export interface PasswordHashOptions {
+  cost?: number;
+  blockSize?: number;
+  parallelization?: number;
+  keyLength?: number;
+  saltLength?: number;
+}
+
+export interface PasswordPolicyOptions {
+  minLength?: number;
+  maxLength?: number;
+  requireLowercase?: boolean;
+  requireUppercase?: boolean;
+  requireDigit?: boolean;
+  requireSymbol?: boolean;
+  bannedPasswords?: string[];
+}
+
+// Fields that must be unique within a tenant besides username, email and role name, e.g. 'tags.employeeId'
+export interface UniqueFieldsConfig {
+  users?: string[];
+  roles?: string[];
+}
+
+// Auditing is enabled by setting Config.audit, even to an empty object
+export interface AuditConfig {
+  // Entries older than this many days are removed on initialize and by audit.purgeExpired()
+  retentionDays?: number;
+  // Returns who performs the current operation; defaults to the actorId of the operation context
+  actor?: () => string | null | undefined;
+}
+
 export interface Config {
   adapter?: string;
+  uniqueFields?: UniqueFieldsConfig;
+  passwordHashing?: PasswordHashOptions;
+  passwordPolicy?: PasswordPolicyOptions;
+  clock?: Clock;
+  hooks?: HookConfig;
+  audit?: AuditConfig;
   [key: string]: any;
 }
@@ -0,0 +1,42 @@
+import { UserRole, AssignRoleOptions, AssignmentQuery, Clock } from '../types';
+
+export const systemClock: Clock = () => new Date();
+
+export class Assignments {
+  static isActive(userRole: UserRole, now: Date): boolean {
+    return (!userRole.validFrom || userRole.validFrom <= now) && !this.isExpired(userRole, now);
+  }
+
+  static isExpired(userRole: UserRole, now: Date): boolean {
+    return userRole.validUntil !== undefined && userRole.validUntil <= now;
+  }
+
+  static matches(userRole: UserRole, query: AssignmentQuery): boolean {
+    return (!query.userId || userRole.userId === query.userId) && (!query.roleId || userRole.roleId === query.roleId);
+  }
+
+  // Re-assigning a role replaces its validity window but keeps the original createdAt
+  static create(
+    userId: string,
+    roleId: string,
+    options: AssignRoleOptions | undefined,
+    createdAt: Date,
+    tenantId?: string
+  ): UserRole {
+    const userRole: UserRole = { userId, roleId, createdAt };
+
+    if (tenantId) {
+      userRole.tenantId = tenantId;
+    }
+
+    if (options?.validFrom) {
+      userRole.validFrom = new Date(options.validFrom);
+    }
+
+    if (options?.validUntil) {
+      userRole.validUntil = new Date(options.validUntil);
+    }
+
+    return userRole;
+  }
+}
@@ -0,0 +1,62 @@
+import { AuditEntry, AuditQuery } from '../types';
+
+type Snapshot = Record<string, unknown>;
+
+const REDACTED = '[REDACTED]';
+
+// Bookkeeping that changes with every write and says nothing about the change itself
+const IGNORED_FIELDS = ['updatedAt', 'version'];
+
+export class AuditTrail {
+  static matches(entry: AuditEntry, query: AuditQuery = {}): boolean {
+    return (
+      (query.actor === undefined || entry.actor === query.actor) &&
+      (query.target === undefined || entry.target === query.target) &&
+      (query.action === undefined || entry.action === query.action) &&
+      (query.from === undefined || entry.timestamp >= query.from) &&
+      (query.to === undefined || entry.timestamp < query.to)
+    );
+  }
+
+  // Entities are stored as plain JSON so every adapter returns the same shape; password hashes never are
+  static snapshot(entity: object): Snapshot {
+    return this.redact(this.toJson(entity));
+  }
+
+  // The fields that differ, or null when nothing did
+  static diff(before: object, after: object): { before: Snapshot; after: Snapshot } | null {
+    const previous = this.toJson(before);
+    const next = this.toJson(after);
+    const changedBefore: Snapshot = {};
+    const changedAfter: Snapshot = {};
+    let changed = false;
+
+    for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      if (JSON.stringify(previous[field]) === JSON.stringify(next[field])) {
+        continue;
+      }
+
+      changed = true;
+      if (field in previous) {
+        changedBefore[field] = previous[field];
+      }
+      if (field in next) {
+        changedAfter[field] = next[field];
+      }
+    }
+
+    return changed ? { before: this.redact(changedBefore), after: this.redact(changedAfter) } : null;
+  }
+
+  private static toJson(entity: object): Snapshot {
+    const json: Snapshot = JSON.parse(JSON.stringify(entity));
+    for (const field of IGNORED_FIELDS) {
+      delete json[field];
+    }
+    return json;
+  }
+
+  private static redact(snapshot: Snapshot): Snapshot {
+    return 'passwordHash' in snapshot ? { ...snapshot, passwordHash: REDACTED } : snapshot;
+  }
+}
@@ -0,0 +1,22 @@
+export class Cloner {
+  // Unlike structuredClone this keeps Dates in the current realm, so `instanceof Date` keeps working
+  static deepClone<T>(value: T): T {
+    if (value instanceof Date) {
+      return new Date(value.getTime()) as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.deepClone(item)) as T;
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.deepClone(item);
+      }
+      return copy as T;
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { OperationContext } from '../types';
+
+const storage = new AsyncLocalStorage<OperationContext>();
+
+// Carries the caller's context through every await of an operation, including hooks and adapter calls
+export class RequestContext {
+  // Nested scopes inherit the outer context and override the fields they set
+  static run<T>(context: OperationContext, fn: () => T): T {
+    return storage.run({ ...this.current(), ...context }, fn);
+  }
+
+  static current(): OperationContext {
+    return storage.getStore() ?? {};
+  }
+}
@@ -0,0 +1,76 @@
+import { ValidationFailedError } from '../errors';
+
+// CSV as RFC 4180 describes it: cells holding the delimiter, quotes or line breaks are quoted,
+// and a quote inside a quoted cell is doubled
+export class Csv {
+  // Rows of cells; a byte order mark, as spreadsheet programs write, and empty lines are skipped
+  static parse(text: string, delimiter = ','): string[][] {
+    this.validateDelimiter(delimiter);
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endRow = () => {
+      row.push(cell);
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+      }
+      row = [];
+      cell = '';
+    };
+
+    for (; index < text.length; index++) {
+      const char = text[index];
+
+      if (quoted) {
+        if (char !== '"') {
+          cell += char;
+        } else if (text[index + 1] === '"') {
+          cell += '"';
+          index++;
+        } else {
+          quoted = false;
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[index + 1] === '\n') {
+          index++;
+        }
+        endRow();
+      } else {
+        cell += char;
+      }
+    }
+
+    if (quoted) {
+      throw new ValidationFailedError([{ field: 'csv', message: 'A quoted cell is not closed' }]);
+    }
+
+    endRow();
+    return rows;
+  }
+
+  static format(rows: string[][], delimiter = ','): string {
+    this.validateDelimiter(delimiter);
+    return rows.map(row => row.map(cell => this.quote(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+  }
+
+  private static quote(cell: string, delimiter: string): string {
+    return cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+
+  private static validateDelimiter(delimiter: string): void {
+    if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+      throw new ValidationFailedError([
+        { field: 'delimiter', message: 'Delimiter must be a single character other than a quote or line break' },
+      ]);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { QueryFilter, QueryOptions, CursorQueryOptions, CursorPage, IterateOptions } from '../types';
+import { ValidationFailedError } from '../errors';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+interface CursorPosition {
+  createdAt: number;
+  id: string;
+}
+
+// Keyset pagination ordered by createdAt, then id, so rows added or removed between
+// requests never shift the following pages
+export class CursorPaginator {
+  static encode(item: { id: string; createdAt: Date }): string {
+    const position: CursorPosition = { createdAt: item.createdAt.getTime(), id: item.id };
+    return Buffer.from(JSON.stringify(position)).toString('base64url');
+  }
+
+  static decode(cursor: string): CursorPosition | null {
+    try {
+      const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+      if (typeof position?.createdAt === 'number' && typeof position?.id === 'string') {
+        return position;
+      }
+    } catch {
+      // Fall through to the invalid cursor result
+    }
+
+    return null;
+  }
+
+  static async fetchPage<T extends { id: string; createdAt: Date }>(
+    fetch: (options: QueryOptions) => Promise<{ items: T[] }>,
+    options: CursorQueryOptions = {}
+  ): Promise<CursorPage<T>> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationFailedError([{ field: 'limit', message: 'Limit must be a positive integer' }]);
+    }
+
+    const filters: QueryFilter[] = options.filter ? [options.filter] : [];
+    if (options.cursor) {
+      const position = this.decode(options.cursor);
+      if (!position) {
+        throw new ValidationFailedError([{ field: 'cursor', message: 'Cursor is not valid' }]);
+      }
+
+      const createdAt = new Date(position.createdAt);
+      filters.push({
+        $or: [{ createdAt: { $gt: createdAt } }, { createdAt: { $eq: createdAt }, id: { $gt: position.id } }],
+      });
+    }
+
+    // Fetch one extra row to find out whether another page follows
+    const { items } = await fetch({
+      filter: filters.length > 0 ? { $and: filters } : undefined,
+      sort: { createdAt: 'asc', id: 'asc' },
+      limit: limit + 1,
+      include: options.include,
+      includePasswordHash: options.includePasswordHash,
+    });
+
+    const pageItems = items.slice(0, limit);
+    const nextCursor = items.length > limit ? this.encode(pageItems[pageItems.length - 1]) : null;
+    return { items: pageItems, nextCursor };
+  }
+
+  static async *iterate<T extends { id: string; createdAt: Date }>(
+    fetch: (options: QueryOptions) => Promise<{ items: T[] }>,
+    options: IterateOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    const { batchSize, ...queryOptions } = options;
+    let cursor: string | null = null;
+
+    do {
+      const page: CursorPage<T> = await this.fetchPage(fetch, { ...queryOptions, limit: batchSize, cursor });
+      yield* page.items;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+}
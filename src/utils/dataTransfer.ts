@@ -0,0 +1,318 @@
+import {
+  DataCollection,
+  DataDump,
+  DataRecords,
+  ResumePoint,
+  StorageAdapter,
+  TransferOptions,
+  TransferReport,
+} from '../types';
+import { DataTransferError } from '../errors';
+import { Records, DATA_COLLECTIONS } from './records';
+
+const DUMP_FORMAT = 'user-management-dump';
+const DUMP_VERSION = 1;
+const DEFAULT_BATCH_SIZE = 500;
+
+type Counts = TransferReport['counts'];
+
+type DumpCollections = Record<DataCollection, object[]>;
+
+// The first line of an NDJSON dump; each line after it holds one record
+type DumpHeader = Omit<DataDump, 'collections'>;
+
+interface DumpLine {
+  collection: DataCollection;
+  record: object;
+}
+
+// Copies everything an adapter stores into another one, directly or through a dump, keeping ids, versions,
+// timestamps, tags and links. The target must not hold any data yet, unless resuming a copy that failed into
+// it, and is counted once the copy is done.
+export class DataTransfer {
+  // Reads from a single snapshot, so the dump is consistent even while the adapter is in use
+  static async exportData(adapter: StorageAdapter, options?: TransferOptions): Promise<DataDump> {
+    const batchSize = this.batchSize(options);
+
+    return this.snapshot(adapter, async () => {
+      const collections = {} as DumpCollections;
+      for (const collection of DATA_COLLECTIONS) {
+        collections[collection] = [];
+        for await (const batch of this.batches(adapter, collection, batchSize)) {
+          collections[collection].push(...batch);
+        }
+      }
+
+      return {
+        format: DUMP_FORMAT,
+        version: DUMP_VERSION,
+        exportedAt: new Date(),
+        counts: this.countsOf(collections),
+        collections: collections as DataDump['collections'],
+      };
+    });
+  }
+
+  // Takes a dump as exportData returns it, or as JSON or NDJSON text
+  static async importData(
+    adapter: StorageAdapter,
+    dump: DataDump | string,
+    options?: TransferOptions
+  ): Promise<TransferReport> {
+    const batchSize = this.batchSize(options);
+    const resumeFrom = this.resumeFrom(options);
+    const checked = this.check(typeof dump === 'string' ? this.parse(dump) : dump);
+    if (!resumeFrom) {
+      await this.ensureEmpty(adapter);
+    }
+
+    for (const collection of DATA_COLLECTIONS) {
+      const start = this.startOf(collection, resumeFrom);
+      const records = checked.collections[collection] as Array<DataRecords[typeof collection]>;
+      if (start !== null) {
+        await this.copy(adapter, collection, this.slices(records, start, batchSize), start);
+      }
+    }
+
+    return this.verify(adapter, checked.counts);
+  }
+
+  // Reads batches from a single snapshot of from and writes each to to in a transaction of its own,
+  // so only the target is bounded by the batch size. The snapshot is a transaction on from held for the
+  // whole copy: MemoryAdapter and FileSystemAdapter copy their entire dataset to begin one, and
+  // SqliteAdapter keeps every other caller waiting until the migration ends
+  static async migrate(from: StorageAdapter, to: StorageAdapter, options?: TransferOptions): Promise<TransferReport> {
+    const batchSize = this.batchSize(options);
+    const resumeFrom = this.resumeFrom(options);
+    if (!resumeFrom) {
+      await this.ensureEmpty(to);
+    }
+
+    const counts = await this.snapshot(from, async () => {
+      const expected = this.countsOf({} as DumpCollections);
+      for (const collection of DATA_COLLECTIONS) {
+        expected[collection] = (await from.readRecords(collection, { limit: 0 })).total;
+        const start = this.startOf(collection, resumeFrom);
+        if (start !== null) {
+          await this.copy(to, collection, this.batches(from, collection, batchSize, start), start);
+        }
+      }
+      return expected;
+    });
+
+    return this.verify(to, counts);
+  }
+
+  // A header line with everything but the records, then one line per record, collection by collection
+  static toNdjson(dump: DataDump): string {
+    const { collections, ...header } = dump;
+    const lines = [JSON.stringify(header)];
+    for (const collection of DATA_COLLECTIONS) {
+      for (const record of collections[collection]) {
+        lines.push(JSON.stringify({ collection, record }));
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  // Reads a dump written as JSON or as NDJSON, turning its dates back into Dates
+  static parse(text: string): DataDump {
+    const [first = '', ...rest] = text.split('\n').filter(line => line.trim() !== '');
+    if (!this.isNdjsonHeader(first)) {
+      const { collections, ...header } = this.checkHeader(this.parseJson(text, 'The dump')) as DataDump;
+      return this.revive(header, collections as DumpCollections | undefined);
+    }
+
+    const collections = {} as DumpCollections;
+    rest.forEach((line, index) => {
+      const { collection, record } = this.parseJson(line, `Line ${index + 2} of the dump`) as DumpLine;
+      if (!DATA_COLLECTIONS.includes(collection)) {
+        throw new DataTransferError(`Line ${index + 2} of the dump names an unknown collection "${collection}"`);
+      }
+      (collections[collection] ??= []).push(record);
+    });
+
+    return this.revive(this.checkHeader(JSON.parse(first)), collections);
+  }
+
+  // An NDJSON dump starts with a line holding a whole object, the dump without its records
+  private static isNdjsonHeader(line: string): boolean {
+    try {
+      const header = JSON.parse(line);
+      return typeof header === 'object' && header !== null && !('collections' in header);
+    } catch {
+      return false;
+    }
+  }
+
+  private static revive(header: DumpHeader, collections: DumpCollections = {} as DumpCollections): DataDump {
+    const revived = {} as DumpCollections;
+    for (const collection of DATA_COLLECTIONS) {
+      revived[collection] = (collections[collection] ?? []).map(record =>
+        Records.revive(collection, record as DataRecords[typeof collection])
+      );
+    }
+
+    return { ...header, exportedAt: new Date(header.exportedAt), collections: revived as DataDump['collections'] };
+  }
+
+  // A dump of another format or of a newer version is refused
+  private static checkHeader(header: unknown): DumpHeader {
+    const { format, version } = (header ?? {}) as Partial<DumpHeader>;
+    if (format !== DUMP_FORMAT) {
+      throw new DataTransferError(`Not a ${DUMP_FORMAT}`);
+    }
+
+    if (!Number.isInteger(version) || version! < 1 || version! > DUMP_VERSION) {
+      throw new DataTransferError(`Dump format version ${version} is not supported, expected ${DUMP_VERSION}`);
+    }
+
+    return header as DumpHeader;
+  }
+
+  // So is one that holds fewer records than it lists, as a truncated file would
+  private static check(dump: DataDump): DataDump {
+    this.checkHeader(dump);
+    for (const collection of DATA_COLLECTIONS) {
+      const found = dump.collections?.[collection]?.length ?? 0;
+      if (found !== dump.counts?.[collection]) {
+        throw new DataTransferError(
+          `The dump holds ${found} ${collection} records but lists ${dump.counts?.[collection]}`,
+          collection
+        );
+      }
+    }
+
+    return dump;
+  }
+
+  private static parseJson(text: string, what: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new DataTransferError(`${what} is not valid JSON: ${error}`);
+    }
+  }
+
+  // A transaction that is rolled back, so reading leaves nothing behind
+  private static async snapshot<T>(adapter: StorageAdapter, fn: () => Promise<T>): Promise<T> {
+    const transaction = await adapter.beginTransaction();
+    try {
+      return await transaction.run(fn);
+    } finally {
+      await transaction.rollback();
+    }
+  }
+
+  private static async *batches<C extends DataCollection>(
+    adapter: StorageAdapter,
+    collection: C,
+    batchSize: number,
+    start = 0
+  ): AsyncGenerator<Array<DataRecords[C]>> {
+    for (let offset = start; ; offset += batchSize) {
+      const { items } = await adapter.readRecords(collection, { offset, limit: batchSize });
+      if (items.length > 0) {
+        yield items;
+      }
+      if (items.length < batchSize) {
+        return;
+      }
+    }
+  }
+
+  private static *slices<T>(records: T[], start: number, batchSize: number): Generator<T[]> {
+    for (let offset = start; offset < records.length; offset += batchSize) {
+      yield records.slice(offset, offset + batchSize);
+    }
+  }
+
+  // A batch that cannot be written stops the copy; the batches before it stay in the target
+  private static async copy<C extends DataCollection>(
+    adapter: StorageAdapter,
+    collection: C,
+    batches: AsyncIterable<Array<DataRecords[C]>> | Iterable<Array<DataRecords[C]>>,
+    offset: number
+  ): Promise<void> {
+    for await (const batch of batches) {
+      try {
+        await this.write(adapter, collection, batch);
+      } catch (error) {
+        throw new DataTransferError(
+          `Writing ${collection} failed at record ${offset}, resume from there: ${error}`,
+          collection,
+          offset,
+          error
+        );
+      }
+      offset += batch.length;
+    }
+  }
+
+  // The record of collection to start copying from, or null when the collection is copied already
+  private static startOf(collection: DataCollection, resumeFrom?: ResumePoint): number | null {
+    if (!resumeFrom) {
+      return 0;
+    }
+
+    const order = DATA_COLLECTIONS.indexOf(collection) - DATA_COLLECTIONS.indexOf(resumeFrom.collection);
+    return order < 0 ? null : order === 0 ? resumeFrom.offset : 0;
+  }
+
+  private static async write<C extends DataCollection>(
+    adapter: StorageAdapter,
+    collection: C,
+    records: Array<DataRecords[C]>
+  ): Promise<void> {
+    await adapter.transaction(() => adapter.writeRecords(collection, records));
+  }
+
+  private static async ensureEmpty(adapter: StorageAdapter): Promise<void> {
+    for (const collection of DATA_COLLECTIONS) {
+      const { total } = await adapter.readRecords(collection, { limit: 0 });
+      if (total > 0) {
+        throw new DataTransferError(`The target already holds ${total} ${collection} records`, collection);
+      }
+    }
+  }
+
+  private static async verify(adapter: StorageAdapter, expected: Counts): Promise<TransferReport> {
+    const counts = this.countsOf({} as DumpCollections);
+    for (const collection of DATA_COLLECTIONS) {
+      counts[collection] = (await adapter.readRecords(collection, { limit: 0 })).total;
+      if (counts[collection] !== expected[collection]) {
+        throw new DataTransferError(
+          `Expected ${expected[collection]} ${collection} records in the target, found ${counts[collection]}`,
+          collection
+        );
+      }
+    }
+    return { counts };
+  }
+
+  private static countsOf(collections: DumpCollections): Counts {
+    return Object.fromEntries(
+      DATA_COLLECTIONS.map(collection => [collection, collections[collection]?.length ?? 0])
+    ) as Counts;
+  }
+
+  private static resumeFrom(options?: TransferOptions): ResumePoint | undefined {
+    const resumeFrom = options?.resumeFrom;
+    const { collection, offset } = resumeFrom ?? {};
+    if (
+      resumeFrom !== undefined &&
+      (!DATA_COLLECTIONS.includes(collection!) || !Number.isInteger(offset) || offset! < 0)
+    ) {
+      throw new DataTransferError('resumeFrom must name a collection and a non-negative integer offset');
+    }
+    return resumeFrom;
+  }
+
+  private static batchSize(options?: TransferOptions): number {
+    const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new DataTransferError('batchSize must be a positive integer');
+    }
+    return batchSize;
+  }
+}
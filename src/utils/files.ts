@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import { IdGenerator } from './idGenerator';
+import { StorageLockedError } from '../errors';
+
+export interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+}
+
+export class AtomicFile {
+  // Written to a temp file, synced and renamed over the target, so a crash leaves either the old or the new
+  // content whole. The old content is first copied to backupPath.
+  static async write(filePath: string, content: string, backupPath?: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    if (backupPath) {
+      await fs.copyFile(filePath, backupPath).catch(ignoreMissing);
+    }
+    await fs.rename(tempPath, filePath);
+  }
+
+  // Appends and syncs, so the data is on disk when the returned promise resolves
+  static async append(filePath: string, content: string): Promise<void> {
+    const handle = await fs.open(filePath, 'a');
+    try {
+      await handle.write(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+// A lockfile naming the process that holds it. A lock left behind by a process that is no longer running
+// on this host is taken over; one held by a process on another host, or one that cannot be read, cannot be
+// checked and is respected.
+export class FileLock {
+  // Resolves with the owner written to the lock, which release needs to show the lock is still ours
+  static async acquire(lockPath: string): Promise<LockOwner> {
+    const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+
+    // Linked into place from a complete temp file, so nobody ever reads a half-written lock
+    const tempPath = `${lockPath}.${IdGenerator.generate()}`;
+    await fs.writeFile(tempPath, JSON.stringify(owner), 'utf-8');
+
+    try {
+      // A few attempts, for locks that go away or are taken over between the steps below
+      for (let attempt = 0; attempt < 3; attempt++) {
+        try {
+          await fs.link(tempPath, lockPath);
+          return owner;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+            throw error;
+          }
+        }
+
+        const holder = await this.readOwner(lockPath);
+        if (holder === undefined) {
+          continue;
+        }
+        if (holder === null || !this.isStale(holder)) {
+          throw new StorageLockedError(lockPath, holder);
+        }
+        await this.takeOver(lockPath, holder);
+      }
+
+      throw new StorageLockedError(lockPath, (await this.readOwner(lockPath)) ?? null);
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  // Leaves the lock alone unless it is still the one acquire wrote
+  static async release(lockPath: string, owner: LockOwner): Promise<void> {
+    const holder = await this.readOwner(lockPath);
+    if (holder && this.sameOwner(holder, owner)) {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  // Moved aside rather than removed, so of the processes that found the same stale lock only the one that
+  // moved it goes on; a lock that turns out to have been replaced meanwhile is put back
+  private static async takeOver(lockPath: string, stale: LockOwner): Promise<void> {
+    const movedPath = `${lockPath}.${IdGenerator.generate()}.stale`;
+    try {
+      await fs.rename(lockPath, movedPath);
+    } catch (error) {
+      ignoreMissing(error as NodeJS.ErrnoException);
+      return;
+    }
+
+    const moved = await this.readOwner(movedPath);
+    if (!moved || !this.sameOwner(moved, stale)) {
+      await fs.link(movedPath, lockPath).catch(ignoreExisting);
+    }
+    await fs.rm(movedPath, { force: true });
+  }
+
+  // undefined when the lock is gone, null when it cannot be read
+  private static async readOwner(lockPath: string): Promise<LockOwner | null | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(lockPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      return null;
+    }
+
+    try {
+      const owner = JSON.parse(content);
+      return typeof owner?.pid === 'number' && typeof owner.hostname === 'string' ? owner : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static sameOwner(a: LockOwner, b: LockOwner): boolean {
+    return a.pid === b.pid && a.hostname === b.hostname && a.acquiredAt === b.acquiredAt;
+  }
+
+  private static isStale(owner: LockOwner): boolean {
+    if (owner.hostname !== os.hostname()) {
+      return false;
+    }
+
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+}
+
+function ignoreMissing(error: NodeJS.ErrnoException): void {
+  if (error.code !== 'ENOENT') {
+    throw error;
+  }
+}
+
+function ignoreExisting(error: NodeJS.ErrnoException): void {
+  if (error.code !== 'EEXIST') {
+    throw error;
+  }
+}
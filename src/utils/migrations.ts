@@ -0,0 +1,77 @@
+import { Migration, MigrationReport, MigrationSet } from '../types';
+import { MigrationError } from '../errors';
+
+type SchemaVersions = Record<string, number>;
+
+// The scope of the library's own migrations, which no plugin may take
+export const CORE_SCOPE = 'core';
+
+export class Migrator {
+  // A new store starts at the latest version of every scope, so none of the migrations run on it
+  static latest(migrations: MigrationSet): SchemaVersions {
+    return Object.fromEntries(
+      Object.entries(migrations).map(([scope, list]) => [scope, Math.max(0, ...list.map(step => step.version))])
+    );
+  }
+
+  // Runs what the document has not had yet, scope by scope in version order, and stamps the versions reached.
+  // A document stamped by a newer release than these migrations know is refused rather than guessed at.
+  static async run(
+    document: Record<string, unknown>,
+    migrations: MigrationSet,
+    dryRun = false
+  ): Promise<MigrationReport> {
+    const from: SchemaVersions = { ...((document.schemaVersions as SchemaVersions | undefined) ?? {}) };
+    const to: SchemaVersions = { ...from };
+    const applied: MigrationReport['applied'] = [];
+
+    for (const [scope, list] of Object.entries(migrations)) {
+      const steps = this.ordered(scope, list);
+      const latest = steps.length > 0 ? steps[steps.length - 1].version : 0;
+      if ((to[scope] ?? 0) > latest) {
+        throw new MigrationError(`Stored ${scope} data is at version ${to[scope]}, newer than ${latest}`, scope);
+      }
+
+      for (const step of steps.filter(candidate => candidate.version > (to[scope] ?? 0))) {
+        try {
+          await step.up(document);
+        } catch (error) {
+          throw new MigrationError(`Migration ${scope} ${step.version} failed: ${error}`, scope, step.version, error);
+        }
+        to[scope] = step.version;
+        applied.push({ scope, version: step.version, description: step.description });
+      }
+    }
+
+    document.schemaVersions = to;
+    return { from, to, applied, dryRun };
+  }
+
+  // Whether data at these versions has migrations yet to run
+  static pending(versions: SchemaVersions, migrations: MigrationSet): boolean {
+    return Object.entries(migrations).some(([scope, list]) => list.some(step => step.version > (versions[scope] ?? 0)));
+  }
+
+  static nothingToDo(dryRun = false): MigrationReport {
+    return { from: {}, to: {}, applied: [], dryRun };
+  }
+
+  // For adapters without a migrate method: there is nothing to do unless migrations were registered
+  static unsupported(migrations: MigrationSet = {}, dryRun = false): MigrationReport {
+    const scope = Object.keys(migrations).find(candidate => migrations[candidate].length > 0);
+    if (scope !== undefined) {
+      throw new MigrationError(`The storage adapter cannot run the migrations of ${scope}`, scope);
+    }
+    return this.nothingToDo(dryRun);
+  }
+
+  private static ordered(scope: string, list: Migration[]): Migration[] {
+    const steps = [...list].sort((a, b) => a.version - b.version);
+    steps.forEach((step, index) => {
+      if (!Number.isInteger(step.version) || step.version < 1 || steps[index - 1]?.version === step.version) {
+        throw new MigrationError(`Migration versions of ${scope} must be distinct positive integers`, scope);
+      }
+    });
+    return steps;
+  }
+}
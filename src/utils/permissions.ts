@@ -0,0 +1,36 @@
+import { Permission } from '../types';
+
+type PermissionPattern = Pick<Permission, 'action' | 'resource'>;
+
+export class PermissionMatcher {
+  // "*" matches any run of characters, so "posts/*" covers "posts/42" and "*" covers everything
+  static matches(permission: PermissionPattern, action: string, resource: string): boolean {
+    return this.matchesPattern(permission.action, action) && this.matchesPattern(permission.resource, resource);
+  }
+
+  static toString(permission: PermissionPattern): string {
+    return `${permission.resource}:${permission.action}`;
+  }
+
+  // Keeps the first occurrence of each permission, e.g. when several roles grant the same one
+  static unique(permissions: Permission[]): Permission[] {
+    const seen = new Set<string>();
+    return permissions.filter(permission => {
+      if (seen.has(permission.id)) return false;
+      seen.add(permission.id);
+      return true;
+    });
+  }
+
+  private static matchesPattern(pattern: string, value: string): boolean {
+    if (!pattern.includes('*')) {
+      return pattern === value;
+    }
+
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`, 's').test(value);
+  }
+}
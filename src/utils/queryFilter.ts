@@ -0,0 +1,184 @@
+import { QueryFilter, QueryOptions, FilterCondition, FilterOperators, FilterValue } from '../types';
+
+export const FILTER_OPERATORS = [
+  '$eq',
+  '$ne',
+  '$in',
+  '$nin',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$regex',
+  '$contains',
+  '$exists',
+] as const;
+
+export const LOGICAL_OPERATORS = ['$and', '$or', '$not'] as const;
+
+type Normalized = string | number | boolean | null;
+
+export class FilterMatcher {
+  static matches(item: object, filter: QueryFilter): boolean {
+    return Object.entries(filter).every(([key, condition]) => {
+      if (key === '$and') {
+        return (condition as QueryFilter[]).every(subFilter => this.matches(item, subFilter));
+      }
+
+      if (key === '$or') {
+        return (condition as QueryFilter[]).some(subFilter => this.matches(item, subFilter));
+      }
+
+      if (key === '$not') {
+        return !this.matches(item, condition as QueryFilter);
+      }
+
+      return this.matchesCondition(this.getValue(item, key), condition as FilterCondition);
+    });
+  }
+
+  static matchesCondition(value: unknown, condition: FilterCondition): boolean {
+    if (!this.isOperatorObject(condition)) {
+      return this.equals(value, condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]) =>
+      this.matchesOperator(value, operator as keyof FilterOperators, operand)
+    );
+  }
+
+  // Paths have at most one level of nesting, e.g. "tags.department" reads the "department" tag
+  static getValue(item: object, path: string): unknown {
+    const dot = path.indexOf('.');
+    if (dot === -1) {
+      return (item as Record<string, unknown>)[path];
+    }
+
+    const parent = (item as Record<string, unknown>)[path.slice(0, dot)];
+    if (typeof parent !== 'object' || parent === null) {
+      return undefined;
+    }
+
+    return (parent as Record<string, unknown>)[path.slice(dot + 1)];
+  }
+
+  static sort<T extends object>(items: T[], sort: NonNullable<QueryOptions['sort']>): T[] {
+    return items.sort((a, b) => {
+      for (const [key, order] of Object.entries(sort)) {
+        const aValue = this.getValue(a, key);
+        const bValue = this.getValue(b, key);
+        const aMissing = aValue === undefined || aValue === null;
+        const bMissing = bValue === undefined || bValue === null;
+
+        // Missing values always sort last, whatever the direction
+        if (aMissing || bMissing) {
+          if (aMissing !== bMissing) return aMissing ? 1 : -1;
+          continue;
+        }
+
+        const result = this.compareValues(aValue, bValue);
+        if (result !== 0) return order === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  // Orders numbers (including Dates and booleans) before strings, like SQLite does
+  static compareValues(a: unknown, b: unknown): number {
+    const aValue = this.sortKey(a);
+    const bValue = this.sortKey(b);
+
+    if (typeof aValue !== typeof bValue) {
+      return typeof aValue === 'number' ? -1 : 1;
+    }
+
+    if (aValue < bValue) return -1;
+    if (aValue > bValue) return 1;
+    return 0;
+  }
+
+  static isOperatorObject(condition: unknown): condition is FilterOperators {
+    if (typeof condition !== 'object' || condition === null || condition instanceof Date) {
+      return false;
+    }
+
+    const keys = Object.keys(condition);
+    return keys.length > 0 && keys.every(key => key.startsWith('$'));
+  }
+
+  static toRegExp(pattern: string | RegExp): RegExp {
+    // Always build a fresh instance so global/sticky lastIndex state never leaks between rows
+    return pattern instanceof RegExp ? new RegExp(pattern.source, pattern.flags) : new RegExp(pattern);
+  }
+
+  private static matchesOperator(value: unknown, operator: keyof FilterOperators, operand: unknown): boolean {
+    switch (operator) {
+      case '$eq':
+        return this.equals(value, operand);
+      case '$ne':
+        return !this.equals(value, operand);
+      case '$in':
+        return (operand as FilterValue[]).some(candidate => this.equals(value, candidate));
+      case '$nin':
+        return !(operand as FilterValue[]).some(candidate => this.equals(value, candidate));
+      case '$gt':
+        return this.compare(value, operand, result => result > 0);
+      case '$gte':
+        return this.compare(value, operand, result => result >= 0);
+      case '$lt':
+        return this.compare(value, operand, result => result < 0);
+      case '$lte':
+        return this.compare(value, operand, result => result <= 0);
+      case '$regex':
+        return typeof value === 'string' && this.toRegExp(operand as string | RegExp).test(value);
+      case '$contains':
+        return typeof value === 'string' && value.includes(operand as string);
+      case '$exists':
+        return (value !== undefined && value !== null) === operand;
+      default:
+        return false;
+    }
+  }
+
+  private static equals(value: unknown, operand: unknown): boolean {
+    return this.normalize(value) === this.normalize(operand);
+  }
+
+  private static compare(value: unknown, operand: unknown, predicate: (result: number) => boolean): boolean {
+    const a = this.normalize(value);
+    const b = this.normalize(operand);
+
+    // Values of different types (or missing values) never satisfy a range operator
+    if (a === null || b === null || typeof a !== typeof b) {
+      return false;
+    }
+
+    if (a < b) return predicate(-1);
+    if (a > b) return predicate(1);
+    return predicate(0);
+  }
+
+  private static sortKey(value: unknown): number | string {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+
+    return typeof value === 'number' ? value : String(value);
+  }
+
+  private static normalize(value: unknown): Normalized | object {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+
+    return value as Normalized | object;
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  DataCollection,
+  DataRecords,
+  Group,
+  GroupMember,
+  RecordPage,
+  Role,
+  RolePermission,
+  ValidationError,
+} from '../types';
+import { Validator } from './validation';
+
+// How each collection identifies a record; a link is keyed by the ids it joins
+export const RECORD_KEYS: { [C in DataCollection]: (record: DataRecords[C]) => string } = {
+  users: user => user.id,
+  roles: role => role.id,
+  userRoles: userRole => `${userRole.userId}:${userRole.roleId}`,
+  groups: group => group.id,
+  groupMembers: groupMember => `${groupMember.groupId}:${groupMember.userId}`,
+  groupRoles: groupRole => `${groupRole.groupId}:${groupRole.roleId}`,
+  permissions: permission => permission.id,
+  rolePermissions: rolePermission => `${rolePermission.roleId}:${rolePermission.permissionId}`,
+  auditEntries: entry => entry.id,
+};
+
+// Every collection, each after the ones its records link to
+export const DATA_COLLECTIONS = Object.keys(RECORD_KEYS) as DataCollection[];
+
+const DATE_FIELDS: Record<DataCollection, string[]> = {
+  users: ['createdAt', 'updatedAt'],
+  roles: ['createdAt', 'updatedAt'],
+  userRoles: ['createdAt', 'validFrom', 'validUntil'],
+  groups: ['createdAt', 'updatedAt'],
+  groupMembers: ['createdAt'],
+  groupRoles: ['createdAt'],
+  permissions: ['createdAt', 'updatedAt'],
+  rolePermissions: ['createdAt'],
+  auditEntries: ['timestamp'],
+};
+
+export class Records {
+  static key<C extends DataCollection>(collection: C, record: DataRecords[C]): string {
+    return RECORD_KEYS[collection](record);
+  }
+
+  static validateCollection(collection: unknown): ValidationError | null {
+    if (!DATA_COLLECTIONS.includes(collection as DataCollection)) {
+      return { field: 'collection', message: `Collection must be one of ${DATA_COLLECTIONS.join(', ')}` };
+    }
+
+    return null;
+  }
+
+  static validatePage(page?: RecordPage): ValidationError | null {
+    for (const field of ['offset', 'limit'] as const) {
+      const value = page?.[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return { field, message: `${field} must be a non-negative integer` };
+      }
+    }
+
+    return Validator.validateTenantId(page?.tenantId);
+  }
+
+  // The records of the page's tenant, if it names one; groups and roles tell which links are the tenant's
+  static owned<C extends DataCollection>(
+    collection: C,
+    records: Array<DataRecords[C]>,
+    page: RecordPage | undefined,
+    owners: { groups: Iterable<Group>; roles: Iterable<Role> }
+  ): Array<DataRecords[C]> {
+    const tenantId = page?.tenantId;
+    if (tenantId === undefined || collection === 'permissions') {
+      return records;
+    }
+
+    const idsOf = (entities: Iterable<Group | Role>) =>
+      new Set(Array.from(entities, entity => (entity.tenantId === tenantId ? entity.id : null)));
+    switch (collection) {
+      case 'groupMembers':
+      case 'groupRoles': {
+        const groupIds = idsOf(owners.groups);
+        return records.filter(record => groupIds.has((record as GroupMember).groupId));
+      }
+      case 'rolePermissions': {
+        const roleIds = idsOf(owners.roles);
+        return records.filter(record => roleIds.has((record as RolePermission).roleId));
+      }
+      default:
+        return records.filter(record => (record as { tenantId?: string }).tenantId === tenantId);
+    }
+  }
+
+  static page<T>(records: T[], page?: RecordPage): { items: T[]; total: number } {
+    const offset = page?.offset ?? 0;
+    const end = page?.limit !== undefined ? offset + page.limit : undefined;
+    return { items: records.slice(offset, end), total: records.length };
+  }
+
+  // A record read back from JSON, with its dates turned back into Dates
+  static revive<C extends DataCollection>(collection: C, record: DataRecords[C]): DataRecords[C] {
+    const revived: Record<string, unknown> = { ...record };
+    for (const field of DATE_FIELDS[collection]) {
+      if (revived[field] !== undefined) {
+        revived[field] = new Date(revived[field] as string);
+      }
+    }
+    return revived as unknown as DataRecords[C];
+  }
+}
@@ -0,0 +1,46 @@
+import { User, Role, UserRole, UserWithRoles, RoleWithUsers } from '../types';
+
+export const USER_RELATIONS = ['roles'] as const;
+
+export const ROLE_RELATIONS = ['users'] as const;
+
+// Both helpers walk the assignments once for the whole page instead of once per row
+export class Relations {
+  static attachRoles(
+    users: User[],
+    userRoles: Iterable<UserRole>,
+    getRole: (id: string) => Role | undefined
+  ): UserWithRoles[] {
+    const rolesByUser = this.group(users, userRoles, 'userId', 'roleId', getRole);
+    return users.map(user => ({ ...user, roles: rolesByUser.get(user.id)! }));
+  }
+
+  static attachUsers(
+    roles: Role[],
+    userRoles: Iterable<UserRole>,
+    getUser: (id: string) => User | undefined
+  ): RoleWithUsers[] {
+    const usersByRole = this.group(roles, userRoles, 'roleId', 'userId', getUser);
+    return roles.map(role => ({ ...role, users: usersByRole.get(role.id)! }));
+  }
+
+  private static group<T>(
+    owners: Array<{ id: string }>,
+    userRoles: Iterable<UserRole>,
+    ownerKey: 'userId' | 'roleId',
+    relatedKey: 'userId' | 'roleId',
+    getRelated: (id: string) => T | undefined
+  ): Map<string, T[]> {
+    const groups = new Map<string, T[]>(owners.map(owner => [owner.id, []]));
+
+    for (const userRole of userRoles) {
+      const group = groups.get(userRole[ownerKey]);
+      const related = group && getRelated(userRole[relatedKey]);
+      if (related) {
+        group.push(related);
+      }
+    }
+
+    return groups;
+  }
+}
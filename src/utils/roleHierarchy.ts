@@ -0,0 +1,59 @@
+import { Role, ValidationError } from '../types';
+
+type ParentLookup = (roleId: string) => string[] | undefined;
+
+// A role inherits everything granted to its parents, so "admin" lists "editor" as a parent
+export class RoleHierarchy {
+  // The given roles followed by everything they inherit, each role once
+  static ancestors(roleIds: Iterable<string>, getParentIds: ParentLookup): string[] {
+    const seen = new Set<string>();
+    const queue = Array.from(roleIds);
+
+    while (queue.length > 0) {
+      const roleId = queue.shift()!;
+      if (seen.has(roleId)) continue;
+      seen.add(roleId);
+      queue.push(...(getParentIds(roleId) || []));
+    }
+
+    return Array.from(seen);
+  }
+
+  // The role followed by every role that inherits from it
+  static descendants(roleId: string, roles: Iterable<Role>): string[] {
+    const children = new Map<string, string[]>();
+    for (const role of roles) {
+      for (const parentId of role.parentIds || []) {
+        children.set(parentId, [...(children.get(parentId) || []), role.id]);
+      }
+    }
+
+    return this.ancestors([roleId], id => children.get(id));
+  }
+
+  // Checks that every parent exists and that the new edges do not close a cycle
+  static validateParents(
+    roleId: string | null,
+    parentIds: string[] | undefined,
+    getParentIds: ParentLookup
+  ): ValidationError | null {
+    for (const parentId of parentIds || []) {
+      if (getParentIds(parentId) === undefined) {
+        return { field: 'parentIds', message: `Parent role ${parentId} not found` };
+      }
+    }
+
+    if (roleId !== null && this.ancestors(parentIds || [], getParentIds).includes(roleId)) {
+      return { field: 'parentIds', message: 'Role hierarchy cannot contain cycles' };
+    }
+
+    return null;
+  }
+
+  // Parents for a child of a deleted role: the deleted role is replaced by its own parents
+  static reparent(parentIds: string[], deleted: Role): string[] {
+    return Array.from(
+      new Set(parentIds.flatMap(id => (id === deleted.id ? deleted.parentIds || [] : [id])))
+    );
+  }
+}
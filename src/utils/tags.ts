@@ -0,0 +1,74 @@
+import { Tag, TagValue, ValidationError } from '../types';
+import { FilterMatcher } from './queryFilter';
+
+export class TagUtils {
+  static keys(tagSets: Array<Tag | undefined>): string[] {
+    const keys = new Set<string>();
+    for (const tags of tagSets) {
+      Object.keys(tags || {}).forEach(key => keys.add(key));
+    }
+
+    return Array.from(keys).sort();
+  }
+
+  static values(tagSets: Array<Tag | undefined>, key: string): TagValue[] {
+    // Keyed by type as well, so 1, '1' and true stay distinct
+    const values = new Map<string, TagValue>();
+    for (const tags of tagSets) {
+      const value = tags?.[key];
+      if (value !== undefined && value !== null) {
+        values.set(`${typeof value}:${value}`, value);
+      }
+    }
+
+    return Array.from(values.values()).sort((a, b) => FilterMatcher.compareValues(a, b));
+  }
+
+  // The entities update changes, as new objects with the updated tags and the next version
+  static rewrite<T extends { tags?: Tag; version: number; updatedAt: Date }>(
+    entities: Iterable<T>,
+    update: (tags: Tag | undefined) => Tag | null,
+    now: Date
+  ): T[] {
+    const rewritten: T[] = [];
+    for (const entity of entities) {
+      const tags = update(entity.tags);
+      if (tags) {
+        rewritten.push({ ...entity, tags, version: entity.version + 1, updatedAt: now });
+      }
+    }
+
+    return rewritten;
+  }
+
+  // Renaming onto a key an entity already has would overwrite its value, so such renames are refused
+  static validateRename(tagSets: Array<Tag | undefined>, from: string, to: string): ValidationError | null {
+    const has = (tags: Tag | undefined, key: string) => !!tags && Object.prototype.hasOwnProperty.call(tags, key);
+    if (from === to || !tagSets.some(tags => has(tags, from) && has(tags, to))) {
+      return null;
+    }
+
+    return { field: 'to', message: `Tag key ${to} is already set alongside ${from}` };
+  }
+
+  // Returns the updated tags, or null when the key is not present
+  static rename(tags: Tag | undefined, from: string, to: string): Tag | null {
+    if (!tags || !Object.prototype.hasOwnProperty.call(tags, from) || from === to) {
+      return null;
+    }
+
+    const { [from]: value, ...rest } = tags;
+    return { ...rest, [to]: value };
+  }
+
+  // Returns the updated tags, or null when the key is not present
+  static remove(tags: Tag | undefined, key: string): Tag | null {
+    if (!tags || !Object.prototype.hasOwnProperty.call(tags, key)) {
+      return null;
+    }
+
+    const rest = { ...tags };
+    delete rest[key];
+    return rest;
+  }
+}
@@ -0,0 +1,24 @@
+import { ValidationError } from '../types';
+
+type TenantScoped = { tenantId?: string };
+
+// Entities without a tenantId belong to the default tenant, which is isolated like any other
+export class Tenancy {
+  static sameTenant(a: TenantScoped, b: TenantScoped): boolean {
+    return (a.tenantId ?? null) === (b.tenantId ?? null);
+  }
+
+  // An entity stays in the tenant it was created in
+  static validateUnchanged(existing: TenantScoped, changes: TenantScoped): ValidationError | null {
+    if ('tenantId' in changes && !this.sameTenant(existing, changes)) {
+      return { field: 'tenantId', message: 'Tenant ID cannot be changed' };
+    }
+
+    return null;
+  }
+
+  static validateParents(role: TenantScoped, parents: Array<TenantScoped & { id: string }>): ValidationError | null {
+    const parent = parents.find(candidate => !this.sameTenant(role, candidate));
+    return parent ? { field: 'parentIds', message: `Parent role ${parent.id} belongs to a different tenant` } : null;
+  }
+}
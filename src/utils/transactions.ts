@@ -0,0 +1,344 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { StorageAdapter, TransactionHandle, UniqueFieldsConfig } from '../types';
+import { TransactionError, TransactionConflictError } from '../errors';
+import { FilterMatcher } from './queryFilter';
+import { UniqueConstraints } from './uniqueness';
+
+// What the tracker keeps of every transaction; nested counts the open transactions nested in it
+export interface TransactionState<T> {
+  parent: T | null;
+  nested: number;
+  ended: boolean;
+}
+
+// The transaction a caller is in; run gives each scope its own, everyone else shares one
+interface Slot<T> {
+  transaction: T | null;
+}
+
+export interface DataTransaction<D> extends TransactionState<DataTransaction<D>> {
+  data: D;
+  // The committed data an outermost transaction began from
+  base: D | null;
+}
+
+// An adapter's entities by key, one map per collection
+export type Collections = Record<string, Map<string, object>>;
+
+// How a TransactionScope copies an adapter's data and reads and writes it as collections
+export interface TransactionStore<D> {
+  copy(data: D): D;
+  toCollections(data: D): Collections;
+  fromCollections(collections: Collections): D;
+}
+
+// An entity that differs between two versions of the data; null before means created, null after deleted
+interface Change {
+  collection: string;
+  key: string;
+  before: object | null;
+  after: object | null;
+}
+
+// What a set of changes wrote, and what it relied on nobody else writing
+interface Claims {
+  writes: Set<string>;
+  reads: Set<string>;
+}
+
+// The collection each id field of a link points into
+const LINKS: Record<string, Record<string, string>> = {
+  userRoles: { userId: 'users', roleId: 'roles' },
+  groupMembers: { groupId: 'groups', userId: 'users' },
+  groupRoles: { groupId: 'groups', roleId: 'roles' },
+  rolePermissions: { roleId: 'roles', permissionId: 'permissions' },
+};
+
+type TransactionControl = Pick<StorageAdapter, 'beginTransaction'>;
+
+export class Transactions {
+  // Commits when fn resolves and rolls back when it throws
+  static async run<T>(adapter: TransactionControl, fn: () => Promise<T>): Promise<T> {
+    const transaction = await adapter.beginTransaction();
+
+    let result: T;
+    try {
+      result = await transaction.run(fn);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    await transaction.commit();
+    return result;
+  }
+}
+
+// Tracks which transaction each caller is in. Calls made through run are in the transaction it was given,
+// and a transaction begun there nests in it. Elsewhere every transaction stands alone, and calls use the
+// first one begun outside run, the way they used the single transaction before there were handles.
+export class TransactionTracker<T extends TransactionState<T>> {
+  private scope = new AsyncLocalStorage<Slot<T>>();
+  private shared: Slot<T> = { transaction: null };
+
+  // The caller's innermost open transaction
+  current(): T | null {
+    return this.open(this.slot().transaction);
+  }
+
+  // Whether a transaction the caller begins now is nested in another
+  get nests(): boolean {
+    return this.open(this.scope.getStore()?.transaction ?? null) !== null;
+  }
+
+  // Whether the caller is outside any run while the transaction begun outside one is open, so it is in it
+  get sharing(): boolean {
+    return !this.scope.getStore() && this.open(this.shared.transaction) !== null;
+  }
+
+  begin(create: (parent: T | null) => T): T {
+    const scoped = this.scope.getStore();
+    const parent = this.open(scoped?.transaction ?? null);
+    const transaction = create(parent);
+
+    if (parent) {
+      parent.nested++;
+    }
+
+    if (scoped) {
+      scoped.transaction = transaction;
+    } else if (!this.current()) {
+      this.shared.transaction = transaction;
+    }
+
+    return transaction;
+  }
+
+  // The transaction commit and rollback without a handle end
+  innermost(): T {
+    const transaction = this.current();
+    if (!transaction) {
+      throw new TransactionError('No transaction in progress');
+    }
+    return transaction;
+  }
+
+  end(transaction: T): void {
+    if (transaction.ended) {
+      throw new TransactionError('Transaction already ended');
+    }
+
+    if (transaction.nested > 0) {
+      throw new TransactionError('A nested transaction is still in progress');
+    }
+
+    transaction.ended = true;
+    if (transaction.parent) {
+      transaction.parent.nested--;
+    }
+  }
+
+  // Calls made by fn, and only those, are in the given transaction, by default the caller's
+  run<R>(fn: () => Promise<R>, transaction: T | null = this.current()): Promise<R> {
+    return this.scope.run({ transaction }, fn);
+  }
+
+  handle(transaction: T, end: Pick<TransactionHandle, 'commit' | 'rollback'>): TransactionHandle {
+    return {
+      run: fn => {
+        if (transaction.ended) {
+          return Promise.reject(new TransactionError('Transaction already ended'));
+        }
+        return this.run(fn, transaction);
+      },
+      commit: () => end.commit(),
+      rollback: () => end.rollback(),
+    };
+  }
+
+  private slot(): Slot<T> {
+    return this.scope.getStore() ?? this.shared;
+  }
+
+  // Ended transactions stay in their slots until the next call finds them
+  private open(transaction: T | null): T | null {
+    while (transaction?.ended) {
+      transaction = transaction.parent;
+    }
+    return transaction;
+  }
+}
+
+// Transactions of an adapter that keeps its data in memory. A transaction works on a copy of the data,
+// so nothing it does is visible outside until the outermost commit, which keeps whatever was committed
+// in the meantime unless it touches the same entities.
+export class TransactionScope<D> {
+  private tracker = new TransactionTracker<DataTransaction<D>>();
+
+  constructor(
+    private store: TransactionStore<D>,
+    private uniqueFields?: UniqueFieldsConfig
+  ) {}
+
+  get inTransaction(): boolean {
+    return this.tracker.current() !== null;
+  }
+
+  // What the caller reads and writes: its transaction's copy, or the committed data outside one
+  data(committed: D): D {
+    return this.tracker.current()?.data ?? committed;
+  }
+
+  begin(committed: D): DataTransaction<D> {
+    return this.tracker.begin(parent => ({
+      data: this.store.copy(parent ? parent.data : committed),
+      base: parent ? null : this.store.copy(committed),
+      parent,
+      nested: 0,
+      ended: false,
+    }));
+  }
+
+  current(): DataTransaction<D> {
+    return this.tracker.innermost();
+  }
+
+  // The data to commit once an outermost transaction ends, null when a nested one committed into its parent
+  commit(transaction: DataTransaction<D>, committed: D): D | null {
+    this.tracker.end(transaction);
+    if (transaction.parent) {
+      transaction.parent.data = transaction.data;
+      return null;
+    }
+
+    return this.merge(transaction.base!, transaction.data, committed);
+  }
+
+  rollback(transaction: DataTransaction<D>): void {
+    this.tracker.end(transaction);
+  }
+
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return this.tracker.run(fn);
+  }
+
+  handle(transaction: DataTransaction<D>, end: Pick<TransactionHandle, 'commit' | 'rollback'>): TransactionHandle {
+    return this.tracker.handle(transaction, end);
+  }
+
+  // Applies what the transaction changed to what others committed since it began
+  private merge(base: D, data: D, committed: D): D {
+    const theirs = this.diff(base, committed);
+    if (theirs.length === 0) {
+      return data;
+    }
+
+    const mine = this.diff(base, data);
+    const conflict = TransactionConflicts.find(mine, theirs, this.uniqueFields);
+    if (conflict) {
+      throw new TransactionConflictError(conflict);
+    }
+
+    const merged = this.store.toCollections(this.store.copy(committed));
+    for (const { collection, key, after } of mine) {
+      if (after) {
+        merged[collection].set(key, after);
+      } else {
+        merged[collection].delete(key);
+      }
+    }
+    return this.store.fromCollections(merged);
+  }
+
+  // Entities are replaced rather than mutated, so comparing them by identity finds every change
+  private diff(from: D, to: D): Change[] {
+    const before = this.store.toCollections(from);
+    const after = this.store.toCollections(to);
+    const changes: Change[] = [];
+
+    for (const [collection, entities] of Object.entries(after)) {
+      const previous = before[collection];
+      for (const [key, entity] of entities) {
+        if (previous.get(key) !== entity) {
+          changes.push({ collection, key, before: previous.get(key) ?? null, after: entity });
+        }
+      }
+      for (const [key, entity] of previous) {
+        if (!entities.has(key)) {
+          changes.push({ collection, key, before: entity, after: null });
+        }
+      }
+    }
+
+    return changes;
+  }
+}
+
+// Two sets of changes conflict when one wrote something the other wrote or relied on
+class TransactionConflicts {
+  static find(mine: Change[], theirs: Change[], uniqueFields?: UniqueFieldsConfig): string | null {
+    const own = this.claims(mine, uniqueFields);
+    const other = this.claims(theirs, uniqueFields);
+
+    for (const claim of own.writes) {
+      if (other.writes.has(claim) || other.reads.has(claim)) {
+        return claim;
+      }
+    }
+
+    for (const claim of own.reads) {
+      if (other.writes.has(claim)) {
+        return claim;
+      }
+    }
+
+    return null;
+  }
+
+  private static claims(changes: Change[], uniqueFields?: UniqueFieldsConfig): Claims {
+    const claims: Claims = { writes: new Set(), reads: new Set() };
+
+    for (const { collection, key, before, after } of changes) {
+      claims.writes.add(`${collection} ${key}`);
+      if (!before || !after) {
+        claims.writes.add(`${collection} ${key} existence`);
+      }
+
+      // Unique values taken or given up
+      const tenantId = JSON.stringify(((after ?? before) as { tenantId?: string }).tenantId ?? null);
+      for (const field of this.uniqueFieldsOf(collection, uniqueFields)) {
+        const [was, is] = [before, after].map(entity =>
+          entity ? UniqueConstraints.compareKey(FilterMatcher.getValue(entity, field)) : null
+        );
+        for (const value of was !== is ? [was, is] : []) {
+          if (value !== null) {
+            claims.writes.add(`${collection}.${field} ${tenantId} ${value}`);
+          }
+        }
+      }
+
+      if (!after) {
+        continue;
+      }
+
+      // A link relies on the entities it joins still existing
+      for (const [field, target] of Object.entries(LINKS[collection] ?? {})) {
+        claims.reads.add(`${target} ${(after as Record<string, unknown>)[field]} existence`);
+      }
+
+      // A role relies on its parents staying as they are, so concurrent changes cannot form a cycle
+      for (const parentId of collection === 'roles' ? ((after as { parentIds?: string[] }).parentIds ?? []) : []) {
+        claims.reads.add(`roles ${parentId}`);
+      }
+    }
+
+    return claims;
+  }
+
+  private static uniqueFieldsOf(collection: string, uniqueFields?: UniqueFieldsConfig): string[] {
+    if (collection === 'users') {
+      return UniqueConstraints.userFields(uniqueFields);
+    }
+    return collection === 'roles' ? UniqueConstraints.roleFields(uniqueFields) : [];
+  }
+}
@@ -0,0 +1,107 @@
+import { User, UniqueFieldsConfig } from '../types';
+import { ConflictError } from '../errors';
+import { FilterMatcher } from './queryFilter';
+import { Tenancy } from './tenancy';
+
+type UniqueEntity = { id: string; tenantId?: string };
+
+// Values are unique within a tenant; strings compare case-insensitively and missing values never clash
+export class UniqueConstraints {
+  static userFields(config?: UniqueFieldsConfig): string[] {
+    return ['username', 'email', ...(config?.users || [])];
+  }
+
+  static roleFields(config?: UniqueFieldsConfig): string[] {
+    return ['name', ...(config?.roles || [])];
+  }
+
+  static findConflict(
+    entity: string,
+    candidate: Omit<UniqueEntity, 'id'>,
+    fields: string[],
+    existing: Iterable<UniqueEntity>,
+    excludeId?: string
+  ): ConflictError | null {
+    const others = Array.from(existing).filter(other => other.id !== excludeId && Tenancy.sameTenant(candidate, other));
+
+    for (const field of fields) {
+      const value = FilterMatcher.getValue(candidate, field);
+      const key = this.compareKey(value);
+      if (key !== null && others.some(other => this.compareKey(FilterMatcher.getValue(other, field)) === key)) {
+        return new ConflictError(entity, field, value);
+      }
+    }
+
+    return null;
+  }
+
+  // Checks entities rewritten in bulk against each other and the rest of existing, which may still hold
+  // their previous versions
+  static findRewriteConflict(
+    entity: string,
+    fields: string[],
+    existing: Iterable<UniqueEntity>,
+    rewritten: UniqueEntity[]
+  ): ConflictError | null {
+    const ids = new Set(rewritten.map(candidate => candidate.id));
+    const others = Array.from(existing).filter(other => !ids.has(other.id));
+
+    for (const field of fields) {
+      const taken = new Set<string>();
+      const keyOf = (candidate: UniqueEntity) => {
+        const key = this.compareKey(FilterMatcher.getValue(candidate, field));
+        return key === null ? null : `${JSON.stringify(candidate.tenantId ?? null)} ${key}`;
+      };
+
+      for (const other of others) {
+        const key = keyOf(other);
+        if (key !== null) {
+          taken.add(key);
+        }
+      }
+
+      for (const candidate of rewritten) {
+        const key = keyOf(candidate);
+        if (key === null) {
+          continue;
+        }
+        if (taken.has(key)) {
+          return new ConflictError(entity, field, FilterMatcher.getValue(candidate, field));
+        }
+        taken.add(key);
+      }
+    }
+
+    return null;
+  }
+
+  // The unique fields a tag rewrite can change
+  static tagFields(fields: string[]): string[] {
+    return fields.filter(field => field.startsWith('tags.'));
+  }
+
+  // Keyed by type as well, so 1 and '1' stay distinct
+  static compareKey(value: unknown): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    return typeof value === 'string' ? `string:${value.toLowerCase()}` : `${typeof value}:${String(value)}`;
+  }
+
+  // A filter finding the strings compareKey treats as equal to value
+  static matching(value: string): { $regex: RegExp } {
+    return { $regex: new RegExp(`^${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i') };
+  }
+
+  // The local part may be case-sensitive, so only the domain is lowercased
+  static normalizeEmail(email: string): string {
+    const trimmed = email.trim();
+    const at = trimmed.lastIndexOf('@');
+    return at === -1 ? trimmed : trimmed.slice(0, at) + trimmed.slice(at).toLowerCase();
+  }
+
+  static normalizeUser<T extends Partial<User>>(user: T): T {
+    return typeof user.email === 'string' ? { ...user, email: this.normalizeEmail(user.email) } : user;
+  }
+}
@@ -1,9 +1,24 @@
-import { User, Role, ValidationError } from '../types';
+import {
+  User,
+  Role,
+  Group,
+  Permission,
+  AssignRoleOptions,
+  AssignmentQuery,
+  AuditQuery,
+  ValidationError,
+} from '../types';
+import { FILTER_OPERATORS, LOGICAL_OPERATORS, FilterMatcher } from './queryFilter';
 
 export class Validator {
   static validateUser(user: Partial<User>): ValidationError[] {
     const errors: ValidationError[] = [];
 
+    const tenantError = this.validateTenantId(user.tenantId);
+    if (tenantError) {
+      errors.push(tenantError);
+    }
+
     if (!user.username) {
       errors.push({ field: 'username', message: 'Username is required' });
     } else if (typeof user.username !== 'string') {
@@ -28,6 +43,11 @@ export class Validator {
   static validateRole(role: Partial<Role>): ValidationError[] {
     const errors: ValidationError[] = [];
 
+    const tenantError = this.validateTenantId(role.tenantId);
+    if (tenantError) {
+      errors.push(tenantError);
+    }
+
     if (!role.name) {
       errors.push({ field: 'name', message: 'Role name is required' });
     } else if (typeof role.name !== 'string') {
@@ -38,6 +58,13 @@ export class Validator {
       errors.push({ field: 'description', message: 'Description must be a string' });
     }
 
+    if (
+      role.parentIds !== undefined &&
+      (!Array.isArray(role.parentIds) || !role.parentIds.every(id => typeof id === 'string' && id !== ''))
+    ) {
+      errors.push({ field: 'parentIds', message: 'Parent role IDs must be an array of non-empty strings' });
+    }
+
     if (role.tags && typeof role.tags !== 'object') {
       errors.push({ field: 'tags', message: 'Tags must be an object' });
     }
@@ -45,6 +72,120 @@ export class Validator {
     return errors;
   }
 
+  static validateGroup(group: Partial<Group>): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    const tenantError = this.validateTenantId(group.tenantId);
+    if (tenantError) {
+      errors.push(tenantError);
+    }
+
+    if (!group.name) {
+      errors.push({ field: 'name', message: 'Group name is required' });
+    } else if (typeof group.name !== 'string') {
+      errors.push({ field: 'name', message: 'Group name must be a string' });
+    }
+
+    if (group.description && typeof group.description !== 'string') {
+      errors.push({ field: 'description', message: 'Description must be a string' });
+    }
+
+    return errors;
+  }
+
+  static validatePermission(permission: Partial<Permission>): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!permission.action) {
+      errors.push({ field: 'action', message: 'Permission action is required' });
+    } else if (typeof permission.action !== 'string') {
+      errors.push({ field: 'action', message: 'Permission action must be a string' });
+    } else if (permission.action.includes(':')) {
+      errors.push({ field: 'action', message: 'Permission action cannot contain ":"' });
+    }
+
+    if (!permission.resource) {
+      errors.push({ field: 'resource', message: 'Permission resource is required' });
+    } else if (typeof permission.resource !== 'string') {
+      errors.push({ field: 'resource', message: 'Permission resource must be a string' });
+    }
+
+    if (permission.description && typeof permission.description !== 'string') {
+      errors.push({ field: 'description', message: 'Description must be a string' });
+    }
+
+    return errors;
+  }
+
+  static validateAssignment(options: AssignRoleOptions | undefined): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const field of ['validFrom', 'validUntil'] as const) {
+      const value = options?.[field];
+      if (value !== undefined && (!(value instanceof Date) || isNaN(value.getTime()))) {
+        errors.push({ field, message: `${field} must be a valid Date` });
+      }
+    }
+
+    if (errors.length === 0 && options?.validFrom && options.validUntil && options.validUntil <= options.validFrom) {
+      errors.push({ field: 'validUntil', message: 'validUntil must be after validFrom' });
+    }
+
+    return errors;
+  }
+
+  // At least one of the ids is required, so an assignment query never reads every assignment
+  static validateAssignmentQuery(query: AssignmentQuery): ValidationError | null {
+    if (!query || typeof query !== 'object' || (query.userId === undefined && query.roleId === undefined)) {
+      return { field: 'query', message: 'Assignment query needs a userId or a roleId' };
+    }
+
+    for (const field of ['userId', 'roleId'] as const) {
+      if (query[field] !== undefined && (!query[field] || typeof query[field] !== 'string')) {
+        return { field, message: `${field} must be a non-empty string` };
+      }
+    }
+
+    return null;
+  }
+
+  static validateAuditQuery(query: AuditQuery | undefined): ValidationError | null {
+    if (query !== undefined && (query === null || typeof query !== 'object')) {
+      return { field: 'query', message: 'Audit query must be an object' };
+    }
+
+    for (const field of ['actor', 'target', 'action'] as const) {
+      if (query?.[field] !== undefined && typeof query[field] !== 'string') {
+        return { field, message: `${field} must be a string` };
+      }
+    }
+
+    for (const field of ['from', 'to'] as const) {
+      const error = query?.[field] !== undefined ? this.validateDate(query[field], field) : null;
+      if (error) {
+        return error;
+      }
+    }
+
+    return null;
+  }
+
+  static validateDate(value: unknown, field: string): ValidationError | null {
+    if (!(value instanceof Date) || isNaN(value.getTime())) {
+      return { field, message: `${field} must be a valid Date` };
+    }
+
+    return null;
+  }
+
+  static validateTenantId(tenantId: unknown): ValidationError | null {
+    if (tenantId !== undefined && (typeof tenantId !== 'string' || tenantId.trim() === '')) {
+      return { field: 'tenantId', message: 'Tenant ID must be a non-empty string' };
+    }
+
+    return null;
+  }
+
   static validateTag(tag: unknown): ValidationError | null {
     if (typeof tag !== 'object' || tag === null) {
       return { field: 'tags', message: 'Tags must be a non-null object' };
@@ -62,6 +203,18 @@ export class Validator {
     return null;
   }
 
+  static validateTagKey(key: string, field = 'key'): ValidationError | null {
+    if (!key) {
+      return { field, message: 'Tag key is required' };
+    }
+
+    if (typeof key !== 'string') {
+      return { field, message: 'Tag key must be a string' };
+    }
+
+    return null;
+  }
+
   static validateId(id: string): ValidationError | null {
     if (!id) {
       return { field: 'id', message: 'ID is required' };
@@ -79,6 +232,144 @@ export class Validator {
       return { field: 'options', message: 'Query options must be an object' };
     }
 
+    const filter = (options as { filter?: unknown } | undefined)?.filter;
+    if (filter !== undefined) {
+      return this.validateQueryFilter(filter, 'filter');
+    }
+
     return null;
   }
+
+  static validateInclude(include: unknown, allowed: readonly string[]): ValidationError | null {
+    if (include === undefined) {
+      return null;
+    }
+
+    if (!Array.isArray(include)) {
+      return { field: 'include', message: 'Include must be an array' };
+    }
+
+    const unknown = include.find(relation => !allowed.includes(relation));
+    if (unknown !== undefined) {
+      return {
+        field: 'include',
+        message: `Cannot include "${unknown}", expected one of ${allowed.join(', ')}`,
+      };
+    }
+
+    return null;
+  }
+
+  static validateQueryFilter(filter: unknown, field = 'filter'): ValidationError | null {
+    if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+      return { field, message: 'Filter must be an object' };
+    }
+
+    for (const [key, condition] of Object.entries(filter)) {
+      const path = `${field}.${key}`;
+
+      if (key === '$and' || key === '$or') {
+        if (!Array.isArray(condition)) {
+          return { field: path, message: `${key} must be an array of filters` };
+        }
+
+        for (let i = 0; i < condition.length; i++) {
+          const error = this.validateQueryFilter(condition[i], `${path}[${i}]`);
+          if (error) return error;
+        }
+      } else if (key === '$not') {
+        const error = this.validateQueryFilter(condition, path);
+        if (error) return error;
+      } else if (key.startsWith('$')) {
+        return {
+          field: path,
+          message: `Unknown logical operator "${key}", expected one of ${LOGICAL_OPERATORS.join(', ')}`,
+        };
+      } else if (typeof condition === 'object' && condition !== null && !(condition instanceof Date)) {
+        const error = this.validateFilterOperators(condition as Record<string, unknown>, path);
+        if (error) return error;
+      }
+    }
+
+    return null;
+  }
+
+  private static validateFilterOperators(condition: Record<string, unknown>, field: string): ValidationError | null {
+    if (!FilterMatcher.isOperatorObject(condition)) {
+      if (Object.keys(condition).some(key => key.startsWith('$'))) {
+        return { field, message: 'Operators cannot be mixed with plain values' };
+      }
+
+      return { field, message: 'Filter values must be a scalar, a Date or an operator object' };
+    }
+
+    for (const [operator, operand] of Object.entries(condition)) {
+      const path = `${field}.${operator}`;
+
+      switch (operator) {
+        case '$eq':
+        case '$ne':
+          if (!this.isFilterValue(operand)) {
+            return { field: path, message: `${operator} requires a scalar or Date value` };
+          }
+          break;
+        case '$in':
+        case '$nin':
+          if (!Array.isArray(operand) || !operand.every(value => this.isFilterValue(value))) {
+            return { field: path, message: `${operator} requires an array of scalar or Date values` };
+          }
+          break;
+        case '$gt':
+        case '$gte':
+        case '$lt':
+        case '$lte':
+          if (
+            !(typeof operand === 'string' || typeof operand === 'number' || operand instanceof Date) ||
+            (operand instanceof Date && isNaN(operand.getTime()))
+          ) {
+            return { field: path, message: `${operator} requires a string, number or valid Date` };
+          }
+          break;
+        case '$regex':
+          if (typeof operand === 'string') {
+            try {
+              FilterMatcher.toRegExp(operand);
+            } catch {
+              return { field: path, message: '$regex is not a valid regular expression' };
+            }
+          } else if (!(operand instanceof RegExp)) {
+            return { field: path, message: '$regex requires a string or RegExp' };
+          }
+          break;
+        case '$contains':
+          if (typeof operand !== 'string') {
+            return { field: path, message: '$contains requires a string' };
+          }
+          break;
+        case '$exists':
+          if (typeof operand !== 'boolean') {
+            return { field: path, message: '$exists requires a boolean' };
+          }
+          break;
+        default:
+          return {
+            field: path,
+            message: `Unknown operator "${operator}", expected one of ${FILTER_OPERATORS.join(', ')}`,
+          };
+      }
+    }
+
+    return null;
+  }
+
+  private static isFilterValue(value: unknown): boolean {
+    return (
+      value === null ||
+      value === undefined ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean' ||
+      value instanceof Date
+    );
+  }
 }
@@ -0,0 +1,29 @@
+import { ValidationError, VersionOptions } from '../types';
+import { VersionConflictError } from '../errors';
+
+type Versioned = { id: string; version: number };
+
+// Optimistic concurrency: a caller passes the version it read, and the write fails if another one got there first
+export class Versioning {
+  static validateOptions(options: VersionOptions | undefined): ValidationError | null {
+    const expectedVersion = options?.expectedVersion;
+    if (expectedVersion !== undefined && (!Number.isInteger(expectedVersion) || expectedVersion < 1)) {
+      return { field: 'expectedVersion', message: 'expectedVersion must be a positive integer' };
+    }
+
+    return null;
+  }
+
+  static findConflict(
+    entity: 'user' | 'role',
+    current: Versioned,
+    options: VersionOptions | undefined
+  ): VersionConflictError | null {
+    const expectedVersion = options?.expectedVersion;
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      return new VersionConflictError(entity, current.id, expectedVersion, current.version);
+    }
+
+    return null;
+  }
+}